@@ -45,7 +45,10 @@ import { UnitsInfoImpl, UnitsInfo16Bit } from '../../../public/device-units';
 
 import { DuplexStream } from '../../../public/device-streams';
 
-import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
+import {
+   StreamRingBufferImpl,
+   reportStreamOverflows
+} from '../../../public/stream-ring-buffer';
 import { DeviceClassBase } from '../../../public/device-class-base';
 
 // Imported libs set in getDeviceClass(libs) in module.exports below
@@ -1134,6 +1137,12 @@ class ProxyDevice implements IProxyDevice {
          this.proxyDeviceSys.samplingUpdate(inOutIndices);
          this.setOutBufferOutputIndices(inOutIndices);
       }
+      //Let the user know if samples were lost because the buffers were full
+      reportStreamOverflows(
+         this.proxyDeviceSys,
+         this.getDeviceName(),
+         this.outStreamBuffers
+      );
    }
 }
 
@@ -54,7 +54,9 @@ import {
    ADITimePointInfoFlags,
    FirstSampleRemoteTime,
    IDeviceVersionInfo,
-   TInt64
+   TInt64,
+   TMessageSeverity,
+   ADIDeviceSynchModes
 } from '../../../public/device-api';
 
 import { Setting } from '../../../public/device-settings';
@@ -63,14 +65,42 @@ import { UnitsInfoImpl, UnitsInfo16Bit } from '../../../public/device-units';
 
 import { DuplexStream } from '../../../public/device-streams';
 
-import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
+import {
+   StreamRingBufferImpl,
+   fillStreamGap,
+   reportStreamOverflows
+} from '../../../public/stream-ring-buffer';
 
 import { Parser } from '../../../public/packet-parser';
+import {
+   IParserStatsSnapshot,
+   IParserStatsThresholds
+} from '../../../public/parser-stats';
 import { DeviceClassBase } from '../../../public/device-class-base';
+import {
+   IUSBDeviceId,
+   createCheckDeviceIsPresent,
+   parseJSONVersionInfo
+} from '../../../public/device-discovery';
+import { CommandChannel } from '../../../public/command-channel';
+import {
+   IReconnectable,
+   ReconnectionSupervisor
+} from '../../../public/reconnection-supervisor';
+import {
+   IFirmwareCapabilityTable,
+   checkFirmwareCompatibility
+} from '../../../public/firmware-version';
 
 //Don't fire notifications into Lightning too often!
 const kMinimumSamplingUpdatePeriodms = 50;
 
+//Let the user know if the USB connection is unreliable
+const kParserStatsThresholds: IParserStatsThresholds = {
+   lostPackets: 100,
+   resyncs: 10
+};
+
 // Imported libs set in getDeviceClass(libs) in module.exports below
 // obtained from quark-enums
 type Enum = { [key: string]: number };
@@ -207,6 +237,40 @@ const kStreamNames = [
 
 const kEnableLogging = false;
 
+type FirmwareFeature = 'usbFrameTimes' | 'startOnSpecifiedFrame';
+
+//Firmware versions supported by this script (see kFWVersion in SAMD51Lightning.ino)
+const kFirmwareCapabilities: IFirmwareCapabilityTable<FirmwareFeature> = {
+   minimumVersion: '0.9.0',
+   features: {
+      usbFrameTimes: {
+         since: '0.9.1',
+         description: "USB frame time synchronization (the 'u' command)"
+      },
+      startOnSpecifiedFrame: {
+         since: '0.9.1',
+         description: "starting on a specified USB frame (the 'bo' command)"
+      }
+   }
+};
+
+const kSupportedDevices: IUSBDeviceId[] = [
+   //Due Native port 003E
+   //{ vendorId: '2341', productId: '003E', deviceName: 'Arduino Due' },
+   //Due Programming port 003D is not recommended!
+   {
+      vendorId: '239A',
+      productId: '801B',
+      deviceName: 'ADAFruit Feather M0 Express'
+   },
+   { vendorId: '239A', productId: '8022', deviceName: 'ADAFruit Feather M4' },
+   {
+      vendorId: '1B4F',
+      productId: 'F016',
+      deviceName: 'Sparkfun Thing Plus SAMD51'
+   }
+];
+
 export let gSampleCountForTesting = 0;
 
 export function resetgSampleCountForTesting() {
@@ -224,6 +288,8 @@ export class PhysicalDevice implements OpenPhysicalDevice {
    parser: ParserWithSettings;
    numberOfChannels: number;
    timePointInfo?: TimePointInfo;
+   //Shown to the user when sampling starts if the firmware lacks some features
+   firmwareWarning: string;
 
    constructor(
       private deviceClass: DeviceClass,
@@ -231,6 +297,15 @@ export class PhysicalDevice implements OpenPhysicalDevice {
       friendlyName: string,
       versionInfo: IDeviceVersionInfo
    ) {
+      const compatibility = checkFirmwareCompatibility(
+         versionInfo,
+         kFirmwareCapabilities
+      );
+      if (!compatibility.isSupported) {
+         throw new Error(compatibility.message);
+      }
+      this.firmwareWarning = compatibility.message;
+
       this.deviceStream = deviceStream;
       this.versionInfo = versionInfo;
 
@@ -255,7 +330,16 @@ export class PhysicalDevice implements OpenPhysicalDevice {
             ADITimePointInfoFlags.kTPInfoDefault
          );
 
-         this.timePointInfo.flags |= versionInfo.deviceSynchModes;
+         let deviceSynchModes = versionInfo.deviceSynchModes;
+         //Don't use commands older firmware does not support
+         if (!compatibility.features.has('usbFrameTimes')) {
+            deviceSynchModes &= ~ADIDeviceSynchModes.kDeviceSyncUSBFrameTimes;
+         }
+         if (!compatibility.features.has('startOnSpecifiedFrame')) {
+            deviceSynchModes &=
+               ~ADITimePointInfoFlags.kDeviceSynchUSBStartOnSpecifiedFrame;
+         }
+         this.timePointInfo.flags |= deviceSynchModes;
       }
 
       this.parser = new ParserWithSettings(deviceStream, this.numberOfChannels);
@@ -271,6 +355,37 @@ export class PhysicalDevice implements OpenPhysicalDevice {
       console.warn(err);
    };
 
+   /**
+    * Repeats the version handshake after the connection has been reopened, e.g. by the
+    * ProxyDevice's ReconnectionSupervisor. Rejects if the device does not respond or
+    * a different device is now on the connection.
+    */
+   verifyDevice(): Promise<void> {
+      const channel = new CommandChannel(this.deviceStream);
+      channel.sendCommand('s\n').catch(() => {}); //the 'v' command fails too
+      return channel
+         .sendCommand('v\n', { expect: '$$$', timeoutMs: 2000, retries: 2 })
+         .then(
+            (response) => {
+               channel.close();
+               const versionInfo = parseJSONVersionInfo(response.toString());
+               if (
+                  !versionInfo ||
+                  versionInfo.deviceClass !== this.versionInfo.deviceClass ||
+                  versionInfo.serialNumber !== this.versionInfo.serialNumber
+               ) {
+                  throw new Error(
+                     `${this.deviceName} has been replaced by a different device`
+                  );
+               }
+            },
+            (err: Error) => {
+               channel.close();
+               throw err;
+            }
+         );
+   }
+
    /**
     * @returns the name of the device
     */
@@ -427,15 +542,24 @@ class ParserWithSettings extends Parser {
    constructor(public inStream: IDuplexStream, nADCChannels: number) {
       super(inStream, nADCChannels);
       this.samplesPerSec = 0;
+      //The 8 bit packet counter wraps every 256 packets, e.g. 2.56 s at 100 Hz
+      this.elapsedTimeCheck = {
+         remoteTicksPerSec: 1e6, //Arduino micros()
+         samplesPerSec: () => this.samplesPerSec
+      };
    }
 
    setProxyDevice(proxyDevice: IDataSink | null) {
-      //Reset this cached state so it get sent to the HW when needed
-      this.samplesPerSec = 0;
-
+      this.forgetHardwareSettings();
       super.setProxyDevice(proxyDevice);
    }
 
+   //Reset this cached state so it get sent to the HW when needed, e.g. because another
+   //proxy may have changed it or the device has rebooted.
+   forgetHardwareSettings() {
+      this.samplesPerSec = 0;
+   }
+
    setSamplesPerSec(samplesPerSec: number): number {
       //All input samples are at the same rate
       if (this.samplesPerSec === samplesPerSec) {
@@ -585,7 +709,7 @@ function getDefaultDisabledStreamSettings(settings: DeviceSettings) {
 /**
  * The ProxyDevice object is created for each recording. Manages hardware settings and sampling.
  */
-class ProxyDevice implements IProxyDevice {
+class ProxyDevice implements IProxyDevice, IReconnectable {
    /**
     * Any state within "settings" will be saved / loaded by the application.
     */
@@ -607,6 +731,9 @@ class ProxyDevice implements IProxyDevice {
    //Only non-null if this proxy is the one with a lock on the PhysicalDevice
    parser: ParserWithSettings | null;
 
+   //Reopens the connection if it is lost while sampling
+   reconnection: ReconnectionSupervisor | null = null;
+
    /**
     * @returns if the device is sampling
     */
@@ -925,6 +1052,11 @@ class ProxyDevice implements IProxyDevice {
       if (this.physicalDevice) {
          this.parser = this.physicalDevice.parser;
          this.parser.setProxyDevice(this);
+         this.parser.stats.reportThresholdsTo(
+            this.proxyDeviceSys,
+            this.getDeviceName(),
+            kParserStatsThresholds
+         );
 
          if (kEnableLogging)
             console.log('Sending complete settings to hardware device');
@@ -942,6 +1074,7 @@ class ProxyDevice implements IProxyDevice {
    disconnectFromPhysicalDevice(): void {
       if (this.parser) {
          this.parser.setProxyDevice(null);
+         this.parser.stats.reportThresholdsTo(null, '', {});
          this.parser = null; // Drop our reference to the parser in the PhysicalDevice
       }
       if (kEnableLogging) console.log('disconnectFromPhysicalDevice()');
@@ -970,6 +1103,18 @@ class ProxyDevice implements IProxyDevice {
    prepareForSampling(bufferSizeInSecs: number): boolean {
       if (!this.parser || !this.physicalDevice) return false; // Can't sample if no hardware connection
 
+      if (this.physicalDevice.firmwareWarning) {
+         this.proxyDeviceSys?.onDeviceEvent(
+            DeviceEvent.kDeviceStartSamplingWarning,
+            this.getDeviceName(),
+            this.physicalDevice.firmwareWarning,
+            {
+               onceOnly: 'arduino-example-firmware-version',
+               severity: TMessageSeverity.kMessageWarn
+            }
+         );
+      }
+
       // Create Array of StreamBuffers (each with a streamIndex property) for
       // each enabled stream.
       this.outStreamBuffers = [];
@@ -1004,9 +1149,29 @@ class ProxyDevice implements IProxyDevice {
          this.physicalDevice.timePointInfo.flags &
             ADITimePointInfoFlags.kDeviceSynchUSBStartOnSpecifiedFrame
       ) {
-         return this.parser.startSampling(startOnUSBFrame);
+         return this.superviseSampling(
+            this.parser.startSampling(startOnUSBFrame)
+         );
       } else {
-         return this.parser.startSampling();
+         return this.superviseSampling(this.parser.startSampling());
+      }
+   }
+
+   private superviseSampling(started: boolean) {
+      if (started && this.physicalDevice) {
+         this.reconnection = new ReconnectionSupervisor(
+            this.physicalDevice.deviceStream,
+            this
+         );
+         this.reconnection.start();
+      }
+      return started;
+   }
+
+   private stopSupervising() {
+      if (this.reconnection) {
+         this.reconnection.stop();
+         this.reconnection = null;
       }
    }
 
@@ -1017,10 +1182,58 @@ class ProxyDevice implements IProxyDevice {
     * @returns if device successfully stopped sampling
     */
    stopSampling(): boolean {
+      this.stopSupervising();
       if (!this.parser) return false; // Can't sample if no hardware connection
       return this.parser.stopSampling();
    }
 
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('getParserStats', '{}')
+   getParserStats(
+      argJson: unknown,
+      callback: (
+         error: Error | null,
+         result: IParserStatsSnapshot | null
+      ) => void
+   ) {
+      callback(null, this.parser ? this.parser.stats.snapshot() : null);
+   }
+
+   verifyDevice(): Promise<void> {
+      if (!this.physicalDevice) {
+         return Promise.reject(new Error('physical device missing'));
+      }
+      return this.physicalDevice.verifyDevice();
+   }
+
+   /**
+    * Called by the ReconnectionSupervisor once the device has been found again. The device
+    * will have rebooted, so all the settings are re-sent before sampling is restarted.
+    */
+   resumeSampling(gapms: number): boolean {
+      if (!this.parser) return false;
+      this.parser.forgetHardwareSettings();
+      this.applyAllSettingsToHardwareOnly();
+      fillStreamGap(
+         this.proxyDeviceSys,
+         this.getDeviceName(),
+         this.outStreamBuffers,
+         gapms,
+         (streamIndex) =>
+            Number(
+               this.settings.dataInStreams[streamIndex].samplesPerSec.value
+            ),
+         'the connection to the device was lost'
+      );
+      return this.parser.resumeSampling();
+   }
+
+   onReconnectFailed(error: Error) {
+      this.stopSupervising();
+      this.onSamplingStopped(
+         `Could not reconnect to the device: ${error.message}`
+      );
+   }
+
    /**
     * Called from Quark after sampling has finished. The outStreamBuffers should be reset here.
     *
@@ -1028,6 +1241,7 @@ class ProxyDevice implements IProxyDevice {
     */
    //If this returns false, the calling code could call getLastError() to find out what's wrong
    cleanupAfterSampling(): boolean {
+      this.stopSupervising();
       this.outStreamBuffers = [];
       return true;
    }
@@ -1060,6 +1274,12 @@ class ProxyDevice implements IProxyDevice {
          this.proxyDeviceSys.samplingUpdate(inOutIndices);
          this.setOutBufferOutputIndices(inOutIndices);
       }
+      //Let the user know if samples were lost because the buffers were full
+      reportStreamOverflows(
+         this.proxyDeviceSys,
+         this.getDeviceName(),
+         this.outStreamBuffers
+      );
    }
 
    /**
@@ -1206,116 +1426,20 @@ export class DeviceClass extends DeviceClassBase implements IDeviceClass {
       deviceConnection: DuplexDeviceConnection,
       callback: (error: Error | null, device: OpenPhysicalDevice | null) => void
    ): void {
-      const vid = deviceConnection.vendorId.toUpperCase();
-      const pid = deviceConnection.productId.toUpperCase();
-      let deviceName = '';
-      //if (vid === '2341' && pid === '003E') deviceName = 'Arduino Due';
-      //Due Native port 003E
-      // else if(vid === '2341' && pid === '003D')
-      //    deviceName = 'Due Programming port';  //not recommended!
-      if (vid === '239A' && pid === '801B')
-         deviceName = 'ADAFruit Feather M0 Express';
-      else if (vid === '239A' && pid === '8022')
-         deviceName = 'ADAFruit Feather M4';
-      else if (vid === '1B4F' && pid === 'F016')
-         deviceName = 'Sparkfun Thing Plus SAMD51';
-      else {
-         callback(null, null); // Did not find one of our devices on this connection
-         return;
-      }
-
-      const kArduinoRebootTimems = 2000;
-      const kTimeoutms = 2000; // Time for device to  respond
-      const devStream = new DuplexStream(deviceConnection);
-
-      const friendlyName = deviceName; //deviceConnection.friendlyName;
-      const connectionName = deviceConnection.friendlyName;
-
-      //node streams default to 'utf8' encoding, which most devices won't understand.
-      //With 'utf8' encoding, non-ascii chars, such as:
-      //devStream.write('\xD4\x02\x02\xD4\x76\x0A\x62');
-      //could be expanded into multiple bytes, so we use 'binary' instead.
-      devStream.setDefaultEncoding('binary');
-
-      const deviceClass = this;
-      let resultStr = '';
-
-      // Give up if device is not detected within the timeout period
-      const deviceVersionTimeout = global.setTimeout(() => {
-         devStream.destroyConnection(); // stop 'data' and 'error' callbacks
-         const err = new Error(
-            `Timed out: device ${friendlyName} did not respond to version request.`
-         );
-         console.warn(err);
-         callback(err, null);
-      }, kArduinoRebootTimems + kTimeoutms);
-
-      // connect error handler
-      devStream.on('error', (err: Error) => {
-         clearTimeout(deviceVersionTimeout);
-         console.warn(err); // errors include timeouts
-         devStream.destroy(); // stop 'data' and 'error' callbacks
-         callback(err, null);
-      });
-
-      // connect data handler
-      devStream.on('data', (newBytes: Buffer) => {
-         clearTimeout(deviceVersionTimeout); //we got a response
-
-         const newStr = newBytes.toString();
-         resultStr += newStr;
-         // See if we got '$$$'
-         const endPos = resultStr.indexOf('$$$');
-
-         if (endPos !== -1) {
-            //const startPos = resultStr.indexOf('ArduinoRT');
-            const startPos = resultStr.indexOf('{');
-            if (startPos < 0) {
-               callback(null, null); //Device not found
-            }
-            let versionInfo = undefined;
-            try {
-               const versionInfoJSON = resultStr.slice(startPos, endPos);
-               versionInfo = JSON.parse(versionInfoJSON);
-               if (
-                  !(
-                     versionInfo.deviceClass &&
-                     versionInfo.deviceClass === this.getDeviceClassName()
-                  )
-               ) {
-                  callback(null, null); //Device not found
-               }
-               // We found an Arduino Example device
-
-               const physicalDevice = new PhysicalDevice(
-                  deviceClass,
-                  devStream,
-                  friendlyName,
-                  versionInfo
-               );
-
-               callback(null, physicalDevice);
-            } catch (err) {
-               callback(null, null); //Device not found
-            }
-         }
-      });
-
-      deviceConnection.setOption({ baud_rate: 115200 });
-
-      devStream.write('s\n'); //Stop it incase it is already sampling
-
-      //Opening the serial port may cause the Arduino to reboot.
-      //Wait for it to be running again before sending the v command.
-      global.setTimeout(() => {
-         // Tell the device to emit its version string.
-         //devStream.setReadTimeout(kTimeoutms);
-         devStream.write('v\n');
-      }, kArduinoRebootTimems);
-
-      return;
+      this.findDevice(deviceConnection, callback);
    }
 
+   //Sends 's\n', waits for the Arduino to reboot, then sends 'v\n' and expects the
+   //IDeviceVersionInfo JSON followed by '$$$'.
+   private findDevice = createCheckDeviceIsPresent({
+      devices: kSupportedDevices,
+      baudRate: 115200,
+      validateVersionInfo: (versionInfo) =>
+         versionInfo.deviceClass === this.getDeviceClassName(),
+      createPhysicalDevice: (devStream, versionInfo, { deviceName }) =>
+         new PhysicalDevice(this, devStream, deviceName, versionInfo)
+   });
+
    /**
     * @param quarkProxy the Quark component of the ProxyDevice - used for notifying Quark of events
     * @param physicalDevice the instance of your implementation of PhysicalDevice
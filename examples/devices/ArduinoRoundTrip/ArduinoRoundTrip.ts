@@ -64,6 +64,10 @@ import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
 
 import { Parser } from '../../../public/packet-parser';
 import { DeviceClassBase } from '../../../public/device-class-base';
+import {
+   IUSBDeviceId,
+   createCheckDeviceIsPresent
+} from '../../../public/device-discovery';
 
 //Don't fire notifications into Lightning too often!
 const kMinimumSamplingUpdatePeriodms = 50;
@@ -199,6 +203,15 @@ const kStreamNames = [
 
 const kEnableLogging = false;
 
+const kSupportedDevices: IUSBDeviceId[] = [
+   //Due Native port 003E
+   { vendorId: '2341', productId: '003E', deviceName: 'Arduino Due' }
+   //Due Programming port 003D is not recommended!
+   //{ vendorId: '239A', productId: '801B', deviceName: 'ADAFruit Feather M0 Express' },
+   //{ vendorId: '239A', productId: '8022', deviceName: 'ADAFruit Feather M4' },
+   //{ vendorId: '1B4F', productId: 'F016', deviceName: 'Sparkfun Thing Plus SAMD51' }
+];
+
 export let gSampleCountForTesting = 0;
 
 export function resetgSampleCountForTesting() {
@@ -1147,99 +1160,30 @@ export class DeviceClass extends DeviceClassBase implements IDeviceClass {
       deviceConnection: DuplexDeviceConnection,
       callback: (error: Error | null, device: OpenPhysicalDevice | null) => void
    ): void {
-      const vid = deviceConnection.vendorId.toUpperCase();
-      const pid = deviceConnection.productId.toUpperCase();
-      let deviceName = '';
-      if (vid === '2341' && pid === '003E') deviceName = 'Arduino Due';
-      //Due Native port 003E
-      // else if(vid === '2341' && pid === '003D')
-      //    deviceName = 'Due Programming port';  //not recommended!
-      // else if (vid === '239A' && pid === '801B')
-      //    deviceName = 'ADAFruit Feather M0 Express';
-      // else if (vid === '239A' && pid === '8022')
-      //    deviceName = 'ADAFruit Feather M4';
-      // else if (vid === '1B4F' && pid === 'F016')
-      //    deviceName = 'Sparkfun Thing Plus SAMD51';
-      else {
-         callback(null, null); // Did not find one of our devices on this connection
-         return;
-      }
+      this.findDevice(deviceConnection, callback);
+   }
 
-      const kArduinoRebootTimems = 2000;
-      const kTimeoutms = 2000; // Time for device to  respond
-      const devStream = new DuplexStream(deviceConnection);
-
-      const friendlyName = deviceName; //deviceConnection.friendlyName;
-      const connectionName = deviceConnection.friendlyName;
-
-      //node streams default to 'utf8' encoding, which most devices won't understand.
-      //With 'utf8' encoding, non-ascii chars, such as:
-      //devStream.write('\xD4\x02\x02\xD4\x76\x0A\x62');
-      //could be expanded into multiple bytes, so we use 'binary' instead.
-      devStream.setDefaultEncoding('binary');
-
-      // connect error handler
-      devStream.on('error', (err: Error) => {
-         console.warn(err); // errors include timeouts
-         devStream.destroy(); // stop 'data' and 'error' callbacks
-         callback(err, null);
-      });
-
-      const deviceClass = this;
-      let resultStr = '';
-
-      // Give up if device is not detected within the timeout period
-      const deviceVersionTimeout = global.setTimeout(() => {
-         devStream.destroyConnection(); // stop 'data' and 'error' callbacks
-         const err = new Error(
-            `Timed out: device ${friendlyName} did not respond to version request.`
+   //Sends 's\n', waits for the Arduino to reboot, then sends 'v\n' and expects a version
+   //string containing 'ArduinoRT' followed by '$$$'.
+   private findDevice = createCheckDeviceIsPresent<string>({
+      devices: kSupportedDevices,
+      baudRate: 115200,
+      parseVersionInfo: (response) => {
+         const startPos = response.indexOf('ArduinoRT');
+         return startPos >= 0 ? response.slice(startPos) : null;
+      },
+      createPhysicalDevice: (devStream, versionInfo, device) => {
+         const physicalDevice = new PhysicalDevice(
+            this,
+            devStream,
+            device.deviceName,
+            versionInfo
          );
-         console.warn(err);
-         callback(err, null);
-      }, kArduinoRebootTimems + kTimeoutms);
-
-      // connect data handler
-      devStream.on('data', (newBytes: Buffer) => {
-         const newStr = newBytes.toString();
-         resultStr += newStr;
-         // See if we got '$$$'
-         const endPos = resultStr.indexOf('$$$');
-
-         if (endPos !== -1) {
-            const startPos = resultStr.indexOf('ArduinoRT');
-            if (startPos >= 0) {
-               // We found an ArduinoRT device
-               clearTimeout(deviceVersionTimeout);
-
-               const versionInfo = resultStr.slice(startPos, endPos);
-               const physicalDevice = new PhysicalDevice(
-                  deviceClass,
-                  devStream,
-                  friendlyName,
-                  versionInfo
-               );
-               //TODO: serial number should come from the firmware JSON version info!
-               physicalDevice.serialNumber = connectionName;
-
-               callback(null, physicalDevice);
-            }
-         }
-      });
-
-      deviceConnection.setOption({ baud_rate: 115200 });
-
-      devStream.write('s\n'); //Stop it incase it is already sampling
-
-      //Opening the serial port may cause the Arduino to reboot.
-      //Wait for it to be running again before sending the v command.
-      global.setTimeout(() => {
-         // Tell the device to emit its version string.
-         //devStream.setReadTimeout(kTimeoutms);
-         devStream.write('v\n');
-      }, kArduinoRebootTimems);
-
-      return;
-   }
+         //TODO: serial number should come from the firmware JSON version info!
+         physicalDevice.serialNumber = device.connection.friendlyName;
+         return physicalDevice;
+      }
+   });
 
    /**
     * @param quarkProxy the Quark component of the ProxyDevice - used for notifying Quark of events
@@ -0,0 +1,199 @@
+import { TMessageSeverity } from '../../../public/device-api';
+
+// The slope of the most recent 10 minutes of readings is used to estimate the
+// remaining runtime, once at least 2 minutes of readings are available.
+const kDischargeWindowms = 10 * 60 * 1000;
+const kMinDischargeSpanms = 2 * 60 * 1000;
+
+// Used to estimate the runtime before any discharge has been measured, e.g.
+// before sampling starts. Roughly the runtime of an 8 channel Explore.
+export const kNominalRuntimeMins = 8 * 60;
+
+export const kDefaultMinTemperatureC = 0;
+export const kDefaultMaxTemperatureC = 45;
+
+/**
+ * Reading from an environment (ENV) packet, passed to ProxyDevice.onPacket().
+ */
+export interface IEnvironmentReading {
+   temperatureC: number;
+   batteryPercentage: number;
+}
+
+export interface IBatteryThresholds {
+   lowPercentage: number;
+   criticalPercentage: number;
+   minTemperatureC: number;
+   maxTemperatureC: number;
+}
+
+export type BatteryAlertType =
+   | 'battery-low'
+   | 'battery-critical'
+   | 'temperature-low'
+   | 'temperature-high';
+
+export interface IBatteryAlert {
+   type: BatteryAlertType;
+   severity: TMessageSeverity;
+   message: string;
+}
+
+/**
+ * Watches the battery level and temperature reported in the Explore's ENV packets.
+ *
+ * Each battery alert is raised once until reset() is called, normally when sampling starts.
+ * Temperature alerts are raised each time the temperature leaves the allowed range.
+ */
+export class BatteryMonitor {
+   latest: IEnvironmentReading | undefined;
+
+   private readings: { timems: number; batteryPercentage: number }[] = [];
+   private raised = new Set<BatteryAlertType>();
+
+   reset() {
+      this.readings = [];
+      this.raised.clear();
+   }
+
+   /**
+    * @returns any alerts raised by this reading
+    */
+   update(
+      reading: IEnvironmentReading,
+      thresholds: IBatteryThresholds,
+      nowms = performance.now()
+   ): IBatteryAlert[] {
+      this.latest = reading;
+      this.readings.push({
+         timems: nowms,
+         batteryPercentage: reading.batteryPercentage
+      });
+      while (nowms - this.readings[0].timems > kDischargeWindowms) {
+         this.readings.shift();
+      }
+
+      const alerts: IBatteryAlert[] = [];
+      const { batteryPercentage, temperatureC } = reading;
+      const percent = Math.round(batteryPercentage);
+      if (batteryPercentage <= thresholds.criticalPercentage) {
+         this.raise(alerts, {
+            type: 'battery-critical',
+            severity: TMessageSeverity.kMessageError,
+            message: `Battery critically low (${percent}%). The headset will turn off soon.`
+         });
+         //No need to also say the battery is low
+         this.raised.add('battery-low');
+      } else if (batteryPercentage <= thresholds.lowPercentage) {
+         const runtimeMins = this.remainingRuntimeMins(thresholds);
+         const remaining =
+            runtimeMins !== undefined
+               ? `, about ${Math.round(runtimeMins)} minutes remaining`
+               : '';
+         this.raise(alerts, {
+            type: 'battery-low',
+            severity: TMessageSeverity.kMessageWarn,
+            message: `Battery low (${percent}%${remaining}).`
+         });
+      }
+
+      if (temperatureC > thresholds.maxTemperatureC) {
+         this.raise(alerts, {
+            type: 'temperature-high',
+            severity: TMessageSeverity.kMessageWarn,
+            message: `Headset temperature is high (${temperatureC} °C).`
+         });
+      } else if (temperatureC < thresholds.minTemperatureC) {
+         this.raise(alerts, {
+            type: 'temperature-low',
+            severity: TMessageSeverity.kMessageWarn,
+            message: `Headset temperature is low (${temperatureC} °C).`
+         });
+      } else {
+         //Back in range, so report the next excursion
+         this.raised.delete('temperature-high');
+         this.raised.delete('temperature-low');
+      }
+      return alerts;
+   }
+
+   /**
+    * @returns the battery discharge rate in % per minute, from a least squares fit of the
+    * recent readings, or undefined if not enough readings are available or the battery is
+    * not discharging (e.g. it is charging).
+    */
+   dischargeRatePerMin(): number | undefined {
+      const n = this.readings.length;
+      if (
+         n < 2 ||
+         this.readings[n - 1].timems - this.readings[0].timems <
+            kMinDischargeSpanms
+      ) {
+         return undefined;
+      }
+      const t0 = this.readings[0].timems;
+      let sumT = 0;
+      let sumP = 0;
+      for (const { timems, batteryPercentage } of this.readings) {
+         sumT += timems - t0;
+         sumP += batteryPercentage;
+      }
+      const meanT = sumT / n;
+      const meanP = sumP / n;
+      let covariance = 0;
+      let variance = 0;
+      for (const { timems, batteryPercentage } of this.readings) {
+         const dt = timems - t0 - meanT;
+         covariance += dt * (batteryPercentage - meanP);
+         variance += dt * dt;
+      }
+      const slopePerMin = (covariance / variance) * 60000;
+      return slopePerMin < 0 ? -slopePerMin : undefined;
+   }
+
+   /**
+    * @returns the estimated minutes until the battery reaches the critical level, using the
+    * measured discharge rate if available, otherwise kNominalRuntimeMins. Undefined if no
+    * ENV packet has been received.
+    */
+   remainingRuntimeMins(thresholds: IBatteryThresholds): number | undefined {
+      if (!this.latest) {
+         return undefined;
+      }
+      const available = Math.max(
+         0,
+         this.latest.batteryPercentage - thresholds.criticalPercentage
+      );
+      const ratePerMin =
+         this.dischargeRatePerMin() ?? 100 / kNominalRuntimeMins;
+      return available / ratePerMin;
+   }
+
+   /**
+    * @returns a message to show the user if the battery is not expected to last for a
+    * session of plannedMins, otherwise undefined.
+    */
+   checkPlannedSession(
+      plannedMins: number,
+      thresholds: IBatteryThresholds
+   ): string | undefined {
+      const runtimeMins = this.remainingRuntimeMins(thresholds);
+      if (runtimeMins === undefined || runtimeMins >= plannedMins) {
+         return undefined;
+      }
+      const percent = Math.round(this.latest?.batteryPercentage ?? 0);
+      const minutes = Math.round(runtimeMins);
+      return (
+         `The headset battery (${percent}%) is expected to last about ${minutes} minutes, ` +
+         `less than the planned session of ${plannedMins} minutes. Charge the headset before recording.`
+      );
+   }
+
+   private raise(alerts: IBatteryAlert[], alert: IBatteryAlert) {
+      if (this.raised.has(alert.type)) {
+         return;
+      }
+      this.raised.add(alert.type);
+      alerts.push(alert);
+   }
+}
@@ -8,9 +8,10 @@ import {
 } from '../../../public/device-api';
 import { DuplexStream } from '../../../public/device-streams';
 import { kEnableLogging } from './enableLogging';
-import { CommandPacketOp, Parser } from './parser';
+import { Parser } from './parser';
 import { PhysicalDevice } from './physicalDevice';
 import { ProxyDevice } from './proxy';
+import { kDefaultEXGSamplesPerSec } from './settings';
 import { kDeviceClassId, kTestOpenDeviceClassName, PacketType } from './utils';
 
 /**
@@ -111,32 +112,36 @@ export class DeviceClass extends DeviceClassBase implements IDeviceClass {
       }, kDeviceDetectionTimeoutMs);
 
       let deviceInfoFound = false;
-      let physicalDeviceCreated = false;
+
+      const onDeviceConfigured = () => {
+         //Make sure the dummy datasink will no longer be called since we don't stream errors to
+         //cause callback() to be called again!
+         packetParser.setProxyDevice(null);
+         const physicalDevice = new PhysicalDevice(
+            this,
+            deviceConnection,
+            packetParser
+         );
+
+         global.clearTimeout(deviceTimeout);
+         callback(null, physicalDevice); // End of good scenario
+      };
 
       const onPacketFound = (packetType: PacketType, buffer: unknown) => {
          if (packetType === PacketType.kDeviceInfo && !deviceInfoFound) {
             if (kEnableLogging) console.log('Device info packet found');
             deviceInfoFound = true;
 
-            packetParser.sendCommand(CommandPacketOp.setSampleRate, 1);
-            packetParser.sendCommand(CommandPacketOp.setChannelMask, 0xff);
-         }
-         if (
-            packetType === PacketType.kCommandStatus &&
-            !physicalDeviceCreated
-         ) {
-            //Make sure the dummy datasink will no longer be called since we don't stream errors to
-            //cause callback() to be called again!
-            packetParser.setProxyDevice(null);
-            const physicalDevice = new PhysicalDevice(
-               this,
-               deviceConnection,
-               packetParser
-            );
-
-            physicalDeviceCreated = true;
-            global.clearTimeout(deviceTimeout);
-            callback(null, physicalDevice); // End of good scenario
+            //The proxy applies its own settings when it connects
+            packetParser
+               .setSampleRate(kDefaultEXGSamplesPerSec)
+               .then(() => packetParser.setChannelMask(0xff))
+               .then(onDeviceConfigured, (err: Error) => {
+                  global.clearTimeout(deviceTimeout);
+                  console.warn(err);
+                  devStream.destroyConnection(); // stop 'data' and 'error' callbacks
+                  callback(err, null);
+               });
          }
       };
       // Parser will callback if device info packet is returned
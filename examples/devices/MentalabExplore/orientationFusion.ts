@@ -0,0 +1,333 @@
+export type Vector3 = [number, number, number];
+export type Quaternion = [number, number, number, number]; //w, x, y, z
+
+// 'madgwick': gradient descent orientation filter, S. Madgwick 2010.
+// 'mahony': nonlinear complementary filter, R. Mahony et al. 2008.
+export type FusionAlgorithm = 'madgwick' | 'mahony';
+
+export const kDefaultFusionAlgorithm: FusionAlgorithm = 'madgwick';
+
+// Filter gains tuned for the Explore's 20 Hz ORN packets
+const kMadgwickBeta = 0.1;
+const kMahonyKp = 0.5;
+const kMahonyKi = 0.1;
+
+const kDegreesToRadians = Math.PI / 180;
+
+/**
+ * One ORN packet's readings in physical units, passed to ProxyDevice.onPacket().
+ */
+export interface IOrientationReading {
+   acc: Vector3; //g
+   gyro: Vector3; //degrees per second
+   mag: Vector3; //gauss
+}
+
+/**
+ * Corrections applied to the readings before fusion. Saved in the recording's settings.
+ */
+export interface IOrientationCalibration {
+   gyroBias: Vector3; //degrees per second
+   magOffset: Vector3; //hard iron offset, gauss
+   magScale: Vector3; //soft iron scale for each axis
+}
+
+export const kNoCalibration: IOrientationCalibration = {
+   gyroBias: [0, 0, 0],
+   magOffset: [0, 0, 0],
+   magScale: [1, 1, 1]
+};
+
+export interface IOrientation {
+   quaternion: Quaternion;
+   //Degrees, aerospace (Z-Y-X) convention
+   roll: number;
+   pitch: number;
+   yaw: number;
+   //Angle between the headset's Z axis and vertical, in degrees
+   tilt: number;
+}
+
+function normalize<T extends number[]>(v: T): T | undefined {
+   const norm = Math.hypot(...v);
+   if (norm === 0) {
+      return undefined;
+   }
+   return v.map((x) => x / norm) as T;
+}
+
+function cross(a: Vector3, b: Vector3): Vector3 {
+   return [
+      a[1] * b[2] - a[2] * b[1],
+      a[2] * b[0] - a[0] * b[2],
+      a[0] * b[1] - a[1] * b[0]
+   ];
+}
+
+// Rotates v from the sensor frame to the earth frame
+function rotateToEarth([q0, q1, q2, q3]: Quaternion, [x, y, z]: Vector3) {
+   return [
+      2 *
+         (x * (0.5 - q2 * q2 - q3 * q3) +
+            y * (q1 * q2 - q0 * q3) +
+            z * (q1 * q3 + q0 * q2)),
+      2 *
+         (x * (q1 * q2 + q0 * q3) +
+            y * (0.5 - q1 * q1 - q3 * q3) +
+            z * (q2 * q3 - q0 * q1)),
+      2 *
+         (x * (q1 * q3 - q0 * q2) +
+            y * (q2 * q3 + q0 * q1) +
+            z * (0.5 - q1 * q1 - q2 * q2))
+   ] as Vector3;
+}
+
+// Rotates v from the earth frame to the sensor frame
+function rotateToSensor([q0, q1, q2, q3]: Quaternion, v: Vector3) {
+   return rotateToEarth([q0, -q1, -q2, -q3], v);
+}
+
+function fromEulerAngles(roll: number, pitch: number, yaw: number): Quaternion {
+   const [cr, sr] = [Math.cos(roll / 2), Math.sin(roll / 2)];
+   const [cp, sp] = [Math.cos(pitch / 2), Math.sin(pitch / 2)];
+   const [cy, sy] = [Math.cos(yaw / 2), Math.sin(yaw / 2)];
+   return [
+      cr * cp * cy + sr * sp * sy,
+      sr * cp * cy - cr * sp * sy,
+      cr * sp * cy + sr * cp * sy,
+      cr * cp * sy - sr * sp * cy
+   ];
+}
+
+function clamp(x: number) {
+   return Math.max(-1, Math.min(1, x));
+}
+
+/**
+ * Estimates the headset's orientation from the accelerometer, gyroscope and magnetometer
+ * readings in the ORN packets. The earth frame has X towards magnetic north and Z up.
+ */
+export class OrientationFusion {
+   quaternion: Quaternion = [1, 0, 0, 0];
+
+   private initialized = false;
+   private integralError: Vector3 = [0, 0, 0];
+
+   constructor(
+      public algorithm: FusionAlgorithm = kDefaultFusionAlgorithm,
+      public calibration: IOrientationCalibration = kNoCalibration
+   ) {}
+
+   reset() {
+      this.quaternion = [1, 0, 0, 0];
+      this.initialized = false;
+      this.integralError = [0, 0, 0];
+   }
+
+   update(reading: IOrientationReading, dtSec: number): IOrientation {
+      const { gyroBias, magOffset, magScale } = this.calibration;
+      const gyro = reading.gyro.map(
+         (value, i) => (value - gyroBias[i]) * kDegreesToRadians
+      ) as Vector3;
+      const acc = normalize(reading.acc);
+      //Without a magnetometer reading the yaw drifts with the gyroscope
+      const mag = normalize(
+         reading.mag.map((value, i) => (value - magOffset[i]) * magScale[i])
+      ) as Vector3 | undefined;
+
+      if (!this.initialized && acc) {
+         //Start from the accelerometer and magnetometer orientation rather than waiting
+         //for the filter to converge from level
+         this.quaternion = this.initialOrientation(acc, mag);
+         this.initialized = true;
+      } else if (this.algorithm === 'mahony') {
+         this.updateMahony(gyro, acc, mag, dtSec);
+      } else {
+         this.updateMadgwick(gyro, acc, mag, dtSec);
+      }
+      return this.orientation();
+   }
+
+   orientation(): IOrientation {
+      const [q0, q1, q2, q3] = this.quaternion;
+      const toDegrees = (radians: number) => radians / kDegreesToRadians;
+      return {
+         quaternion: [q0, q1, q2, q3],
+         roll: toDegrees(
+            Math.atan2(2 * (q0 * q1 + q2 * q3), 1 - 2 * (q1 * q1 + q2 * q2))
+         ),
+         pitch: toDegrees(Math.asin(clamp(2 * (q0 * q2 - q1 * q3)))),
+         yaw: toDegrees(
+            Math.atan2(2 * (q0 * q3 + q1 * q2), 1 - 2 * (q2 * q2 + q3 * q3))
+         ),
+         tilt: toDegrees(Math.acos(clamp(1 - 2 * (q1 * q1 + q2 * q2))))
+      };
+   }
+
+   private initialOrientation(acc: Vector3, mag?: Vector3): Quaternion {
+      const [ax, ay, az] = acc;
+      const roll = Math.atan2(ay, az);
+      const pitch = Math.atan2(-ax, Math.hypot(ay, az));
+      let yaw = 0;
+      if (mag) {
+         //Tilt compensated heading
+         const [mx, my, mz] = mag;
+         const x =
+            mx * Math.cos(pitch) +
+            (my * Math.sin(roll) + mz * Math.cos(roll)) * Math.sin(pitch);
+         const y = my * Math.cos(roll) - mz * Math.sin(roll);
+         yaw = Math.atan2(-y, x);
+      }
+      return fromEulerAngles(roll, pitch, yaw);
+   }
+
+   // Direction of the earth's magnetic field in the earth frame, assuming no declination
+   private earthField(mag: Vector3): [number, number] {
+      const [hx, hy, hz] = rotateToEarth(this.quaternion, mag);
+      return [Math.hypot(hx, hy), hz];
+   }
+
+   private updateMadgwick(
+      gyro: Vector3,
+      acc: Vector3 | undefined,
+      mag: Vector3 | undefined,
+      dtSec: number
+   ) {
+      const q = this.quaternion;
+      const [q0, q1, q2, q3] = q;
+      let qDot = this.rate(gyro);
+
+      if (acc) {
+         //Gradient of the error between the measured and expected directions of gravity
+         //(and the magnetic field), i.e. J' * f
+         const gravity = rotateToSensor(q, [0, 0, 1]);
+         const fg = gravity.map((value, i) => value - acc[i]);
+         const gradient = [
+            -2 * q2 * fg[0] + 2 * q1 * fg[1],
+            2 * q3 * fg[0] + 2 * q0 * fg[1] - 4 * q1 * fg[2],
+            -2 * q0 * fg[0] + 2 * q3 * fg[1] - 4 * q2 * fg[2],
+            2 * q1 * fg[0] + 2 * q2 * fg[1]
+         ];
+         if (mag) {
+            const [bx, bz] = this.earthField(mag);
+            const field = rotateToSensor(q, [bx, 0, bz]);
+            const fb = field.map((value, i) => value - mag[i]);
+            gradient[0] +=
+               -2 * bz * q2 * fb[0] +
+               (-2 * bx * q3 + 2 * bz * q1) * fb[1] +
+               2 * bx * q2 * fb[2];
+            gradient[1] +=
+               2 * bz * q3 * fb[0] +
+               (2 * bx * q2 + 2 * bz * q0) * fb[1] +
+               (2 * bx * q3 - 4 * bz * q1) * fb[2];
+            gradient[2] +=
+               (-4 * bx * q2 - 2 * bz * q0) * fb[0] +
+               (2 * bx * q1 + 2 * bz * q3) * fb[1] +
+               (2 * bx * q0 - 4 * bz * q2) * fb[2];
+            gradient[3] +=
+               (-4 * bx * q3 + 2 * bz * q1) * fb[0] +
+               (-2 * bx * q0 + 2 * bz * q2) * fb[1] +
+               2 * bx * q1 * fb[2];
+         }
+         const step = normalize(gradient);
+         if (step) {
+            qDot = qDot.map((value, i) => value - kMadgwickBeta * step[i]);
+         }
+      }
+      this.integrate(qDot, dtSec);
+   }
+
+   private updateMahony(
+      gyro: Vector3,
+      acc: Vector3 | undefined,
+      mag: Vector3 | undefined,
+      dtSec: number
+   ) {
+      const q = this.quaternion;
+      if (acc) {
+         //Rotation needed to align the expected directions with the measured ones
+         const error = cross(acc, rotateToSensor(q, [0, 0, 1]));
+         if (mag) {
+            const [bx, bz] = this.earthField(mag);
+            const magError = cross(mag, rotateToSensor(q, [bx, 0, bz]));
+            error.forEach((_, i) => (error[i] += magError[i]));
+         }
+         for (let i = 0; i < 3; ++i) {
+            this.integralError[i] += kMahonyKi * error[i] * dtSec;
+            gyro[i] += kMahonyKp * error[i] + this.integralError[i];
+         }
+      }
+      this.integrate(this.rate(gyro), dtSec);
+   }
+
+   // Rate of change of the quaternion for the angular rate gyro (radians per second)
+   private rate([gx, gy, gz]: Vector3) {
+      const [q0, q1, q2, q3] = this.quaternion;
+      return [
+         0.5 * (-q1 * gx - q2 * gy - q3 * gz),
+         0.5 * (q0 * gx + q2 * gz - q3 * gy),
+         0.5 * (q0 * gy - q1 * gz + q3 * gx),
+         0.5 * (q0 * gz + q1 * gy - q2 * gx)
+      ];
+   }
+
+   private integrate(qDot: number[], dtSec: number) {
+      const q = this.quaternion.map(
+         (value, i) => value + qDot[i] * dtSec
+      ) as Quaternion;
+      this.quaternion = normalize(q) ?? [1, 0, 0, 0];
+   }
+}
+
+/**
+ * Collects ORN readings while the user holds the headset still and then slowly rotates it
+ * in all directions. The gyroscope bias is the mean reading while still. The magnetometer
+ * offset and scale map the range seen on each axis onto a sphere.
+ */
+export class OrientationCalibrator {
+   private readings: IOrientationReading[] = [];
+
+   constructor(private stillSamples: number) {}
+
+   get sampleCount() {
+      return this.readings.length;
+   }
+
+   add(reading: IOrientationReading) {
+      this.readings.push(reading);
+   }
+
+   /**
+    * @returns the calibration, or undefined if the headset was not rotated enough for each
+    * magnetometer axis to see a range of readings.
+    */
+   result(): IOrientationCalibration | undefined {
+      if (this.readings.length <= this.stillSamples) {
+         return undefined;
+      }
+      const gyroBias: Vector3 = [0, 0, 0];
+      const still = this.readings.slice(0, this.stillSamples);
+      for (const { gyro } of still) {
+         gyro.forEach((value, i) => (gyroBias[i] += value / still.length));
+      }
+
+      const min: Vector3 = [Infinity, Infinity, Infinity];
+      const max: Vector3 = [-Infinity, -Infinity, -Infinity];
+      for (const { mag } of this.readings) {
+         mag.forEach((value, i) => {
+            min[i] = Math.min(min[i], value);
+            max[i] = Math.max(max[i], value);
+         });
+      }
+      const radius = max.map((value, i) => (value - min[i]) / 2);
+      if (radius.some((value) => value <= 0)) {
+         return undefined;
+      }
+      const meanRadius = (radius[0] + radius[1] + radius[2]) / 3;
+      return {
+         gyroBias,
+         magOffset: max.map((value, i) => (value + min[i]) / 2) as Vector3,
+         magScale: radius.map((value) => meanRadius / value) as Vector3
+      };
+   }
+}
@@ -5,7 +5,12 @@ import {
    kMaxSizePacketType
 } from './utils';
 import { IDataSink, IDuplexStream } from '../../../public/device-api';
-import { kNumberOfOrientationSignals } from './settings';
+import { ParserStats } from '../../../public/parser-stats';
+import {
+   kNumberEnvironmentSignals,
+   kNumberOfOrientationSignals
+} from './settings';
+import { IOrientationReading, Vector3 } from './orientationFusion';
 import { kEnableLogging } from './enableLogging';
 
 const kFletcherSizeBytes = 4;
@@ -16,6 +21,9 @@ const kMinimumSamplingUpdatePeriodms = 50;
 const kCommandPacketID = 0xa0;
 const kCommandCNT = 0x00;
 
+// Time to wait for a command's acknowledgement and status
+const kCommandTimeoutms = 5000;
+
 export enum ParserState {
    kNoFletcherBytes,
    k1FletcherByte,
@@ -42,6 +50,31 @@ export enum CommandPacketOp {
    getDeviceInfo = 0xa9
 }
 
+// Parameter of the disableModule and enabledModule commands
+export enum ExploreModule {
+   kEnvironment = 1,
+   kOrientation = 2,
+   kExG = 3
+}
+
+// Parameter of the setSampleRate command
+const kSampleRateParams: Record<number, number> = {
+   250: 1,
+   500: 2,
+   1000: 3
+};
+
+interface IPendingCommand {
+   packet: CommandPacket;
+   acknowledged: boolean;
+   resolve: () => void;
+   reject: (error: Error) => void;
+}
+
+function commandName(opCode: CommandPacketOp) {
+   return CommandPacketOp[opCode] ?? '0x' + opCode.toString(16);
+}
+
 const kFletcher = 0xdeadbeaf;
 const kFletcherAF = 0xaf;
 const kFletcherBE = 0xbe;
@@ -94,6 +127,11 @@ export class Parser {
       return this.firstOrientationInput + kNumberOfOrientationSignals;
    }
 
+   //Written by the ProxyDevice from the ORN readings, see OrientationFusion
+   get firstFusionInput() {
+      return this.firstEnvironmentInput + kNumberEnvironmentSignals;
+   }
+
    //We use a buffer containing the last partial packet to handle cases where a packet spans more that one chunk
    lastBuf: BufferWithLen;
 
@@ -102,6 +140,9 @@ export class Parser {
    lastError = '';
    lastUpdateTimems: number;
 
+   //Link quality statistics, reset when sampling starts
+   stats = new ParserStats();
+
    // Normally the parser would not store this information.
    firmwareVersion?: number = undefined;
    dataRate: number;
@@ -110,18 +151,10 @@ export class Parser {
    // is not connected. No sample data will be processed.
    ExG: number; // enabled channels bitset.
 
-   lastRecievedCommand?: {
-      opCode: CommandPacketOp;
-      status: 'sent' | 'acknowledged' | 'completed' | 'error';
-   };
-
-   lastSentCommand?: {
-      opCode: CommandPacketOp;
-      status: 'sent' | 'acknowledged' | 'completed' | 'error';
-   };
-
-   acknowledgementTimeout?: NodeJS.Timeout;
-   commandQueue: CommandPacket[] = [];
+   //Commands are sent one at a time, see sendCommand()
+   commandQueue: IPendingCommand[] = [];
+   currentCommand?: IPendingCommand;
+   commandTimeout?: NodeJS.Timeout;
 
    constructor(public inStream: IDuplexStream, proxyDevice: IDataSink | null) {
       this.proxyDevice = proxyDevice;
@@ -159,89 +192,132 @@ export class Parser {
       return timeStampNow[0] | 0;
    }
 
+   /**
+    * Queues a command for the headset.
+    *
+    * @returns a Promise that resolves once the headset has acknowledged the command (kAck) and
+    * reported that it completed (kCommandStatus), or rejects if the headset reports an error
+    * or does not respond within 5 seconds (in which case the error.name is 'Timeout').
+    */
    sendCommand(
       commandOp: CommandPacketOp,
       commandParam = 0,
       resetCommandQueue = false
-   ) {
+   ): Promise<void> {
       if (resetCommandQueue) {
+         const cancelled = this.commandQueue;
          this.commandQueue = [];
+         cancelled.forEach((command) =>
+            command.reject(
+               new Error(
+                  `Mentalab command ${commandName(
+                     command.packet.opCode
+                  )} was cancelled`
+               )
+            )
+         );
       }
 
-      this.commandQueue.push(
-         new CommandPacket(commandOp, commandParam, this.get32BitTimestampNow())
-      );
-      setTimeout(() => {
-         this.doSendCommandFromQueue();
+      return new Promise<void>((resolve, reject) => {
+         this.commandQueue.push({
+            packet: new CommandPacket(
+               commandOp,
+               commandParam,
+               this.get32BitTimestampNow()
+            ),
+            acknowledged: false,
+            resolve,
+            reject
+         });
+         if (!this.currentCommand) this.doSendCommandFromQueue();
       });
    }
 
-   private checkAndResetCommandTimeout() {
-      if (this.lastRecievedCommand && this.lastSentCommand) {
-         if (this.lastRecievedCommand.opCode === this.lastSentCommand.opCode) {
-            this.lastSentCommand.status = this.lastRecievedCommand.status;
-
-            this.proxyDevice &&
-               this.proxyDevice.onPacket &&
-               this.proxyDevice.onPacket(
-                  PacketType.kCommandStatus,
-                  this.lastSentCommand.opCode
-               );
-         } else {
-            if (kEnableLogging)
-               console.warn(
-                  'Received unexpected command status op ' +
-                     this.lastRecievedCommand.opCode +
-                     ', expected ' +
-                     this.lastSentCommand.opCode
-               );
-         }
+   setSampleRate(samplesPerSec: number) {
+      const param = kSampleRateParams[samplesPerSec];
+      if (param === undefined) {
+         return Promise.reject(
+            new Error(`Mentalab Explore does not support ${samplesPerSec} Hz`)
+         );
       }
+      return this.sendCommand(CommandPacketOp.setSampleRate, param);
+   }
 
-      if (!this.lastRecievedCommand && this.lastSentCommand) {
-         if (kEnableLogging)
-            console.warn(
-               'Last command sent to MentaLab (' +
-                  this.lastSentCommand.opCode +
-                  ') was not acknowledged'
-            );
-      }
+   //Bit n of channelMask enables ExG channel n
+   setChannelMask(channelMask: number) {
+      return this.sendCommand(CommandPacketOp.setChannelMask, channelMask);
+   }
 
-      if (this.acknowledgementTimeout) {
-         clearTimeout(this.acknowledgementTimeout);
-         this.acknowledgementTimeout = undefined;
-         this.lastRecievedCommand = undefined;
-      }
+   setModuleEnabled(module: ExploreModule, enabled: boolean) {
+      return this.sendCommand(
+         enabled
+            ? CommandPacketOp.enabledModule
+            : CommandPacketOp.disableModule,
+         module
+      );
    }
 
-   private doSendCommandFromQueue() {
-      if (this.acknowledgementTimeout) {
-         setTimeout(() => {
-            this.doSendCommandFromQueue();
-         });
-         return;
-      }
+   //Erases the recordings stored on the headset
+   formatMemory() {
+      return this.sendCommand(CommandPacketOp.formatMemory);
+   }
 
-      const latestCommand = this.commandQueue.shift();
+   //Restarts the headset with its default settings
+   softReset() {
+      return this.sendCommand(CommandPacketOp.softReset);
+   }
 
-      if (latestCommand) {
-         this.lastSentCommand = {
-            opCode: latestCommand.opCode,
-            status: 'sent'
-         };
+   private doSendCommandFromQueue() {
+      const command = this.commandQueue.shift();
+      this.currentCommand = command;
+      if (!command) return;
+
+      this.commandTimeout = global.setTimeout(() => {
+         const error = new Error(
+            `Mentalab command ${commandName(
+               command.packet.opCode
+            )} timed out waiting for ${
+               command.acknowledged ? 'its status' : 'an acknowledgement'
+            }`
+         );
+         error.name = 'Timeout';
+         this.finishCommand(error);
+      }, kCommandTimeoutms);
 
-         this.inStream.write(latestCommand.getCommandPacketBuffer());
+      this.inStream.write(command.packet.getCommandPacketBuffer());
+   }
 
-         this.acknowledgementTimeout = global.setTimeout(() => {
-            this.checkAndResetCommandTimeout();
-         }, 5000);
+   // Settles the current command and sends the next one
+   private finishCommand(error?: Error) {
+      const command = this.currentCommand;
+      if (!command) return;
+      if (this.commandTimeout) {
+         clearTimeout(this.commandTimeout);
+         this.commandTimeout = undefined;
       }
-
-      if (this.commandQueue.length > 0) {
-         setTimeout(() => {
-            this.doSendCommandFromQueue();
-         });
+      if (error) {
+         if (kEnableLogging) console.warn(error);
+         command.reject(error);
+      } else {
+         command.resolve();
       }
+      this.doSendCommandFromQueue();
+   }
+
+   // The response is for a different command, e.g. one that already timed out
+   private isCurrentCommand(opCode: number) {
+      if (this.currentCommand && this.currentCommand.packet.opCode === opCode)
+         return true;
+      if (kEnableLogging)
+         console.warn(
+            'Received unexpected command response for op ' +
+               opCode +
+               ', expected ' +
+               (this.currentCommand
+                  ? this.currentCommand.packet.opCode
+                  : 'none')
+         );
+      return false;
    }
 
    batteryPercentage(batteryVoltage: number): number {
@@ -292,6 +368,7 @@ export class Parser {
          return false;
       }
 
+      this.stats.reset();
       this.samplingState = SamplingState.kSampling;
       this.proxyDevice.onSamplingStarted();
       this.lastUpdateTimems = performance.now();
@@ -316,6 +393,7 @@ export class Parser {
                if (byte === kFletcherAF) {
                   this.parserState = ParserState.k1FletcherByte;
                } else {
+                  this.stats.onJunk(1);
                   if (kEnableLogging)
                      console.log('Unexpected packets: ' + byte);
                }
@@ -324,6 +402,7 @@ export class Parser {
                if (byte === kFletcherBE) {
                   this.parserState = ParserState.k2FletcherByte;
                } else {
+                  this.stats.onJunk(1);
                   this.parserState = ParserState.kNoFletcherBytes;
                   i--; //retry this byte
                }
@@ -332,6 +411,7 @@ export class Parser {
                if (byte === kFletcherAD) {
                   this.parserState = ParserState.k3FletcherByte;
                } else {
+                  this.stats.onJunk(2);
                   this.parserState = ParserState.kNoFletcherBytes;
                   i--; //retry this byte
                }
@@ -340,6 +420,7 @@ export class Parser {
                if (byte === kFletcherDE) {
                   this.parserState = ParserState.kHasFletcher;
                } else {
+                  this.stats.onJunk(3);
                   this.parserState = ParserState.kNoFletcherBytes;
                   i--; //retry this byte
                }
@@ -387,6 +468,7 @@ export class Parser {
                      this.packetType = PacketType.kORN;
                      break;
                   default:
+                     this.stats.onJunk(kFletcherSizeBytes);
                      this.packetType = PacketType.kNotFound;
                      this.parserState = ParserState.kNoFletcherBytes;
                      break;
@@ -406,8 +488,10 @@ export class Parser {
                const payloadStart = i;
                const payloadEnd = i + this.packetPayloadSize;
                if (!this.processPacketPayload(buffer.slice(i, payloadEnd))) {
+                  this.stats.onJunk(kFletcherSizeBytes);
                   i = payloadStart; //Start searching for a good packet!
                } else {
+                  this.stats.onPacket(this.packetType);
                   i = payloadEnd; //Finished this packet
                }
                this.packetType = PacketType.kNotFound;
@@ -424,6 +508,7 @@ export class Parser {
       if (!newBytes.length) {
          return;
       }
+      this.stats.onChunk(newBytes.length);
       let offsetInNew = 0;
 
       const unprocessed = this.lastBuf.len;
@@ -591,12 +676,26 @@ export class Parser {
       const commandStatus = samples[samples.length - 1];
       //Don't care about the recieved time
 
-      this.lastRecievedCommand = {
-         opCode,
-         status: commandStatus === 1 ? 'completed' : 'error'
-      };
+      if (this.isCurrentCommand(opCode)) {
+         if (commandStatus !== 1) {
+            this.finishCommand(
+               new Error(`Mentalab command ${commandName(opCode)} failed`)
+            );
+         } else if (this.currentCommand && !this.currentCommand.acknowledged) {
+            this.finishCommand(
+               new Error(
+                  `Mentalab command ${commandName(
+                     opCode
+                  )} completed without being acknowledged`
+               )
+            );
+         } else {
+            this.finishCommand();
+         }
+      }
 
-      this.checkAndResetCommandTimeout();
+      if (this.proxyDevice && this.proxyDevice.onPacket)
+         this.proxyDevice.onPacket(this.packetType, opCode);
 
       return true;
    }
@@ -608,12 +707,8 @@ export class Parser {
    processAck(data: Buffer) {
       const opcode = data[data.length - 5];
 
-      this.lastRecievedCommand = {
-         opCode: opcode,
-         status: 'acknowledged'
-      };
-
-      this.checkAndResetCommandTimeout();
+      if (this.currentCommand && this.isCurrentCommand(opcode))
+         this.currentCommand.acknowledged = true;
 
       if (this.proxyDevice && this.proxyDevice.onPacket)
          this.proxyDevice.onPacket(this.packetType, opcode);
@@ -652,6 +747,18 @@ export class Parser {
          return false;
       }
 
+      const temperatureC = samples[0];
+      const batteryVoltage =
+         (16.8 / 6.8) * (1.8 / 2457) * (samples[3] + (samples[4] << 8));
+      const batteryPercentage = this.batteryPercentage(batteryVoltage);
+
+      // Battery monitoring also runs when not sampling
+      if (this.proxyDevice && this.proxyDevice.onPacket)
+         this.proxyDevice.onPacket(this.packetType, {
+            temperatureC,
+            batteryPercentage
+         });
+
       if (
          !this.proxyDevice ||
          !this.proxyDevice.inputToStream ||
@@ -665,7 +772,7 @@ export class Parser {
       let input = this.firstEnvironmentInput;
 
       let buffer = outStreamBuffers[inputToStream[input++]];
-      if (buffer) buffer.writeInt(samples[0]); //temperature byte
+      if (buffer) buffer.writeInt(temperatureC); //temperature byte
 
       buffer = outStreamBuffers[inputToStream[input++]];
       if (buffer) {
@@ -674,12 +781,7 @@ export class Parser {
       }
 
       buffer = outStreamBuffers[inputToStream[input++]];
-      if (buffer) {
-         const batteryVoltage =
-            (16.8 / 6.8) * (1.8 / 2457) * (samples[3] + (samples[4] << 8));
-         const batteryPercentage = this.batteryPercentage(batteryVoltage);
-         buffer.writeInt(batteryPercentage);
-      }
+      if (buffer) buffer.writeInt(batteryPercentage);
 
       return true;
    }
@@ -773,6 +875,23 @@ export class Parser {
          return false;
       }
 
+      // Sensor fusion and calibration also run when not sampling
+      if (this.proxyDevice && this.proxyDevice.onPacket) {
+         const readVector = (offset: number, scale: number): Vector3 => [
+            samples.readInt16LE(offset) * scale,
+            samples.readInt16LE(offset + 2) * scale,
+            samples.readInt16LE(offset + 4) * scale
+         ];
+         //Scaled to g, degrees per second and gauss (see kUnitsForAcc etc.)
+         const reading: IOrientationReading = {
+            acc: readVector(0, 0.061e-3),
+            gyro: readVector(6, 8.75e-3),
+            mag: readVector(12, 1.52e-3)
+         };
+         reading.mag[0] = -reading.mag[0]; //MagX needs inversion, as below
+         this.proxyDevice.onPacket(this.packetType, reading);
+      }
+
       if (
          !this.proxyDevice ||
          !this.proxyDevice.inputToStream ||
@@ -6,7 +6,11 @@ import {
 import { DeviceClass } from './deviceClass';
 import { kEnableLogging } from './enableLogging';
 import { Parser } from './parser';
-import { kNumberOfOrientationSignals, kNumberEnvironmentSignals } from './settings';
+import {
+   kNumberOfOrientationSignals,
+   kNumberEnvironmentSignals,
+   kNumberOfFusionSignals
+} from './settings';
 
 /**
  * PhysicalDevice is a representation of the connected hardware device
@@ -46,7 +50,8 @@ export class PhysicalDevice implements OpenPhysicalDevice {
       this.numberOfChannels =
          this.numberOfEXGStreams() +
          kNumberOfOrientationSignals +
-         kNumberEnvironmentSignals;
+         kNumberEnvironmentSignals +
+         kNumberOfFusionSignals;
 
       this.deviceName = 'Mentalab Explore' + ' (' + this.firmwareVersion + ')';
       if (kEnableLogging) console.log('Physical device:', this);
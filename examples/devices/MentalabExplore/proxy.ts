@@ -7,6 +7,7 @@ import {
    IDeviceSetting,
    DeviceEvent,
    TMessageFlags,
+   TMessageSeverity,
    MetaDataColors,
    IDeviceStreamApi,
    DeviceValueType,
@@ -15,10 +16,23 @@ import {
    IDeviceInputSettingsSys
 } from '../../../public/device-api';
 import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
+import { IParserStatsSnapshot } from '../../../public/parser-stats';
 import { Setting } from '../../../public/device-settings';
 import { kEnableLogging } from './enableLogging';
-import { CommandPacketOp, Parser } from './parser';
+import { ExploreModule, Parser } from './parser';
 import { PhysicalDevice } from './physicalDevice';
+import {
+   BatteryMonitor,
+   IBatteryAlert,
+   IEnvironmentReading
+} from './batteryMonitor';
+import {
+   IOrientation,
+   IOrientationCalibration,
+   IOrientationReading,
+   OrientationCalibrator,
+   OrientationFusion
+} from './orientationFusion';
 import {
    IProxyDeviceImpl,
    DeviceSettings,
@@ -29,17 +43,22 @@ import {
    kNumberOfOrientationSignals,
    getStreamName,
    unitsFromPosFullScale,
-   kSupportedEXGSamplesPerSec,
    findClosestSupportedRate,
-   findClosestSupportedRateIndex,
    kAllEXGStreams,
    kDefaultNumExGSignals,
-   kNumberEnvironmentSignals
+   kNumberEnvironmentSignals,
+   kNumberOfFusionSignals,
+   kQuaternionFullScale,
+   kAngleFullScaleDegrees
 } from './settings';
 import { PacketType } from './utils';
 
 const kMinOutBufferLenSamples = 1024;
 
+// The headset is held still for the first 2 seconds of an orientation calibration
+const kCalibrationStillSecs = 2;
+const kDefaultCalibrationSecs = 20;
+
 // Currently we are only keeping the high 16 bits of the 24 bits (k16BitBlockDataFormat)
 function getDataFormat() {
    return ~~BlockDataFormat.k16BitBlockDataFormat;
@@ -74,6 +93,15 @@ export class ProxyDevice implements IProxyDeviceImpl {
    // only non-null if this proxy is the one with a lock on the PhysicalDevice
    parser: Parser | undefined | null;
 
+   battery = new BatteryMonitor();
+
+   fusion = new OrientationFusion();
+   private calibrator?: OrientationCalibrator;
+
+   // Last parameter sent to the headset by each command, so that unchanged settings are not
+   // resent. Cleared when connecting since another proxy may have changed them.
+   private sentToHardware = new Map<string, number>();
+
    /**
     *
     * @param {ProxyDeviceSys} proxyDeviceSys Used to update Lightning if needed
@@ -128,6 +156,18 @@ export class ProxyDevice implements IProxyDeviceImpl {
       );
    }
 
+   //Streams derived from the orientation signals, see OrientationFusion
+   isFusionStream(streamIndex: number) {
+      const firstFusionStream =
+         this.numberOfEXGStreams() +
+         kNumberOfOrientationSignals +
+         kNumberEnvironmentSignals;
+      return (
+         streamIndex >= firstFusionStream &&
+         streamIndex < firstFusionStream + kNumberOfFusionSignals
+      );
+   }
+
    streamToInput(streamIndex: number) {
       if (!this.inputToStream) return -1;
       return this.inputToStream.indexOf(streamIndex);
@@ -147,7 +187,8 @@ export class ProxyDevice implements IProxyDeviceImpl {
          ? physicalDevice.getNumberOfAnalogStreams()
          : kDefaultNumExGSignals +
            kNumberOfOrientationSignals +
-           kNumberEnvironmentSignals;
+           kNumberEnvironmentSignals +
+           kNumberOfFusionSignals;
 
       const deviceSettingsIn = settingsDataIn as DeviceSettings;
       const nSettingsEXGSignals = deviceSettingsIn
@@ -160,6 +201,11 @@ export class ProxyDevice implements IProxyDeviceImpl {
          : defaultInputSettings;
 
       this.settings = getDefaultSettings(this, nSettingsEXGSignals);
+      if (deviceSettingsIn) {
+         this.settings.restoreBatterySettings(deviceSettingsIn);
+         this.settings.restoreOrientationSettings(deviceSettingsIn);
+      }
+      this.updateOrientationFusion();
 
       this.settings.dataInStreams = [];
       this.inputToStream = []; //mapping from device inputs to device output streams
@@ -341,16 +387,8 @@ export class ProxyDevice implements IProxyDeviceImpl {
                return;
             }
 
-            const samplesPerSec = streamSettings.samplesPerSec.asNumber;
-
-            // Only apply changes for one channel, since they are eeg-wide;
-            if (streamIndex === 0) {
-               const rateIndex = findClosestSupportedRateIndex(samplesPerSec);
-               this.parser.sendCommand(
-                  CommandPacketOp.setSampleRate,
-                  kSupportedEXGSamplesPerSec.length - rateIndex
-               );
-            }
+            // The rate, channel mask and module enables are headset-wide
+            this.applyDeviceSettingsToHW();
 
             // Set gain on parser
             if (streamIndex < this.numberOfEXGStreams()) {
@@ -363,6 +401,76 @@ export class ProxyDevice implements IProxyDeviceImpl {
       };
    }
 
+   /**
+    * Sends the ExG rate, ExG channel mask and module enables implied by the stream settings.
+    * A module is disabled when all its streams are disabled, e.g. disabling the Temp, Light
+    * and Battery streams disables the ENV module, which also stops the battery monitoring.
+    */
+   applyDeviceSettingsToHW() {
+      const parser = this.parser;
+      if (!parser) return;
+
+      const isEnabled = (streamIndex: number) => {
+         const stream = this.settings.dataInStreams[streamIndex];
+         return !!stream && !!stream.enabled.value;
+      };
+      const anyEnabled = (firstStream: number, nStreams: number) =>
+         [...Array(nStreams)].some((_, i) => isEnabled(firstStream + i));
+
+      let channelMask = 0;
+      for (let input = 0; input < parser.numberExgSignals; ++input) {
+         const stream = this.inputToStream ? this.inputToStream[input] : -1;
+         if (stream >= 0 && isEnabled(stream)) channelMask |= 1 << input;
+      }
+      const firstOrientationStream = this.numberOfEXGStreams();
+      const firstEnvironmentStream =
+         firstOrientationStream + kNumberOfOrientationSignals;
+      const firstFusionStream =
+         firstEnvironmentStream + kNumberEnvironmentSignals;
+
+      this.sendIfChanged(
+         'samplesPerSec',
+         findClosestSupportedRate(this.settings.deviceSamplesPerSec.asNumber),
+         (samplesPerSec) => parser.setSampleRate(samplesPerSec)
+      );
+      //The headset needs at least one channel, so disable the module instead
+      if (channelMask)
+         this.sendIfChanged('channelMask', channelMask, (mask) =>
+            parser.setChannelMask(mask)
+         );
+      const modules: [ExploreModule, boolean][] = [
+         [ExploreModule.kExG, channelMask !== 0],
+         [
+            ExploreModule.kOrientation,
+            anyEnabled(firstOrientationStream, kNumberOfOrientationSignals) ||
+               anyEnabled(firstFusionStream, kNumberOfFusionSignals)
+         ],
+         [
+            ExploreModule.kEnvironment,
+            anyEnabled(firstEnvironmentStream, kNumberEnvironmentSignals)
+         ]
+      ];
+      for (const [module, enabled] of modules) {
+         this.sendIfChanged('module' + module, enabled ? 1 : 0, (param) =>
+            parser.setModuleEnabled(module, !!param)
+         );
+      }
+   }
+
+   private sendIfChanged(
+      name: string,
+      param: number,
+      send: (param: number) => Promise<void>
+   ) {
+      if (this.sentToHardware.get(name) === param) return;
+      this.sentToHardware.set(name, param);
+      send(param).catch((error: Error) => {
+         //Try again the next time the settings are applied
+         this.sentToHardware.delete(name);
+         this.onError(error);
+      });
+   }
+
    /**
     * Send settings for each stream to the hardware.
     * You can place any other custom hardware settings here.
@@ -546,6 +654,8 @@ export class ProxyDevice implements IProxyDeviceImpl {
          if (kEnableLogging)
             console.log('Sending complete settings to hardware device');
 
+         this.sentToHardware.clear();
+
          this.applyAllSettingsToHardwareOnly();
          return true;
       }
@@ -566,6 +676,114 @@ export class ProxyDevice implements IProxyDeviceImpl {
       if (kEnableLogging) console.log('disconnectFromPhysicalDevice()');
    }
 
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('getParserStats', '{}')
+   getParserStats(
+      argJson: unknown,
+      callback: (
+         error: Error | null,
+         result: IParserStatsSnapshot | null
+      ) => void
+   ) {
+      callback(null, this.parser ? this.parser.stats.snapshot() : null);
+   }
+
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('formatMemory', '{}')
+   formatMemory(
+      argJson: unknown,
+      callback: (error: Error | null, result: boolean | null) => void
+   ) {
+      if (!this.parser) {
+         callback(
+            new Error(
+               'The headset memory can not be formatted before connecting to the physical device'
+            ),
+            null
+         );
+         return;
+      }
+      this.parser.formatMemory().then(
+         () => callback(null, true),
+         (error: Error) => callback(error, null)
+      );
+   }
+
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('softReset', '{}')
+   softReset(
+      argJson: unknown,
+      callback: (error: Error | null, result: boolean | null) => void
+   ) {
+      if (!this.parser) {
+         callback(
+            new Error(
+               'The headset can not be reset before connecting to the physical device'
+            ),
+            null
+         );
+         return;
+      }
+      this.parser.softReset().then(
+         () => {
+            //The headset has reverted to its default settings
+            this.sentToHardware.clear();
+            this.applyDeviceSettingsToHW();
+            callback(null, true);
+         },
+         (error: Error) => callback(error, null)
+      );
+   }
+
+   updateOrientationFusion() {
+      this.fusion.algorithm = this.settings.fusionAlgorithm;
+      this.fusion.calibration = this.settings.orientationCalibration;
+      this.fusion.reset();
+   }
+
+   /**
+    * Called from the UI thread via IDeviceProxyAPI.callFunction('calibrateOrientation', '{"durationSecs": 20}')
+    *
+    * The user should hold the headset still for the first 2 seconds, then slowly rotate it in
+    * all directions. The calibration is saved in the settings and used by the sensor fusion.
+    */
+   calibrateOrientation(
+      argJson: { durationSecs?: number } | undefined,
+      callback: (
+         error: Error | null,
+         result: IOrientationCalibration | null
+      ) => void
+   ) {
+      if (!this.parser) {
+         callback(
+            new Error(
+               'The orientation can not be calibrated before connecting to the physical device'
+            ),
+            null
+         );
+         return;
+      }
+      const durationSecs = argJson?.durationSecs ?? kDefaultCalibrationSecs;
+      const calibrator = new OrientationCalibrator(
+         kCalibrationStillSecs * kOrientationSamplesPerSec
+      );
+      this.calibrator = calibrator;
+      setTimeout(() => {
+         if (this.calibrator === calibrator) this.calibrator = undefined;
+         const calibration = calibrator.result();
+         if (!calibration) {
+            callback(
+               new Error(
+                  `Orientation calibration failed after receiving ${calibrator.sampleCount} readings. ` +
+                     'Rotate the headset in all directions during the calibration.'
+               ),
+               null
+            );
+            return;
+         }
+         this.settings.orientationCalibration = calibration;
+         this.updateOrientationFusion();
+         callback(null, calibration);
+      }, durationSecs * 1000);
+   }
+
    /**
     * Called from Quark when user sets recording rate in single-rate mode.
     * If possible, set all this proxy's streams to closest possible rate <= samplesPerSec.
@@ -577,7 +795,11 @@ export class ProxyDevice implements IProxyDeviceImpl {
       const nEXGStreams = this.numberOfEXGStreams();
 
       for (let i = 0; i < this.settings.dataInStreams.length; i++) {
-         if (i >= nEXGStreams + kNumberOfOrientationSignals) {
+         if (this.isFusionStream(i)) {
+            this.settings.dataInStreams[
+               i
+            ].samplesPerSec.value = kOrientationSamplesPerSec;
+         } else if (i >= nEXGStreams + kNumberOfOrientationSignals) {
             this.settings.dataInStreams[
                i
             ].samplesPerSec.value = kEnvironmentSamplesPerSec;
@@ -615,6 +837,20 @@ export class ProxyDevice implements IProxyDeviceImpl {
       }
       if (!this.parser || !this.physicalDevice) return false; // Can't sample if no hardware connection
 
+      // Let the user cancel sampling if the battery won't last the session
+      const batteryMessage = this.battery.checkPlannedSession(
+         this.settings.plannedSessionMins.asNumber,
+         this.settings.batteryThresholds()
+      );
+      if (batteryMessage && this.proxyDeviceSys) {
+         this.proxyDeviceSys.onDeviceEvent(
+            DeviceEvent.kDeviceStartSamplingUserQuery,
+            this.getDeviceName(),
+            batteryMessage,
+            { severity: TMessageSeverity.kMessageWarn }
+         );
+      }
+
       // Create Array of StreamBuffers (each with a streamIndex property) for
       // each enabled stream.
       this.outStreamBuffers = [];
@@ -647,6 +883,8 @@ export class ProxyDevice implements IProxyDeviceImpl {
       if (kEnableLogging) console.log('Start sampling Proxy');
       if (!this.parser) return false; // Can't sample if no hardware connection
 
+      // Alert again during this session. The latest reading is kept.
+      this.battery.reset();
       return this.parser.startSampling();
    }
 
@@ -754,7 +992,15 @@ export class ProxyDevice implements IProxyDeviceImpl {
    }
 
    onPacket(packetType: PacketType, buffer?: unknown) {
-      if (packetType === PacketType.kMarker) {
+      if (packetType === PacketType.kORN) {
+         this.onOrientationReading(buffer as IOrientationReading);
+      } else if (packetType === PacketType.kENV) {
+         const alerts = this.battery.update(
+            buffer as IEnvironmentReading,
+            this.settings.batteryThresholds()
+         );
+         alerts.forEach((alert) => this.onBatteryAlert(alert));
+      } else if (packetType === PacketType.kMarker) {
          console.log('marker packet found');
          this.proxyDeviceSys &&
             this.proxyDeviceSys.onDeviceEvent(
@@ -774,6 +1020,63 @@ export class ProxyDevice implements IProxyDeviceImpl {
             );
       }
    }
+
+   onOrientationReading(reading: IOrientationReading) {
+      if (this.calibrator) this.calibrator.add(reading);
+
+      //The fusion runs while not sampling so it has converged when sampling starts
+      const orientation = this.fusion.update(
+         reading,
+         1 / kOrientationSamplesPerSec
+      );
+      if (this.parser && this.parser.shouldWriteBytes())
+         this.writeFusionStreams(orientation, this.parser.firstFusionInput);
+   }
+
+   writeFusionStreams(orientation: IOrientation, firstFusionInput: number) {
+      if (!this.inputToStream) return;
+      const { quaternion, roll, pitch, yaw, tilt } = orientation;
+      const values = [
+         ...quaternion.map((value) => value / kQuaternionFullScale),
+         ...[roll, pitch, yaw, tilt].map(
+            (value) => value / kAngleFullScaleDegrees
+         )
+      ];
+      let input = firstFusionInput;
+      for (const value of values) {
+         const buffer = this.outStreamBuffers[this.inputToStream[input++]];
+         if (buffer) buffer.writeInt(Math.round(value * 0x7fff));
+      }
+   }
+
+   // Warns the user and, while sampling, annotates the recording
+   onBatteryAlert(alert: IBatteryAlert) {
+      if (!this.proxyDeviceSys) return;
+      this.proxyDeviceSys.onDeviceEvent(
+         DeviceEvent.kDeviceEvent,
+         this.getDeviceName(),
+         alert.message,
+         { severity: alert.severity }
+      );
+      if (this.isSampling) {
+         this.proxyDeviceSys.onDeviceEvent(
+            DeviceEvent.kDeviceEvent,
+            this.getDeviceName(),
+            alert.message,
+            {
+               flags: TMessageFlags.kMessageAddAnotation,
+               streamIndex: -1,
+               metadata: {
+                  tags: [{ name: this.getDeviceName(), type: alert.type }],
+                  colorIndex:
+                     alert.severity === TMessageSeverity.kMessageError
+                        ? MetaDataColors.kColorError
+                        : MetaDataColors.kColorWarning
+               }
+            }
+         );
+      }
+   }
 }
 
 /**
@@ -837,7 +1140,10 @@ class StreamSettings implements IDeviceStreamApi {
       if (proxy.isEXGStream(streamIndex)) {
          //These share the same setting
          this.samplesPerSec = proxy.settings.deviceSamplesPerSec as Setting;
-      } else if (proxy.isOrientationStream(streamIndex)) {
+      } else if (
+         proxy.isOrientationStream(streamIndex) ||
+         proxy.isFusionStream(streamIndex)
+      ) {
          this.samplesPerSec = new Setting( //kDefaultOrientationRate;
             settingsData.samplesPerSec,
             (setting: Setting, newValue: DeviceValueType) => {
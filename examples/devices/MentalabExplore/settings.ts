@@ -9,6 +9,17 @@ import {
 } from '../../../public/device-api';
 import { UnitsInfo16Bit, UnitsInfoImpl } from '../../../public/device-units';
 import { Setting } from '../../../public/device-settings';
+import {
+   IBatteryThresholds,
+   kDefaultMaxTemperatureC,
+   kDefaultMinTemperatureC
+} from './batteryMonitor';
+import {
+   FusionAlgorithm,
+   IOrientationCalibration,
+   kDefaultFusionAlgorithm,
+   kNoCalibration
+} from './orientationFusion';
 
 export interface IProxyDeviceImpl extends IProxyDevice {
    settings: DeviceSettings;
@@ -33,6 +44,11 @@ export interface IProxyDeviceImpl extends IProxyDevice {
       config: Partial<IDeviceStreamConfiguration>,
       restartAnySampling: boolean
    ): void;
+
+   /**
+    * Called when the orientation sensor fusion settings change.
+    */
+   updateOrientationFusion(): void;
 }
 
 const kSettingsVersion = 1;
@@ -51,14 +67,22 @@ const kNumberBatterySignals = 1;
 export const kNumberOfOrientationSignals =
    kNumberAccSignals + kNumberGyroSignals + kNumberMagSignals;
 
+// Streams derived from the ORN packets by OrientationFusion
+const kNumberQuaternionSignals = 4;
+const kNumberEulerAngleSignals = 3;
+const kNumberTiltSignals = 1;
+
+export const kNumberOfFusionSignals =
+   kNumberQuaternionSignals + kNumberEulerAngleSignals + kNumberTiltSignals;
+
 //Stream index value that means the setting is the same across
 //all EXGStreams, e.g. for this device, the sample rate.
 export const kAllEXGStreams = -1;
 
-// 1000 Hz is currently experimental (23/9/2020)
-export const kSupportedEXGSamplesPerSec = [/*1000,*/ 500, 250];
+// Descending order. Set on the headset with Parser.setSampleRate().
+export const kSupportedEXGSamplesPerSec = [1000, 500, 250];
 
-export const kDefaultEXGSamplesPerSecIndex = 1; //250 Hz
+export const kDefaultEXGSamplesPerSecIndex = 2; //250 Hz
 export const kDefaultEXGSamplesPerSec =
    kSupportedEXGSamplesPerSec[kDefaultEXGSamplesPerSecIndex];
 
@@ -84,7 +108,9 @@ export const kOrientationSamplesPerSec = 20;
 export const kEnvironmentSamplesPerSec = 1;
 
 export const kNumberOfOtherSignals =
-   kNumberOfOrientationSignals + kNumberEnvironmentSignals;
+   kNumberOfOrientationSignals +
+   kNumberEnvironmentSignals +
+   kNumberOfFusionSignals;
 
 /* Setup for 8 channel device */
 export const kEEGStreamNames = [
@@ -110,10 +136,21 @@ export const kOtherStreamNames = [
    'MAG Z',
    'Temp',
    'Light',
-   'Battery'
+   'Battery',
+   'Quat W',
+   'Quat X',
+   'Quat Y',
+   'Quat Z',
+   'Roll',
+   'Pitch',
+   'Yaw',
+   'Tilt'
 ];
 
-export function getStreamName(signalIndex: number, totalNumberOfStreams = 20) {
+export function getStreamName(
+   signalIndex: number,
+   totalNumberOfStreams = kDefaultNumExGSignals + kOtherStreamNames.length
+) {
    const numberOfExGSiganls = totalNumberOfStreams - kOtherStreamNames.length;
    if (signalIndex < numberOfExGSiganls) {
       return kEEGStreamNames[signalIndex];
@@ -255,6 +292,27 @@ const kUnitsForBattery = new UnitsInfoImpl(
    0
 );
 
+// Fusion outputs are scaled so the 16 bit range covers these full scales
+export const kQuaternionFullScale = 1;
+export const kAngleFullScaleDegrees = 180;
+
+const kUnitsForQuaternion = new UnitsInfo16Bit(
+   '',
+   UnitPrefix.kNoPrefix,
+   4,
+   kQuaternionFullScale,
+   -kQuaternionFullScale
+);
+
+//Used for the roll, pitch, yaw and tilt streams
+const kUnitsForAngle = new UnitsInfo16Bit(
+   ' \u00B0',
+   UnitPrefix.kNoPrefix,
+   1,
+   kAngleFullScaleDegrees,
+   -kAngleFullScaleDegrees
+);
+
 export function unitsFromPosFullScale(posFullScale: number) {
    switch (posFullScale) {
       case kUnitsForGain1.maxInPrefixedUnits:
@@ -279,6 +337,10 @@ export function unitsFromPosFullScale(posFullScale: number) {
          return kUnitsForLight;
       case kUnitsForBattery.maxInPrefixedUnits:
          return kUnitsForBattery;
+      case kUnitsForQuaternion.maxInPrefixedUnits:
+         return kUnitsForQuaternion;
+      case kUnitsForAngle.maxInPrefixedUnits:
+         return kUnitsForAngle;
    }
    console.warn(
       'Unknown positive full scale value: ' + posFullScale + 'using default'
@@ -294,6 +356,15 @@ export class DeviceSettings implements IDeviceProxySettingsSys {
 
    numberExgSignals: number;
 
+   //Battery monitoring, see BatteryMonitor
+   batteryLowPercentage: Setting;
+   batteryCriticalPercentage: Setting;
+   plannedSessionMins: Setting;
+
+   //Orientation sensor fusion, see OrientationFusion
+   orientationFusion: Setting;
+   orientationCalibration: IOrientationCalibration = kNoCalibration;
+
    dataInStreams: IDeviceStreamApi[];
 
    constructor(proxy: IProxyDeviceImpl, nEXGStreams: number) {
@@ -308,8 +379,58 @@ export class DeviceSettings implements IDeviceProxySettingsSys {
          }
       );
 
+      const keepValue = (setting: IDeviceSetting, newValue: DeviceValueType) =>
+         newValue;
+      this.batteryLowPercentage = new Setting(kDefaultBatteryLow, keepValue);
+      this.batteryCriticalPercentage = new Setting(
+         kDefaultBatteryCritical,
+         keepValue
+      );
+      this.plannedSessionMins = new Setting(kDefaultPlannedSession, keepValue);
+
+      this.orientationFusion = new Setting(
+         kDefaultOrientationFusion,
+         (setting: IDeviceSetting, newValue: DeviceValueType) => {
+            proxy.updateOrientationFusion();
+            return newValue;
+         }
+      );
+
       this.dataInStreams = getDataInStreams(this, this.numberExgSignals);
    }
+
+   //Recordings made before battery monitoring was added keep the defaults
+   restoreBatterySettings(other: Partial<DeviceSettings>) {
+      if (other.batteryLowPercentage)
+         this.batteryLowPercentage.setValue(other.batteryLowPercentage);
+      if (other.batteryCriticalPercentage)
+         this.batteryCriticalPercentage.setValue(
+            other.batteryCriticalPercentage
+         );
+      if (other.plannedSessionMins)
+         this.plannedSessionMins.setValue(other.plannedSessionMins);
+   }
+
+   //Recordings made before sensor fusion was added keep the defaults
+   restoreOrientationSettings(other: Partial<DeviceSettings>) {
+      if (other.orientationFusion)
+         this.orientationFusion.setValue(other.orientationFusion);
+      if (other.orientationCalibration)
+         this.orientationCalibration = other.orientationCalibration;
+   }
+
+   get fusionAlgorithm() {
+      return this.orientationFusion.value as FusionAlgorithm;
+   }
+
+   batteryThresholds(): IBatteryThresholds {
+      return {
+         lowPercentage: this.batteryLowPercentage.asNumber,
+         criticalPercentage: this.batteryCriticalPercentage.asNumber,
+         minTemperatureC: kDefaultMinTemperatureC,
+         maxTemperatureC: kDefaultMaxTemperatureC
+      };
+   }
 }
 
 export function getDefaultDisabledStreamSettings(
@@ -385,6 +506,18 @@ export function getDataInStreams(
          kUnitsForBattery,
          kDefaultEnvironmentRate,
          enabledSetting
+      ),
+      ...getDefaultSettingsForStream(
+         kNumberQuaternionSignals,
+         kUnitsForQuaternion,
+         kDefaultOrientationRate,
+         enabledSetting
+      ),
+      ...getDefaultSettingsForStream(
+         kNumberEulerAngleSignals + kNumberTiltSignals,
+         kUnitsForAngle,
+         kDefaultOrientationRate,
+         enabledSetting
       )
    ];
 }
@@ -470,12 +603,11 @@ const kDefaultExGRates = {
       {
          value: kSupportedEXGSamplesPerSec[1],
          display: kSupportedEXGSamplesPerSec[1].toString() + ' Hz'
+      },
+      {
+         value: kSupportedEXGSamplesPerSec[2],
+         display: kSupportedEXGSamplesPerSec[2].toString() + ' Hz'
       }
-      // 1000 Hz is currently experimental (23/9/2020)
-      // {
-      //    value: kSupportedEXGSamplesPerSec[2],
-      //    display: kSupportedEXGSamplesPerSec[2].toString() + ' Hz'
-      // }
    ]
 };
 
@@ -500,3 +632,33 @@ const kDefaultEnvironmentRate = {
       }
    ]
 };
+
+const kDefaultBatteryLow = {
+   settingName: 'Low battery warning',
+   value: 20,
+   options: [30, 20, 15].map((value) => ({ value, display: value + ' %' }))
+};
+
+const kDefaultBatteryCritical = {
+   settingName: 'Critical battery warning',
+   value: 10,
+   options: [10, 5].map((value) => ({ value, display: value + ' %' }))
+};
+
+const kDefaultPlannedSession = {
+   settingName: 'Planned session length',
+   value: 60,
+   options: [15, 30, 60, 120, 240].map((value) => ({
+      value,
+      display: value + ' min'
+   }))
+};
+
+const kDefaultOrientationFusion = {
+   settingName: 'Orientation fusion',
+   value: kDefaultFusionAlgorithm,
+   options: [
+      { value: 'madgwick', display: 'Madgwick' },
+      { value: 'mahony', display: 'Mahony' }
+   ]
+};
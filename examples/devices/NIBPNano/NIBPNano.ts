@@ -21,12 +21,12 @@
  *    objects of its class, as well as the ProxyDevice objects.
  */
 
-import { DeviceClass } from './deviceClass';
+import { DeviceClass, LegacyFloatingPointDeviceClass } from './deviceClass';
 import { NIBPNanoUI } from './deviceSettingsUI';
 
 module.exports = {
    getDeviceClasses() {
-      return [new DeviceClass()];
+      return [new DeviceClass(), new LegacyFloatingPointDeviceClass()];
    },
    getDeviceUIClasses() {
       return [new NIBPNanoUI()];
@@ -0,0 +1,73 @@
+import { kConversionFactor, kDefaultSamplesPerSec } from './constants';
+
+// Tag type of the beat annotations, so they can be listed and searched in Lightning
+export const kBeatAnnotationTagType = 'beat';
+
+/**
+ * A single beat reported by a beat-to-beat data transmission packet.
+ */
+export interface INanoBeat {
+   // Counts from 1 when sampling starts
+   index: number;
+   // Time of the beat since sampling started
+   timeSec: number;
+   sysmmHg: number;
+   mapmmHg: number;
+   diammHg: number;
+   // Height (HCU) corrected pressures
+   hcSysmmHg: number;
+   hcMapmmHg: number;
+   hcDiammHg: number;
+   heartRateBPM: number;
+   interbeatIntervalms: number;
+}
+
+/**
+ * @param sampleIndex the beat's sample in the beat-to-beat streams, counted from the
+ * start of sampling.
+ * @param sys etc. are the raw values, as written to the streams before any scaling.
+ */
+export function createBeat(
+   index: number,
+   sampleIndex: number,
+   raw: {
+      sys: number;
+      map: number;
+      dia: number;
+      heightAverage: number;
+      hrBper10min: number;
+      ibims: number;
+   }
+): INanoBeat {
+   const toMmHg = (decimmHg: number) => decimmHg / kConversionFactor;
+   return {
+      index,
+      timeSec: sampleIndex / kDefaultSamplesPerSec,
+      sysmmHg: toMmHg(raw.sys),
+      mapmmHg: toMmHg(raw.map),
+      diammHg: toMmHg(raw.dia),
+      hcSysmmHg: toMmHg(raw.sys + raw.heightAverage),
+      hcMapmmHg: toMmHg(raw.map + raw.heightAverage),
+      hcDiammHg: toMmHg(raw.dia + raw.heightAverage),
+      heartRateBPM: raw.hrBper10min / 10,
+      interbeatIntervalms: raw.ibims
+   };
+}
+
+/**
+ * @returns the text of the beat's annotation, e.g.
+ * 'Beat 12 at 10.235 s: SYS 120.5, MAP 95.0, DIA 80.2 mmHg; HC SYS 122.1, MAP 96.6,
+ * DIA 81.8 mmHg; HR 72.0 bpm; IBI 833 ms'
+ */
+export function describeBeat(beat: INanoBeat) {
+   const f = (value: number) => value.toFixed(1);
+   const pressures = (sys: number, map: number, dia: number) =>
+      `SYS ${f(sys)}, MAP ${f(map)}, DIA ${f(dia)} mmHg`;
+   return [
+      `Beat ${beat.index} at ${beat.timeSec.toFixed(3)} s: ` +
+         pressures(beat.sysmmHg, beat.mapmmHg, beat.diammHg),
+      'HC ' + pressures(beat.hcSysmmHg, beat.hcMapmmHg, beat.hcDiammHg),
+      `HR ${f(beat.heartRateBPM)} bpm`,
+      `IBI ${Math.round(beat.interbeatIntervalms)} ms`
+   ].join('; ');
+}
@@ -3,6 +3,10 @@ import { calcCRC2, code, nanoWriteMessage, toBytesInt32 } from './utils';
 
 export const deviceName = 'Human NIBP Nano';
 export const deviceClassId = '06c878c2-9c56-11e8-98d0-529269fb1459';
+// The class id of the retired Human NIBP Nano Floating Point driver, so its
+// recordings can still be opened.
+export const legacyFloatingPointDeviceClassId =
+   '927317c6-e601-11ec-8fea-0242ac120002';
 //UUID generated using https://www.uuidgenerator.net/version1
 
 // the device supplies in units of beats per ten minutes and deci-mmHg, etc, hence the conversion factor of 10
@@ -29,16 +33,6 @@ export const kDataSamplesPerStatusSample = 50;
 export const kPhysiocalOffBeats = 4;
 export const kWarningAnnotationTimeoutms = 15000;
 
-// Scale up the integers to ensure autocale limit for 16-bit doesn't
-// hit the autoscale noise limit which is +/-320 ADC units
-// e.g. mmHg 0-330 prefixed scales to 0-29700 ADC instead 0-3300 ADC
-// Alternatively, you could use the float BlockDataType(when it's implemented),
-// but this will increase file size!
-export const kBeatIntegerScalingFactor = 9;
-export const kCalIntegerScalingFactor = 100;
-export const kCuffCountdownIntegerScalingFactor = 8;
-export const kActiveCuffIntegerScalingFactor = 2000;
-
 export enum NanoChannels {
    kBP,
    kBPHC,
@@ -57,6 +51,34 @@ export enum NanoChannels {
    kAutoCalCountdown
 }
 
+// Recordings using the 16-bit output format scale up the integers to ensure
+// the autoscale limit for 16-bit doesn't hit the autoscale noise limit, which is
+// +/-320 ADC units, e.g. mmHg 0-330 prefixed scales to 0-29700 ADC instead of
+// 0-3300 ADC. The float32 output format stores the values unscaled, but doubles
+// the file size.
+export const kBeatIntegerScalingFactor = 9;
+export const kCalIntegerScalingFactor = 100;
+export const kCuffCountdownIntegerScalingFactor = 8;
+export const kActiveCuffIntegerScalingFactor = 2000;
+
+export const kIntegerScalingFactors: Record<NanoChannels, number> = {
+   [NanoChannels.kBP]: 1,
+   [NanoChannels.kBPHC]: 1,
+   [NanoChannels.kHGT]: kBeatIntegerScalingFactor,
+   [NanoChannels.kSYS]: kBeatIntegerScalingFactor,
+   [NanoChannels.kSYSHC]: kBeatIntegerScalingFactor,
+   [NanoChannels.kMAP]: kBeatIntegerScalingFactor,
+   [NanoChannels.kMAPHC]: kBeatIntegerScalingFactor,
+   [NanoChannels.kDIA]: kBeatIntegerScalingFactor,
+   [NanoChannels.kDIAHC]: kBeatIntegerScalingFactor,
+   [NanoChannels.kHR]: kBeatIntegerScalingFactor,
+   [NanoChannels.kIBI]: kBeatIntegerScalingFactor,
+   [NanoChannels.kActiveCuff]: kActiveCuffIntegerScalingFactor,
+   [NanoChannels.kCuffCountdown]: kCuffCountdownIntegerScalingFactor,
+   [NanoChannels.kQualLevel]: kCalIntegerScalingFactor,
+   [NanoChannels.kAutoCalCountdown]: kCalIntegerScalingFactor
+};
+
 export const kStreamNames = [
    'Finger Pressure',
    'Finger Pressure (HC)',
@@ -277,43 +299,28 @@ const BloodPressureUnitsInfo = {
    minValidADCValue: 0
 };
 
-const BloodPressureBeatToBeatUnitsInfo = {
-   unitName: 'mmHg',
-   prefix: UnitPrefix.kNoPrefix,
-   defaultDecPlaces: kDecimalPlaces,
-   maxInPrefixedUnits: kPressureRangeMaxMmHg,
-   maxInADCValues:
-      kPressureRangeMaxMmHg * kConversionFactor * kBeatIntegerScalingFactor,
-   minInPrefixedUnits: 0,
-   minInADCValues: 0,
-   maxValidADCValue:
-      kPressureRangeMaxMmHg * kConversionFactor * kBeatIntegerScalingFactor,
-   minValidADCValue: 0
-};
-
+// Units of the unscaled values, see kIntegerScalingFactors
 export const DefaultUnits: Record<NanoChannels, UnitsInfo> = {
    [NanoChannels.kBP]: BloodPressureUnitsInfo,
    [NanoChannels.kBPHC]: BloodPressureUnitsInfo,
 
-   [NanoChannels.kHGT]: BloodPressureBeatToBeatUnitsInfo,
-   [NanoChannels.kSYS]: BloodPressureBeatToBeatUnitsInfo,
-   [NanoChannels.kSYSHC]: BloodPressureBeatToBeatUnitsInfo,
-   [NanoChannels.kMAP]: BloodPressureBeatToBeatUnitsInfo,
-   [NanoChannels.kMAPHC]: BloodPressureBeatToBeatUnitsInfo,
-   [NanoChannels.kDIA]: BloodPressureBeatToBeatUnitsInfo,
-   [NanoChannels.kDIAHC]: BloodPressureBeatToBeatUnitsInfo,
+   [NanoChannels.kHGT]: BloodPressureUnitsInfo,
+   [NanoChannels.kSYS]: BloodPressureUnitsInfo,
+   [NanoChannels.kSYSHC]: BloodPressureUnitsInfo,
+   [NanoChannels.kMAP]: BloodPressureUnitsInfo,
+   [NanoChannels.kMAPHC]: BloodPressureUnitsInfo,
+   [NanoChannels.kDIA]: BloodPressureUnitsInfo,
+   [NanoChannels.kDIAHC]: BloodPressureUnitsInfo,
 
    [NanoChannels.kHR]: {
       unitName: 'bpm',
       prefix: UnitPrefix.kNoPrefix,
       defaultDecPlaces: 0,
       maxInPrefixedUnits: kBPMRangeMax,
-      maxInADCValues:
-         kBPMRangeMax * kConversionFactor * kBeatIntegerScalingFactor,
+      maxInADCValues: kBPMRangeMax * kConversionFactor,
       minInPrefixedUnits: 0,
       minInADCValues: 0,
-      maxValidADCValue:
-         kBPMRangeMax * kConversionFactor * kBeatIntegerScalingFactor,
+      maxValidADCValue: kBPMRangeMax * kConversionFactor,
       minValidADCValue: 0
    },
    [NanoChannels.kIBI]: {
@@ -321,10 +328,10 @@ export const DefaultUnits: Record<NanoChannels, UnitsInfo> = {
       prefix: UnitPrefix.kMilli,
       defaultDecPlaces: 0,
       maxInPrefixedUnits: IBIRangeMax,
-      maxInADCValues: IBIRangeMax * kBeatIntegerScalingFactor,
+      maxInADCValues: IBIRangeMax,
       minInPrefixedUnits: 0,
       minInADCValues: 0,
-      maxValidADCValue: IBIRangeMax * kBeatIntegerScalingFactor,
+      maxValidADCValue: IBIRangeMax,
       minValidADCValue: 0
    },
    [NanoChannels.kActiveCuff]: {
@@ -332,10 +339,10 @@ export const DefaultUnits: Record<NanoChannels, UnitsInfo> = {
       prefix: UnitPrefix.kNoPrefix,
       defaultDecPlaces: 0,
       maxInPrefixedUnits: kCuffCountRange,
-      maxInADCValues: kCuffCountRange * kActiveCuffIntegerScalingFactor,
+      maxInADCValues: kCuffCountRange,
       minInPrefixedUnits: 0,
       minInADCValues: 0,
-      maxValidADCValue: kCuffCountRange * kActiveCuffIntegerScalingFactor,
+      maxValidADCValue: kCuffCountRange,
       minValidADCValue: 0
    },
    [NanoChannels.kCuffCountdown]: {
@@ -343,11 +350,10 @@ export const DefaultUnits: Record<NanoChannels, UnitsInfo> = {
       prefix: UnitPrefix.kNoPrefix,
       defaultDecPlaces: 0,
       maxInPrefixedUnits: kCuffCountDownRange,
-      maxInADCValues: kCuffCountDownRange * kCuffCountdownIntegerScalingFactor,
+      maxInADCValues: kCuffCountDownRange,
       minInPrefixedUnits: 0,
       minInADCValues: 0,
-      maxValidADCValue:
-         kCuffCountDownRange * kCuffCountdownIntegerScalingFactor,
+      maxValidADCValue: kCuffCountDownRange,
       minValidADCValue: 0
    },
    [NanoChannels.kQualLevel]: {
@@ -355,10 +361,10 @@ export const DefaultUnits: Record<NanoChannels, UnitsInfo> = {
       prefix: UnitPrefix.kNoPrefix,
       defaultDecPlaces: 0,
       maxInPrefixedUnits: kQualRange,
-      maxInADCValues: kQualRange * kCalIntegerScalingFactor,
+      maxInADCValues: kQualRange,
       minInPrefixedUnits: 0,
       minInADCValues: 0,
-      maxValidADCValue: kQualRange * kCalIntegerScalingFactor,
+      maxValidADCValue: kQualRange,
       minValidADCValue: 0
    },
    [NanoChannels.kAutoCalCountdown]: {
@@ -366,10 +372,10 @@ export const DefaultUnits: Record<NanoChannels, UnitsInfo> = {
       prefix: UnitPrefix.kNoPrefix,
       defaultDecPlaces: 0,
       maxInPrefixedUnits: kBeatsRange,
-      maxInADCValues: kBeatsRange * kCalIntegerScalingFactor,
+      maxInADCValues: kBeatsRange,
       minInPrefixedUnits: 0,
       minInADCValues: 0,
-      maxValidADCValue: kBeatsRange * kCalIntegerScalingFactor,
+      maxValidADCValue: kBeatsRange,
       minValidADCValue: 0
    }
 };
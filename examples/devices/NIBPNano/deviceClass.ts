@@ -1,4 +1,5 @@
 import {
+   BlockDataFormat,
    DuplexDeviceConnection,
    IDeviceClass,
    ProxyDeviceSys,
@@ -8,6 +9,7 @@ import { DuplexStream } from '../../../public/device-streams';
 import {
    deviceName,
    deviceClassId,
+   legacyFloatingPointDeviceClassId,
    kHardwareInfoCmd,
    kApplicationVersionCmd,
    kBootloaderVersionCmd,
@@ -243,3 +245,43 @@ export class DeviceClass extends DeviceClassBase implements IDeviceClass {
       return new ProxyDevice(quarkProxy, physicalDevice);
    }
 }
+
+/**
+ * Opens recordings made with the retired Human NIBP Nano Floating Point driver,
+ * whose data is stored in the 32-bit float output format.
+ *
+ * It does not look for devices, as the Human NIBP Nano class finds them, so these
+ * recordings can be viewed but not sampled into.
+ */
+export class LegacyFloatingPointDeviceClass extends DeviceClass {
+   getDeviceClassName() {
+      return 'HumanNIBPNanoFloatingPoint';
+   }
+
+   getClassId() {
+      return legacyFloatingPointDeviceClassId;
+   }
+
+   /**
+    * Never finds a device. This class is only registered so that old recordings
+    * made with the Floating Point driver can still be opened.
+    */
+   checkDeviceIsPresent(
+      deviceConnection: DuplexDeviceConnection,
+      callback: (error: Error | null, device: PhysicalDevice | null) => void
+   ) {
+      callback(null, null);
+   }
+
+   createProxyDevice(
+      quarkProxy: ProxyDeviceSys | null,
+      physicalDevice: PhysicalDevice | null
+   ) {
+      return new ProxyDevice(
+         quarkProxy,
+         physicalDevice,
+         undefined,
+         BlockDataFormat.kFloatBlockDataFormat
+      );
+   }
+}
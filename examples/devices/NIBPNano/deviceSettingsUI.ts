@@ -10,22 +10,38 @@ import {
    IUIElementApi
 } from '../../../public/device-ui-api';
 import { PluginFeatureTypes } from '../../../public/plugin-api';
-import { CuffMode, deviceClassId, deviceName } from './constants';
+import {
+   CuffMode,
+   deviceClassId,
+   deviceName,
+   legacyFloatingPointDeviceClassId
+} from './constants';
 import { NIBPSettings } from './settings';
 
+const kDefaultAutoCalDeferBeats = 20;
+
 export class NIBPNanoUI implements IDeviceUIApi {
    name = deviceName + ' UI';
    type: PluginFeatureTypes = 'Device UI';
 
    // We provide UI for NIBP devices.
    matchesDevice(deviceClassGuid: string, deviceInternalName: string): boolean {
-      return deviceClassGuid === deviceClassId;
+      return (
+         deviceClassGuid === deviceClassId ||
+         deviceClassGuid === legacyFloatingPointDeviceClassId
+      );
    }
 
    // Store the result of the last HCU zero operation so it can be displayed to the
    // user.
    private lastHcuStatus = '';
 
+   // Beats to defer auto-calibration by when the Defer button is clicked
+   private autoCalDeferBeats = kDefaultAutoCalDeferBeats;
+
+   // From the last suspend/resume, so the button shows the opposite action
+   private measurementSuspended = false;
+
    /**
     * Called by Lightning when the user wishes to configure the device.
     *
@@ -126,6 +142,56 @@ export class NIBPNanoUI implements IDeviceUIApi {
          disabled: false
       });
 
+      if (deviceProxy && settings.autoCalibrate.value) {
+         elements.push({
+            type: 'indicator',
+            label: 'Auto-calibration in',
+            suffix: ' beats',
+            retrieveValue: () =>
+               deviceProxy
+                  .callFunction('getCuffStatus', JSON.stringify({}))
+                  .then((status) =>
+                     status
+                        ? status.autoCalDeferredBeats ||
+                          status.autoCalCountdownBeats
+                        : null
+                  )
+         });
+
+         elements.push({
+            type: 'adjustable-value',
+            label: 'Defer auto-calibration by',
+            range: { min: 0, max: 200, increment: 1 },
+            defaultValue: this.autoCalDeferBeats,
+            suffix: ' beats',
+            onChange: (newValue) => {
+               this.autoCalDeferBeats = Number(newValue);
+               return Promise.resolve();
+            }
+         });
+
+         elements.push({
+            type: 'action',
+            buttonText: 'Defer',
+            // Deferring by 0 beats resumes auto-calibration now
+            calcDisabled: () => !isSampling,
+            action: (callback) => {
+               callback?.({ type: 'started', options: 'default' });
+               deviceProxy
+                  .callFunction(
+                     'deferAutocalibration',
+                     JSON.stringify({ beats: this.autoCalDeferBeats })
+                  )
+                  .then(() =>
+                     callback?.({ type: 'finished', options: 'refresh all' })
+                  )
+                  .catch((error) =>
+                     callback?.({ type: 'failed', message: error.message })
+                  );
+            }
+         });
+      }
+
       elements.push({
          type: 'setting',
          setting: settings.cuffMode,
@@ -144,6 +210,20 @@ export class NIBPNanoUI implements IDeviceUIApi {
             disabled: false
          });
 
+         if (deviceProxy) {
+            elements.push({
+               type: 'indicator',
+               label: 'Cuff switch in',
+               suffix: ' s',
+               retrieveValue: () =>
+                  deviceProxy
+                     .callFunction('getCuffStatus', JSON.stringify({}))
+                     .then((status) =>
+                        status ? status.cuffCountdownSecs : null
+                     )
+            });
+         }
+
          elements.push({
             type: 'action',
             buttonText: 'Switch now',
@@ -175,6 +255,32 @@ export class NIBPNanoUI implements IDeviceUIApi {
          });
       }
 
+      if (deviceProxy) {
+         elements.push({
+            type: 'action',
+            label: 'Measurement',
+            buttonText: this.measurementSuspended ? 'Resume' : 'Suspend',
+            // Deflates the cuffs without stopping sampling
+            calcDisabled: () => !isSampling,
+            action: (callback) => {
+               callback?.({ type: 'started', options: 'default' });
+               deviceProxy
+                  .callFunction(
+                     'setMeasurementSuspended',
+                     JSON.stringify({ suspended: !this.measurementSuspended })
+                  )
+                  .then((status) => {
+                     this.measurementSuspended =
+                        !!status && status.measurementSuspended;
+                     callback?.({ type: 'finished', options: 'refresh all' });
+                  })
+                  .catch((error) =>
+                     callback?.({ type: 'failed', message: error.message })
+                  );
+            }
+         });
+      }
+
       elements.push({
          type: 'setting',
          setting: settings.continueOnError,
@@ -184,6 +290,37 @@ export class NIBPNanoUI implements IDeviceUIApi {
          disabled: false
       });
 
+      elements.push({
+         type: 'setting',
+         setting: settings.beatAnnotations,
+         controlType: 'toggle',
+         info:
+            'Add an annotation for each beat with its systolic, mean arterial and diastolic pressures, their height corrected values, heart rate and interbeat interval.',
+         disabled: false
+      });
+
+      elements.push({
+         type: 'setting',
+         setting: settings.outputFormat,
+         controlType: 'list',
+         info:
+            '16-bit integers keep the recording small. 32-bit floats store the values without rounding, but double the size of the recording.',
+         disabled: isSampling
+      });
+
+      if (deviceProxy) {
+         elements.push({
+            type: 'indicator',
+            label: 'Corrupted packets',
+            refreshIntervalms: 2000,
+            thresholds: { warn: 1, bad: 20 },
+            retrieveValue: () =>
+               deviceProxy
+                  .callFunction('getParserStats', JSON.stringify({}))
+                  .then((stats) => (stats ? stats.checksumFailures : null))
+         });
+      }
+
       return {
          elements,
          layout: 'default',
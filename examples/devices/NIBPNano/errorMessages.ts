@@ -1,3 +1,5 @@
+import { MetaDataColors } from '../../../public/device-api';
+
 // Explictly state the error codes even though
 // they increment normally (except for 38)
 // prettier-ignore
@@ -58,99 +60,6 @@ export function getErrorCode(hwCode: number): NIBPErrorCodes {
    return enumValue ?? NIBPErrorCodes.GeneralError;
 }
 
-export const NIBPErrors: Record<NIBPErrorCodes, string> = {
-   [NIBPErrorCodes.NoError]: '',
-   [NIBPErrorCodes.GeneralError]: '',
-   [NIBPErrorCodes.LedContr_erro_LowControlVolt]:
-      'Please check the wrist unit and restart the device.',
-   [NIBPErrorCodes.LedContr_erro_HighControlVolt]:
-      'Unable to set correct LED current. Please inspect your hardware configuration.',
-   [NIBPErrorCodes.LedContr_erro_HighLedCurrent]:
-      'Unable to set correct LED current. Please inspect your hardware configuration.',
-   [NIBPErrorCodes.LedContr_erro_TooManyIteratio]:
-      'Unable to set correct LED current. Please inspect your hardware configuration.',
-   [NIBPErrorCodes.LedContr_erro_CurrBelowDrift]:
-      'Finger cuff (or cuff cable) loose or not connected.',
-   [NIBPErrorCodes.LedContr_erro_CurrAboveDrift]:
-      'Unable to set correct LED current. Please inspect your hardware configuration.',
-   [NIBPErrorCodes.LedContr_erro_VoltBelowRange]:
-      'Unable to set correct LED current. Please inspect your hardware configuration.',
-   [NIBPErrorCodes.LedContr_erro_VoltAboveRange]:
-      'Unable to set correct LED current. Please inspect your hardware configuration.',
-   [NIBPErrorCodes.Plethysm_erro_TooMuchLight]:
-      'The infrared level transmitted through the finger is too high. Try a smaller finger cuff.',
-   [NIBPErrorCodes.PhysScan_erro_SyncBeatTimeOut]:
-      'Odd plethysmogram detected, probably due to pressing the cuff or finger-tip.',
-   [NIBPErrorCodes.PhysScan_erro_ScanFailed]:
-      'No blood pressure signal. May be: finger too cold, incorrect cuff size or bad cuff position.',
-   [NIBPErrorCodes.PhysScan_erro_BeatDownTimeOut]:
-      'No plethysmogram detected. Check proper application of the finger cuff.',
-   [NIBPErrorCodes.PresMoni_erro_IncorrectPress]:
-      'Cuff pressure error. Please check the cuff air hose.',
-   [NIBPErrorCodes.PresMoni_erro_UnstablePress]:
-      'Cuff pressure unstable. Please check the cuff air hose.',
-   [NIBPErrorCodes.ManoBeDe_erro_PressTooLow]:
-      'Cuff pressure too low. Please check the cuff air hose.',
-   [NIBPErrorCodes.SignInMo_erro_MeanPressLow]:
-      'Mean pressure has been below 10mmHg for 2.5s. Please check the cuff air hose.',
-   [NIBPErrorCodes.SignInMo_erro_UnacceptableP]:
-      'The plethysmogram values moved out of range. This may be a movement artifact.',
-   [NIBPErrorCodes.SignInMo_erro_MeanPressHigh]:
-      'Mean pressure has been above 250 mmHg for 2.5s. Please check the cuff air hose.',
-   [NIBPErrorCodes.PreContr_erro_CuffPreSensRang]:
-      'Cuff pressure sensor out of range. Check if the finger cuff is wrapped tight enough around the finger.',
-   [NIBPErrorCodes.PreContr_erro_VolPreSensRang]:
-      'Volume pressure sensor out of range. Please check the cuff air hose.',
-   [NIBPErrorCodes.PreContr_erro_CuffPreExceed]:
-      'Pressure on the finger is too high, deflating for safety. May be because finger too cold, incorrect cuff size or bad cuff position.',
-   [NIBPErrorCodes.PreContr_erro_CuffPreExceLong]:
-      'Mean pressure has been above 250 mmHg for 2.5s. Please check the cuff air hose.',
-   [NIBPErrorCodes.PreContr_erro_VolPreExceed]:
-      'Pressure on the finger is too high, deflating for safety. May be because finger too cold, incorrect cuff size or bad cuff position.',
-   [NIBPErrorCodes.PreContr_erro_CurrExceedLong]:
-      'Current exceeded for too long. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_VoltageSenseFailure]:
-      'One of the internal voltages being monitored has failed. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_HcuRefSenseFailure]:
-      'Monitoring the reference voltage of the HCU has failed. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_PletRefSenseFailure]:
-      'Plethysmograph reference monitor failed. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_HouseTempSenseFailure]:
-      'Housing temperature sensor error. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_cuffPressureSenseFailure]:
-      'Cuff pressure sensor failure. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_volumePressureSenseFailure]:
-      'Cuff pressure sensor failure. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_VoltageOutLimits]:
-      'Supply voltage error. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_HcuRefOutLimits]:
-      'Plethysmograph ref out of limits. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_PletRefOutLimits]:
-      'Plethysmograph ref out of limits. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_cuffPressureSignalOffset]:
-      'Pressure signal offset too large. Please restart the wrist unit by reconnecting to HNIBP interface.',
-   [NIBPErrorCodes.SysIntgr_erro_volumePressureSignalOffset]:
-      'Pressure signal offset too large. Please keep the wrist unit stable during its start-up.',
-   [NIBPErrorCodes.SysIntgr_erro_pressureSensorTimeout]:
-      'Plethysmograph ref out of limits. Please keep the wrist unit stable during its start-up.',
-   [NIBPErrorCodes.missing_error_38]: '',
-   [NIBPErrorCodes.AppContr_erro_PressureToHigh]:
-      'Pressure on the finger is too high, deflating for safety. May be because finger too cold, incorrect cuff size or bad cuff position.',
-   [NIBPErrorCodes.AppContr_erro_caseTemperatureOutLimits]:
-      'The housing of the wrist unit is too hot. Please check convection possibilities around the wrist unit.',
-   [NIBPErrorCodes.AppContr_erro_pcbTemperatureOutLimits]:
-      'The processor of the wrist unit is too hot. Please check convection possibilities around the wrist unit.',
-   [NIBPErrorCodes.AppContr_erro_MeasurementToLong]:
-      'The maximum time of 4 hours for measuring on a single cuff has exceeded. Please switch to another cuff.',
-   [NIBPErrorCodes.HcuContr_erro_hcuOffsetToBig]:
-      'HCU offset too large. Please retry zeroing.',
-   [NIBPErrorCodes.HcuContr_erro_NotAllowed]:
-      'HCU can not be zeroed during sampling. Please stop recording if HCU zeroing is needed.',
-   [NIBPErrorCodes.AppContr_erro_KeepAliveNotReceived]:
-      'The Keep Alive package has not been received in time from LabChart. Please check cables and restart the device and LabChart.',
-   [NIBPErrorCodes.Driver_erro_SensorFailed]: 'Driver_erro_SensorFailed'
-};
-
 export const kHandleWarningFlag = 0x00800000;
 
 // warnings that don't have the kHandleWarningFlag bit set will get ignored
@@ -178,84 +87,464 @@ export enum WarningFlags {
    kModFlow_warn_BraCalLongAborted    = (0x01 << 17) | 0 
 }
 
-// see Finapres Nano Core Error Codes v2.0.0.1678\
+export type NIBPIssueSeverity = 'error' | 'warning' | 'info';
 
-export const nanoWarningsArray = [
-   {
-      flag: WarningFlags.kNoWarning,
-      message: 'No warning'
-   },
+/**
+ * How an error or warning from the Nano (or the driver itself) is reported to the
+ * user and how it affects sampling.
+ */
+export interface INIBPIssue {
+   // Key for translations and the pop-up's 'once only' check
+   id: string;
+   // Info issues are logged but not annotated, e.g. HCU zeroing results which are
+   // shown by the HCU status instead
+   severity: NIBPIssueSeverity;
+   // Whether the Nano can carry on measuring once the cause is fixed, without
+   // being restarted
+   recoverable: boolean;
+   // Whether sampling must stop, unless the user chose to continue on error
+   stopSampling: boolean;
+   message: string;
+   // What the user can do about it
+   remedy: string;
+   color: MetaDataColors;
+}
+
+type IssueDetails = Omit<INIBPIssue, 'id'>;
+
+function nanoError(
+   message: string,
+   remedy: string,
+   options: Partial<IssueDetails> = {}
+): IssueDetails {
+   return {
+      severity: 'error',
+      recoverable: true,
+      stopSampling: true,
+      message,
+      remedy,
+      color: MetaDataColors.kColorError,
+      ...options
+   };
+}
+
+function nanoWarning(
+   message: string,
+   remedy: string,
+   options: Partial<IssueDetails> = {}
+): IssueDetails {
+   return {
+      severity: 'warning',
+      recoverable: true,
+      stopSampling: false,
+      message,
+      remedy,
+      color: MetaDataColors.kColorWarning,
+      ...options
+   };
+}
+
+function nanoInfo(message: string, remedy = ''): IssueDetails {
+   return {
+      severity: 'info',
+      recoverable: true,
+      stopSampling: false,
+      message,
+      remedy,
+      color: MetaDataColors.kColorInfo
+   };
+}
+
+const kRestartWristUnit =
+   'Please restart the wrist unit by reconnecting to HNIBP interface.';
+const kRestartIfRepeated = 'Please restart the device if this keeps occurring.';
+const kInspectHardware = 'Please inspect your hardware configuration.';
+const kCheckAirHose = 'Please check the cuff air hose.';
+const kCheckCuffFit =
+   'May be because finger too cold, incorrect cuff size or bad cuff position.';
+const kCheckCooling =
+   'Please check convection possibilities around the wrist unit.';
+const kLedCurrent = 'Unable to set correct LED current.';
+const kPressureTooHigh =
+   'Pressure on the finger is too high, deflating for safety.';
+
+const kUnrecoverable = { recoverable: false };
+
+// see Finapres Nano Core Error Codes v2.0.0.1678
+const NIBPErrorCatalogue: Record<NIBPErrorCodes, IssueDetails> = {
+   [NIBPErrorCodes.NoError]: nanoInfo('No error'),
+   [NIBPErrorCodes.GeneralError]: nanoError(
+      'The Human NIBP has encountered an error.',
+      kRestartIfRepeated,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_LowControlVolt]: nanoError(
+      'LED control voltage too low.',
+      'Please check the wrist unit and restart the device.',
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_HighControlVolt]: nanoError(
+      kLedCurrent,
+      kInspectHardware,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_HighLedCurrent]: nanoError(
+      kLedCurrent,
+      kInspectHardware,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_TooManyIteratio]: nanoError(
+      kLedCurrent,
+      kInspectHardware,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_CurrBelowDrift]: nanoError(
+      'Finger cuff (or cuff cable) loose or not connected.',
+      'Please check the finger cuff and its cable.'
+   ),
+   [NIBPErrorCodes.LedContr_erro_CurrAboveDrift]: nanoError(
+      kLedCurrent,
+      kInspectHardware,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_VoltBelowRange]: nanoError(
+      kLedCurrent,
+      kInspectHardware,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.LedContr_erro_VoltAboveRange]: nanoError(
+      kLedCurrent,
+      kInspectHardware,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.Plethysm_erro_TooMuchLight]: nanoError(
+      'The infrared level transmitted through the finger is too high.',
+      'Try a smaller finger cuff.'
+   ),
+   [NIBPErrorCodes.PhysScan_erro_SyncBeatTimeOut]: nanoError(
+      'Odd plethysmogram detected, probably due to pressing the cuff or finger-tip.',
+      'Please keep the cuff and finger-tip free.'
+   ),
+   [NIBPErrorCodes.PhysScan_erro_ScanFailed]: nanoError(
+      'No blood pressure signal.',
+      kCheckCuffFit
+   ),
+   [NIBPErrorCodes.PhysScan_erro_BeatDownTimeOut]: nanoError(
+      'No plethysmogram detected.',
+      'Check proper application of the finger cuff.'
+   ),
+   [NIBPErrorCodes.PresMoni_erro_IncorrectPress]: nanoError(
+      'Cuff pressure error.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.PresMoni_erro_UnstablePress]: nanoError(
+      'Cuff pressure unstable.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.ManoBeDe_erro_PressTooLow]: nanoError(
+      'Cuff pressure too low.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.SignInMo_erro_MeanPressLow]: nanoError(
+      'Mean pressure has been below 10mmHg for 2.5s.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.SignInMo_erro_UnacceptableP]: nanoError(
+      'The plethysmogram values moved out of range. This may be a movement artifact.',
+      'Please minimize finger movement.'
+   ),
+   [NIBPErrorCodes.SignInMo_erro_MeanPressHigh]: nanoError(
+      'Mean pressure has been above 250 mmHg for 2.5s.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.PreContr_erro_CuffPreSensRang]: nanoError(
+      'Cuff pressure sensor out of range.',
+      'Check if the finger cuff is wrapped tight enough around the finger.'
+   ),
+   [NIBPErrorCodes.PreContr_erro_VolPreSensRang]: nanoError(
+      'Volume pressure sensor out of range.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.PreContr_erro_CuffPreExceed]: nanoError(
+      kPressureTooHigh,
+      kCheckCuffFit
+   ),
+   [NIBPErrorCodes.PreContr_erro_CuffPreExceLong]: nanoError(
+      'Mean pressure has been above 250 mmHg for 2.5s.',
+      kCheckAirHose
+   ),
+   [NIBPErrorCodes.PreContr_erro_VolPreExceed]: nanoError(
+      kPressureTooHigh,
+      kCheckCuffFit
+   ),
+   [NIBPErrorCodes.PreContr_erro_CurrExceedLong]: nanoError(
+      'Current exceeded for too long.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_VoltageSenseFailure]: nanoError(
+      'One of the internal voltages being monitored has failed.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_HcuRefSenseFailure]: nanoError(
+      'Monitoring the reference voltage of the HCU has failed.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_PletRefSenseFailure]: nanoError(
+      'Plethysmograph reference monitor failed.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_HouseTempSenseFailure]: nanoError(
+      'Housing temperature sensor error.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_cuffPressureSenseFailure]: nanoError(
+      'Cuff pressure sensor failure.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_volumePressureSenseFailure]: nanoError(
+      'Cuff pressure sensor failure.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_VoltageOutLimits]: nanoError(
+      'Supply voltage error.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_HcuRefOutLimits]: nanoError(
+      'Plethysmograph ref out of limits.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_PletRefOutLimits]: nanoError(
+      'Plethysmograph ref out of limits.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_cuffPressureSignalOffset]: nanoError(
+      'Pressure signal offset too large.',
+      kRestartWristUnit,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_volumePressureSignalOffset]: nanoError(
+      'Pressure signal offset too large.',
+      'Please keep the wrist unit stable during its start-up.',
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.SysIntgr_erro_pressureSensorTimeout]: nanoError(
+      'Plethysmograph ref out of limits.',
+      'Please keep the wrist unit stable during its start-up.',
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.missing_error_38]: nanoError(
+      'The Human NIBP has encountered an error.',
+      kRestartIfRepeated,
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.AppContr_erro_PressureToHigh]: nanoError(
+      kPressureTooHigh,
+      kCheckCuffFit
+   ),
+   [NIBPErrorCodes.AppContr_erro_caseTemperatureOutLimits]: nanoError(
+      'The housing of the wrist unit is too hot.',
+      kCheckCooling
+   ),
+   [NIBPErrorCodes.AppContr_erro_pcbTemperatureOutLimits]: nanoError(
+      'The processor of the wrist unit is too hot.',
+      kCheckCooling
+   ),
+   [NIBPErrorCodes.AppContr_erro_MeasurementToLong]: nanoError(
+      'The maximum time of 4 hours for measuring on a single cuff has exceeded.',
+      'Please switch to another cuff.'
+   ),
+   // HCU zeroing results, not actual errors
+   [NIBPErrorCodes.HcuContr_erro_hcuOffsetToBig]: nanoInfo(
+      'HCU offset too large.',
+      'Please retry zeroing.'
+   ),
+   [NIBPErrorCodes.HcuContr_erro_NotAllowed]: nanoInfo(
+      'HCU can not be zeroed during sampling.',
+      'Please stop recording if HCU zeroing is needed.'
+   ),
+   [NIBPErrorCodes.AppContr_erro_KeepAliveNotReceived]: nanoError(
+      'The Keep Alive package has not been received in time from LabChart.',
+      'Please check cables and restart the device and LabChart.',
+      kUnrecoverable
+   ),
+   [NIBPErrorCodes.Driver_erro_SensorFailed]: nanoError(
+      'A sensor in the wrist unit has failed.',
+      kRestartWristUnit,
+      kUnrecoverable
+   )
+};
+
+export function getErrorIssue(hwCode: number): INIBPIssue {
+   const code = getErrorCode(hwCode);
+   return { id: NIBPErrorCodes[code], ...NIBPErrorCatalogue[code] };
+}
+
+export interface INIBPWarningIssue extends INIBPIssue {
+   flag: WarningFlags;
+}
+
+// Warnings without the kHandleWarningFlag bit are only logged
+export const nanoWarnings: INIBPWarningIssue[] = [
+   { flag: WarningFlags.kNoWarning, ...nanoInfo('No warning') },
    {
       flag: WarningFlags.kGeneralWarning,
-      message: 'Unknown warning, please restart device if this keeps occurring.'
+      ...nanoWarning('Unknown warning.', kRestartIfRepeated)
    },
    {
       flag: WarningFlags.kPhysScan_warn_NewScanWithAHB,
-      message: 'PhysScan_warn_NewScanWithAHB'
+      ...nanoInfo('PhysScan_warn_NewScanWithAHB')
    },
    {
       flag: WarningFlags.kPhysAdju_warn_BeatUpTimeOut,
-      message: 'Physiocal error, please minimize finger movement.'
+      ...nanoWarning('Physiocal error.', 'Please minimize finger movement.')
    },
    {
       flag: WarningFlags.kPhysAdju_warn_BeatDownTimeOut,
-      message: 'Physiocal error, please minimize finger movement.'
+      ...nanoWarning('Physiocal error.', 'Please minimize finger movement.')
    },
    {
       flag: WarningFlags.kManoBeDe_warn_PulseVeryLow,
-      message: 'ManoBeDe_warn_PulseVeryLow'
+      ...nanoInfo('ManoBeDe_warn_PulseVeryLow')
    },
    {
+      // Promoted to an error because of its severity. The pump appears to keep
+      // working after this warning, but we could only make it occur with a
+      // whiteboard marker in the cuff. TODO: test if it is actually recoverable by
+      // switching to a second cuff with a real finger in it.
       flag: WarningFlags.kManoBeDe_warn_NoPulse,
-      message:
-         'No pulse detected. Finger could be too cold, cuff size incorrect or in bad position.'
+      ...nanoError(
+         'No pulse detected.',
+         'Finger could be too cold, cuff size incorrect or in bad position.',
+         kUnrecoverable
+      )
    },
    {
       flag: WarningFlags.kSignInMo_warn_DecreasePletSp,
-      message: 'SignInMo_warn_DecreasePletSp'
+      ...nanoInfo('SignInMo_warn_DecreasePletSp')
    },
    {
       flag: WarningFlags.kOsciCont_warn_DecreasePletSp,
-      message: 'OsciCont_warn_DecreasePletSp'
+      ...nanoInfo('OsciCont_warn_DecreasePletSp')
    },
    {
       flag: WarningFlags.kPreContr_warn_BadStart,
-      message: 'PreContr_warn_BadStart'
+      ...nanoInfo('PreContr_warn_BadStart')
    },
    {
       flag: WarningFlags.kPreContr_warn_I2T_Protection,
-      message: 'PreContr_warn_I2T_Protection'
+      ...nanoInfo('PreContr_warn_I2T_Protection')
    },
    {
       flag: WarningFlags.kPreContr_warn_HighCurrent,
-      message: 'PreContr_warn_HighCurrent'
+      ...nanoInfo('PreContr_warn_HighCurrent')
    },
    {
       flag: WarningFlags.kPreContr_warn_PlungerPosEnd,
-      message: 'PreContr_warn_PlungerPosEnd'
+      ...nanoInfo('PreContr_warn_PlungerPosEnd')
    },
    {
       flag: WarningFlags.kPreContr_warn_TrackingError,
-      message: 'PreContr_warn_TrackingError'
+      ...nanoInfo('PreContr_warn_TrackingError')
    },
    {
       flag: WarningFlags.kPreContr_warn_PowerLimit,
-      message: 'PreContr_warn_PowerLimit'
+      ...nanoInfo('PreContr_warn_PowerLimit')
    },
    {
       flag: WarningFlags.kSysIntgr_warn_PressureSensorTrend,
-      message: 'SysIntgr_warn_PressureSensorTrend'
+      ...nanoInfo('SysIntgr_warn_PressureSensorTrend')
    },
    {
       flag: WarningFlags.kAppContr_warn_MeasurementLong,
-      message: 'Same cuff for 1.5 hours, please switch cuffs.'
+      ...nanoWarning('Same cuff for 1.5 hours.', 'Please switch cuffs.')
    },
    {
       flag: WarningFlags.kModFlow_warn_BraCalLong,
-      message: 'ModFlow_warn_BraCalLong'
+      ...nanoInfo('ModFlow_warn_BraCalLong')
    },
    {
       flag: WarningFlags.kModFlow_warn_BraCalLongAborted,
-      message: 'ModFlow_warn_BraCalLongAborted'
+      ...nanoInfo('ModFlow_warn_BraCalLongAborted')
+   }
+].map((warning) => ({ id: WarningFlags[warning.flag], ...warning }));
+
+export type NIBPHostIssue =
+   | 'watchDog'
+   | 'ioError'
+   | 'errorMode'
+   | 'hcuNotZeroed';
+
+// Issues found by the driver rather than reported by the Nano
+export const NIBPHostIssues: Record<NIBPHostIssue, INIBPIssue> = {
+   watchDog: {
+      id: 'hNIBPWatchDog',
+      ...nanoError(
+         'LabChart Lightning has lost communication with the wrist unit.',
+         'Please check it is connected.'
+      )
+   },
+   ioError: {
+      id: 'Unexpected IO Error',
+      ...nanoError(
+         'Unexpected IO error.',
+         'Please check device is plugged in correctly.',
+         kUnrecoverable
+      )
+   },
+   errorMode: {
+      id: 'NanoErrorMode',
+      ...nanoError(
+         'The Human NIBP has encountered an error.',
+         kRestartIfRepeated,
+         kUnrecoverable
+      )
+   },
+   hcuNotZeroed: {
+      id: 'HCUNOTZEROED',
+      ...nanoWarning(
+         'HCU not zeroed.',
+         'Zero the HCU to record height corrected pressures.'
+      )
    }
-];
+};
+
+export interface INIBPIssueTranslation {
+   message?: string;
+   remedy?: string;
+}
+
+// Keyed by INIBPIssue.id, see setIssueTranslations()
+let issueTranslations: Record<string, INIBPIssueTranslation> = {};
+
+/**
+ * Replaces the English text of the issues with translations, e.g. loaded for the
+ * user's language. Issues without a translation stay in English.
+ */
+export function setIssueTranslations(
+   translations: Record<string, INIBPIssueTranslation>
+) {
+   issueTranslations = translations;
+}
+
+/**
+ * @returns the issue's message followed by its remedy, in the user's language
+ */
+export function describeIssue(issue: INIBPIssue) {
+   const translation = issueTranslations[issue.id];
+   return [
+      translation?.message ?? issue.message,
+      translation?.remedy ?? issue.remedy
+   ]
+      .filter((text) => !!text)
+      .join(' ');
+}
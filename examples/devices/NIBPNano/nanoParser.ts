@@ -1,4 +1,11 @@
-import { IDataSink, IDuplexStream } from '../../../public/device-api';
+import {
+   BlockDataFormat,
+   IDataSink,
+   IDuplexStream,
+   MetaDataColors
+} from '../../../public/device-api';
+import { ParserStats } from '../../../public/parser-stats';
+import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
 import {
    PacketType,
    CuffMode,
@@ -17,10 +24,7 @@ import {
    kCmdBytePacketOffset,
    kDataSamplesPerStatusSample,
    kPhysiocalOffBeats,
-   kBeatIntegerScalingFactor,
-   kCalIntegerScalingFactor,
-   kCuffCountdownIntegerScalingFactor,
-   kActiveCuffIntegerScalingFactor,
+   kIntegerScalingFactors,
    kBaseVersionInfo,
    VersionPacketType,
    PacketLength,
@@ -29,16 +33,42 @@ import {
 import { ProxyDevice } from './proxy';
 import { INIBPSettings } from './settings';
 import { CheckCRC, findVersionInfoData } from './utils';
+import { createBeat } from './beatEvents';
 import {
-   NIBPErrors,
-   nanoWarningsArray,
+   nanoWarnings,
    kHandleWarningFlag,
-   WarningFlags,
-   getErrorCode,
-   NIBPErrorCodes
+   getErrorIssue,
+   describeIssue,
+   INIBPIssue,
+   NIBPErrorCodes,
+   NIBPHostIssues
 } from './errorMessages';
 import { debugLog, kLogAllWarnings } from './enableLogging';
 
+/**
+ * Cuff and auto-calibration state shown in the device settings UI, see
+ * ProxyDevice.getCuffStatus().
+ */
+export interface INIBPCuffStatus {
+   activeCuff: number;
+   // From the kCuffCountdown and kAutoCalCountdown streams
+   cuffCountdownSecs: number;
+   autoCalCountdownBeats: number;
+   // Beats until auto-calibration is re-enabled, 0 if it is not deferred
+   autoCalDeferredBeats: number;
+   measurementSuspended: boolean;
+}
+
+/**
+ * A period after an error during which sampling continues without data from the Nano.
+ */
+interface INIBPErrorGap {
+   issue: INIBPIssue;
+   startms: number;
+   // kStartMeasure has been sent to resume measuring, see recoverFromErrorGap()
+   restartRequested: boolean;
+}
+
 enum SamplingState {
    kIdle,
    kSampling
@@ -58,6 +88,8 @@ const kDisplayNanoWarnings = false;
 export class NanoParser {
    samplingState: SamplingState;
    lastError = '';
+   //Link quality statistics, reset when sampling starts
+   stats = new ParserStats();
    proxyDevice: IDataSink | ProxyDevice | null = null;
    inStream: IDuplexStream;
    deviceName: string;
@@ -67,6 +99,10 @@ export class NanoParser {
    statusPadSampleCount: number;
 
    lastB2bTimeStamp: number;
+   // Set when measurement resumes, as the beat timestamps may have jumped
+   resyncB2bTimeStamp: boolean;
+   // Samples written to the beat-to-beat streams since sampling started
+   b2bSampleCount: number;
 
    _lastSYSdata: number;
    _lastMAPdata: number;
@@ -91,13 +127,24 @@ export class NanoParser {
    haveWarnedHCUNotZeroed: boolean;
 
    criticalError: boolean;
-   raisedErrors: number[];
-   raisedWarnings: number[];
+   // INIBPIssue ids, see raiseIssue()
+   raisedErrors: string[];
+   raisedWarnings: string[];
    raisedWarningTimestamps: number[];
 
    lastStatusMode: NanoModes;
    lastPhysiocalState: PhysiocalState;
    enablePhysioCal: boolean;
+   // Beat at which auto-calibration is re-enabled, 0 if it is not deferred
+   autoCalResumeBeat: number;
+   // Set while the cuffs are deflated during sampling, see suspendMeasurement()
+   measurementSuspended: boolean;
+   measurementSuspendedms: number;
+
+   // Set while sampling continues after an error, see startErrorGap()
+   errorGap: INIBPErrorGap | null;
+   // Set after a gap until the next beat, as the last beat is from before the gap
+   staleBeat: boolean;
 
    HGTValuesBetweenBeat: number[];
    _lastHeightAverage: number;
@@ -113,48 +160,51 @@ export class NanoParser {
 
    watchDogTimeout: NodeJS.Timeout;
 
-   get lastHeightAverageScaled() {
-      return this._lastHeightAverage * kBeatIntegerScalingFactor;
+   // The recording's output format, see writeOutStream()
+   dataFormat: BlockDataFormat;
+
+   get lastHeightAverage() {
+      return this._lastHeightAverage;
    }
 
-   // Scaled data accessors
-   get lastSysDataScaled() {
-      return this._lastSYSdata * kBeatIntegerScalingFactor;
+   // Data accessors
+   get lastSysData() {
+      return this._lastSYSdata;
    }
-   get lastMAPDataScaled() {
-      return this._lastMAPdata * kBeatIntegerScalingFactor;
+   get lastMAPData() {
+      return this._lastMAPdata;
    }
-   get lastDiaDataScaled() {
-      return this._lastDIAdata * kBeatIntegerScalingFactor;
+   get lastDiaData() {
+      return this._lastDIAdata;
    }
 
-   get lastHRDataBper10minScaled() {
-      return this._lastHRdataBper10min * kBeatIntegerScalingFactor;
+   get lastHRDataBper10min() {
+      return this._lastHRdataBper10min;
    }
 
-   get lastIBIDataScaled() {
-      return this._lastIBIdata * kBeatIntegerScalingFactor;
+   get lastIBIData() {
+      return this._lastIBIdata;
    }
 
-   get lastActiveCuffScaled() {
-      return this._lastActiveCuff * kActiveCuffIntegerScalingFactor;
+   get lastActiveCuff() {
+      return this._lastActiveCuff;
    }
-   get lastCuffCountdownSecsScaled() {
-      return this._lastCuffCountdownSecs * kCuffCountdownIntegerScalingFactor;
+   get lastCuffCountdownSecs() {
+      return this._lastCuffCountdownSecs;
    }
-   get lastAutoCalCountdownDataScaled() {
-      return this._lastAutoCalCountdowndata * kCalIntegerScalingFactor;
+   get lastAutoCalCountdownData() {
+      return this._lastAutoCalCountdowndata;
    }
 
-   // Height corrected scaled data accessors
-   get hcLastSysDataScaled() {
-      return this.lastSysDataScaled + this.lastHeightAverageScaled;
+   // Height corrected data accessors
+   get hcLastSysData() {
+      return this.lastSysData + this.lastHeightAverage;
    }
-   get hcLastMAPDataScaled() {
-      return this.lastMAPDataScaled + this.lastHeightAverageScaled;
+   get hcLastMAPData() {
+      return this.lastMAPData + this.lastHeightAverage;
    }
-   get hcLastDiaDataScaled() {
-      return this.lastDiaDataScaled + this.lastHeightAverageScaled;
+   get hcLastDiaData() {
+      return this.lastDiaData + this.lastHeightAverage;
    }
 
    constructor(
@@ -179,6 +229,8 @@ export class NanoParser {
       this.statusPadSampleCount = 0;
 
       this.lastB2bTimeStamp = 0;
+      this.resyncB2bTimeStamp = false;
+      this.b2bSampleCount = 0;
 
       this._lastSYSdata = 0;
       this._lastMAPdata = 0;
@@ -216,6 +268,14 @@ export class NanoParser {
 
       this.continueOnError = false;
 
+      this.autoCalResumeBeat = 0;
+      this.measurementSuspended = false;
+      this.measurementSuspendedms = 0;
+      this.errorGap = null;
+      this.staleBeat = false;
+
+      this.dataFormat = BlockDataFormat.k16BitBlockDataFormat;
+
       this.inStream.setDefaultEncoding('binary');
       this.inStream.on('error', this.onError);
       this.inStream.on('data', this.onData);
@@ -229,15 +289,54 @@ export class NanoParser {
     * @param data
     */
    writeOutStream(channel: NanoChannels, data: number) {
+      if (this.dataFormat === BlockDataFormat.k16BitBlockDataFormat) {
+         // Scaled for autoscale, see kIntegerScalingFactors
+         data *= kIntegerScalingFactors[channel];
+      }
       this.proxyDevice?.outStreamBuffers[channel]?.writeValue?.(data);
    }
 
+   // Set during an error gap or while measurement is suspended, when there are no
+   // measurements from the Nano
+   get inDataGap() {
+      return !!this.errorGap || this.measurementSuspended;
+   }
+
+   /**
+    * Write a padding sample, which is out of range during a data gap so Lightning
+    * shows it as a gap rather than as a measurement
+    */
+   padOutStream(
+      channel: NanoChannels,
+      data: number,
+      outOfRange = this.inDataGap
+   ) {
+      const buffer = this.proxyDevice?.outStreamBuffers[channel];
+      if (outOfRange && buffer instanceof StreamRingBufferImpl)
+         buffer.writeValue(buffer.outOfRangeValue);
+      else this.writeOutStream(channel, data);
+   }
+
+   // Repeats the last beat in the beat-to-beat streams
+   padLastBeat() {
+      const outOfRange = this.inDataGap || this.staleBeat;
+      this.padOutStream(NanoChannels.kSYS, this.lastSysData, outOfRange);
+      this.padOutStream(NanoChannels.kSYSHC, this.hcLastSysData, outOfRange);
+      this.padOutStream(NanoChannels.kMAP, this.lastMAPData, outOfRange);
+      this.padOutStream(NanoChannels.kMAPHC, this.hcLastMAPData, outOfRange);
+      this.padOutStream(NanoChannels.kDIA, this.lastDiaData, outOfRange);
+      this.padOutStream(NanoChannels.kDIAHC, this.hcLastDiaData, outOfRange);
+      this.padOutStream(NanoChannels.kHR, this.lastHRDataBper10min, outOfRange);
+      this.padOutStream(NanoChannels.kIBI, this.lastIBIData, outOfRange);
+   }
+
    /**
     * Settings API
     */
    setAutocalibrationEnabled(enabled: boolean) {
       // have to remember this, see onData
       this.enablePhysioCal = enabled;
+      this.autoCalResumeBeat = 0;
 
       if (!!this.lastPhysiocalState == enabled)
          // > kPhysiocalOff = 0x00
@@ -281,6 +380,169 @@ export class NanoParser {
       this.continueOnError = enabled;
    }
 
+   /**
+    * Cuff control API
+    */
+
+   /**
+    * Disables auto-calibration (Physiocal) for the next beats, e.g. during a
+    * protocol step, then re-enables it. The Nano has no command for this, so the
+    * beats are counted here.
+    *
+    * @param beats 0 re-enables auto-calibration now
+    * @returns false if not sampling or auto-calibration is off
+    */
+   deferAutocalibration(beats: number) {
+      if (!this.isSampling() || !this.enablePhysioCal) return false;
+
+      if (beats > 0) {
+         this.inStream.write(NanoTxSampCmds.kDisablePhysioCal);
+         this.autoCalResumeBeat = this.beat2BPacketCount + beats;
+      } else if (this.autoCalResumeBeat) {
+         this.resumeAutocalibration();
+      }
+
+      return true;
+   }
+
+   resumeAutocalibration() {
+      this.autoCalResumeBeat = 0;
+      if (this.enablePhysioCal)
+         this.inStream.write(NanoTxSampCmds.kEnablePhysioCal);
+   }
+
+   /**
+    * Deflates the cuffs without stopping sampling. The streams are filled with out of
+    * range samples, bracketed by start and end annotations, until resumeMeasurement()
+    * is called.
+    *
+    * @returns false if the Nano is not measuring yet or is already suspended
+    */
+   suspendMeasurement() {
+      // Padding needs the time the first data packet arrived
+      if (!this.isSampling() || !this.dataPadTimerms) return false;
+      if (this.measurementSuspended) return false;
+
+      this.inStream.write(NanoTxSampCmds.kStopMeasure);
+      this.measurementSuspended = true;
+      this.measurementSuspendedms = performance.now();
+
+      if (this.proxyDevice instanceof ProxyDevice) {
+         this.proxyDevice.addAnnotation(
+            'Data gap start: Measurement suspended',
+            MetaDataColors.kColorInfo
+         );
+      }
+      return true;
+   }
+
+   resumeMeasurement() {
+      if (!this.isSampling() || !this.measurementSuspended) return false;
+
+      // Fill the streams up to now, as the Nano may have stopped sending packets
+      this.padSuspendedMeasurement();
+      this.measurementSuspended = false;
+      this.staleBeat = true;
+      this.resyncB2bTimeStamp = true;
+      this.lastUpdateTimems = performance.now();
+      this.annotateGapEnd(this.measurementSuspendedms);
+
+      this.inStream.write(NanoTxSampCmds.kStartMeasure);
+      return true;
+   }
+
+   padSuspendedMeasurement() {
+      this.padDataTransmissionPacketData();
+      this.padBeatToBeatDataTransmissionPacketData();
+      this.padLowRateStatusData();
+      this.proxyDevice?.onSamplingUpdate();
+   }
+
+   /**
+    * Keeps sampling after an error, as LC8 does. The Nano is stopped and the streams
+    * are filled with out of range samples, so the gap can not be mistaken for
+    * measurements, until the Nano is measuring again. Start and end annotations
+    * bracket the gap.
+    */
+   startErrorGap(issue: INIBPIssue) {
+      if (this.errorGap) return;
+
+      // The watch dog keeps padding the gap if the Nano stops sending packets
+      this.exitCurrentMode();
+      this.errorGap = {
+         issue,
+         startms: performance.now(),
+         restartRequested: false
+      };
+
+      if (this.proxyDevice instanceof ProxyDevice) {
+         this.proxyDevice.addAnnotation(
+            'Data gap start: ' + describeIssue(issue),
+            issue.color
+         );
+      }
+   }
+
+   // Called for each status packet without errors during an error gap
+   recoverFromErrorGap() {
+      if (!this.errorGap) return;
+
+      if (this.lastStatusMode === NanoModes.Measure) {
+         this.endErrorGap();
+      } else if (
+         this.lastStatusMode === NanoModes.Idle &&
+         this.errorGap.issue.recoverable &&
+         !this.errorGap.restartRequested
+      ) {
+         // Only once, in case the error keeps happening
+         this.inStream.write(NanoTxSampCmds.kStartMeasure);
+         this.errorGap.restartRequested = true;
+      }
+   }
+
+   endErrorGap() {
+      if (!this.errorGap) return;
+
+      // Fill the gap up to now, before the Nano's data resumes
+      this.padDataTransmissionPacketData();
+      this.padBeatToBeatDataTransmissionPacketData();
+      this.padLowRateStatusData();
+
+      const { startms } = this.errorGap;
+      this.errorGap = null;
+      this.criticalError = false;
+      this.staleBeat = true;
+      this.resyncB2bTimeStamp = true;
+      this.lastUpdateTimems = performance.now();
+      this.annotateGapEnd(startms);
+      this.checkWatchDog();
+   }
+
+   annotateGapEnd(startms: number) {
+      if (this.proxyDevice instanceof ProxyDevice) {
+         const gapSecs = (performance.now() - startms) / 1000;
+         this.proxyDevice.addAnnotation(
+            `Data gap end after ${gapSecs.toFixed(1)} s`,
+            MetaDataColors.kColorInfo
+         );
+      }
+   }
+
+   cuffStatus(): INIBPCuffStatus {
+      return {
+         activeCuff: this._lastActiveCuff,
+         cuffCountdownSecs: Math.max(
+            0,
+            Math.round(this._lastCuffCountdownSecs)
+         ),
+         autoCalCountdownBeats: this._lastAutoCalCountdowndata,
+         autoCalDeferredBeats: this.autoCalResumeBeat
+            ? Math.max(0, this.autoCalResumeBeat - this.beat2BPacketCount)
+            : 0,
+         measurementSuspended: this.measurementSuspended
+      };
+   }
+
    isSampling() {
       return this.samplingState == SamplingState.kSampling;
    }
@@ -293,9 +555,8 @@ export class NanoParser {
          this.lastError.includes('IO Exception')
       ) {
          this.proxyDevice.displayError(
-            'Unexpected IO error, please check device is plugged in correctly.',
-            !this.continueOnError,
-            'Unexpected IO Error'
+            NIBPHostIssues.ioError,
+            this.continueOnError
          );
       }
       console.error(err);
@@ -328,7 +589,9 @@ export class NanoParser {
       if (!this.inStream || !this.proxyDevice) return false;
 
       settings.sendToHardware();
+      this.dataFormat = settings.outputFormat.value as BlockDataFormat;
 
+      this.stats.reset();
       this.expectedDataTransmissionTimeStamp = 0;
       this.expectedStatusTimeStamp = 0;
 
@@ -345,6 +608,8 @@ export class NanoParser {
       this.dataPadTimerms = 0;
 
       this.lastB2bTimeStamp = 0;
+      this.resyncB2bTimeStamp = false;
+      this.b2bSampleCount = 0;
 
       this._lastSYSdata = 0;
       this._lastMAPdata = 0;
@@ -364,6 +629,11 @@ export class NanoParser {
       this.raisedWarningTimestamps = [];
       this.haveWarnedHCUNotZeroed = false;
 
+      this.autoCalResumeBeat = 0;
+      this.measurementSuspended = false;
+      this.errorGap = null;
+      this.staleBeat = false;
+
       this.inStream.write(NanoTxSampCmds.kStartMeasure);
       this.samplingState = SamplingState.kSampling;
       this.proxyDevice.onSamplingStarted();
@@ -382,47 +652,33 @@ export class NanoParser {
 
       if (this.isSampling()) {
          const nowMs = performance.now();
-         if (nowMs - this.lastUpdateTimems > kWatchDogPeriodms) {
-            if (this.proxyDevice instanceof ProxyDevice) {
-               this.proxyDevice.displayError(
-                  'LabChart Lightning has lost communication with the wrist unit. Please check it is connected',
-                  !this.continueOnError,
-                  'hNIBPWatchDog'
-               );
-            }
-         } else {
-            this.watchDogTimeout = setTimeout(() => {
-               this.checkWatchDog();
-            }, kWatchDogPeriodms);
+         // The Nano may stop sending packets while measurement is suspended or
+         // during an error gap
+         if (
+            nowMs - this.lastUpdateTimems > kWatchDogPeriodms &&
+            !this.measurementSuspended &&
+            !this.errorGap
+         ) {
+            this.raiseIssue(NIBPHostIssues.watchDog);
+            if (!this.continueOnError) return;
+
+            // Ends once the Nano's status packets resume, see recoverFromErrorGap()
+            this.startErrorGap(NIBPHostIssues.watchDog);
          }
+
+         if (this.measurementSuspended || this.errorGap)
+            this.padSuspendedMeasurement();
+
+         this.watchDogTimeout = setTimeout(() => {
+            this.checkWatchDog();
+         }, kWatchDogPeriodms);
       }
    }
 
-   stopSampling(err = '', contOnErr = false) {
+   stopSampling(err = '') {
       this.exitCurrentMode();
       clearTimeout(this.watchDogTimeout);
-
-      if (contOnErr) {
-         // zerofy the padded data
-         this._lastSYSdata = 0;
-         this._lastMAPdata = 0;
-         this._lastDIAdata = 0;
-         this._lastHRdataBper10min = 0;
-         this._lastIBIdata = 0;
-         this._lastActiveCuff = 0;
-         this.lastCuffCountdownMins = -1;
-         this._lastCuffCountdownSecs = 0;
-         this._lastAutoCalCountdowndata = 0;
-         return false;
-      }
-
-      // TODO: this doesn't work currently, we ideally want to pad out
-      // the rest of the channel as LC8 does. the B2b data comes aperiodically
-      // LC8 does this by: sampling for another second after the user clicks 'Stop'
-      //  and then truncating the end of the data shown in the chart view
-      // this.padBeatToBeatDataTransmissionPacketData();
-      // if (this.proxyDevice) this.proxyDevice.onSamplingUpdate();
-
+      this.errorGap = null;
       this.samplingState = SamplingState.kIdle;
 
       if (!this.inStream) return false;
@@ -434,6 +690,7 @@ export class NanoParser {
 
    onData = (inBuffer: Buffer) => {
       if (!inBuffer.length) return;
+      this.stats.onChunk(inBuffer.length);
 
       if (this.mBuffer != null) {
          const bytes = [this.mBuffer, inBuffer];
@@ -451,6 +708,10 @@ export class NanoParser {
          // TODO: cut up the packet...
          if (!this.confirmPacket(this.mBuffer, byte, itr)) continue;
 
+         // any bytes since the end of the previous packet were skipped
+         this.stats.onJunk(itr - kCmdBytePacketOffset - nextPacketStart);
+         this.stats.onPacket(byte);
+
          switch (byte) {
             case PacketType.DataTransmission: // if isSampling()
                nextPacketStart = this.processDataTransmissionPacket(
@@ -494,7 +755,7 @@ export class NanoParser {
 
       if (!this.isSampling()) return;
 
-      if (this.criticalError && this.continueOnError) {
+      if (this.errorGap || this.measurementSuspended) {
          this.padDataTransmissionPacketData();
          this.padBeatToBeatDataTransmissionPacketData();
       }
@@ -527,7 +788,9 @@ export class NanoParser {
          nowMilliseconds - this.lastKeepAliveTimems >
          kMinimumKeepAlivePeriodms
       ) {
-         if (!this.criticalError) this.inStream.write(NanoTxSampCmds.kAlive);
+         // The Nano needs keep alives to resume measuring after an error
+         if (!this.criticalError || this.errorGap?.issue.recoverable)
+            this.inStream.write(NanoTxSampCmds.kAlive);
 
          this.lastKeepAliveTimems = nowMilliseconds;
       }
@@ -539,16 +802,19 @@ export class NanoParser {
          return; // Something has gone terribly wrong
       }
 
+      // No data yet to pad from
+      if (!this.dataPadTimerms) return;
+
       const totalExpectedSamples =
          ((performance.now() - this.dataPadTimerms) *
             kSupportedSamplesPerSec[0]) /
          1000;
 
       while (this.dataSampleSampleCount < totalExpectedSamples - 1) {
-         this.writeOutStream(NanoChannels.kBP, 0);
-         this.writeOutStream(NanoChannels.kBPHC, 0);
-         this.writeOutStream(NanoChannels.kHGT, 0);
-         this.writeOutStream(NanoChannels.kQualLevel, 0);
+         this.padOutStream(NanoChannels.kBP, 0);
+         this.padOutStream(NanoChannels.kBPHC, 0);
+         this.padOutStream(NanoChannels.kHGT, 0);
+         this.padOutStream(NanoChannels.kQualLevel, 0);
 
          ++this.dataSampleSampleCount;
          ++this.statusPadSampleCount;
@@ -613,9 +879,11 @@ export class NanoParser {
 
       const crc = byteArray[cmdpos + crcOffset];
 
-      if (!CheckCRC(dataPacket, crc))
+      if (!CheckCRC(dataPacket, crc)) {
          // TODO: do something?
+         this.stats.onChecksumFailure();
          console.warn('CRC did not match Caculated CRC for: ' + dataPacket);
+      }
    }
 
    /**
@@ -637,8 +905,13 @@ export class NanoParser {
 
       let currentTimeStamp = byteArray.readUInt16LE(dcmdPos + 1);
 
-      if (!this.lastB2bTimeStamp && !this.beat2BPacketCount)
+      if (
+         (!this.lastB2bTimeStamp && !this.beat2BPacketCount) ||
+         this.resyncB2bTimeStamp
+      ) {
          this.lastB2bTimeStamp = currentTimeStamp;
+         this.resyncB2bTimeStamp = false;
+      }
 
       if (
          this.expectedDataTransmissionTimeStamp &&
@@ -667,16 +940,8 @@ export class NanoParser {
 
       this.writeOutStream(NanoChannels.kBP, BPdataDecimmHg);
       this.writeOutStream(NanoChannels.kBPHC, BPdataDecimmHg + HGTdataDecimmHg);
-
-      // These values are scaled for autoscale
-      this.writeOutStream(
-         NanoChannels.kHGT,
-         HGTdataDecimmHg * kBeatIntegerScalingFactor
-      );
-      this.writeOutStream(
-         NanoChannels.kQualLevel,
-         qualityLevel * kCalIntegerScalingFactor
-      );
+      this.writeOutStream(NanoChannels.kHGT, HGTdataDecimmHg);
+      this.writeOutStream(NanoChannels.kQualLevel, qualityLevel);
 
       ++this.beat2BPadSampleCount;
       ++this.statusPadSampleCount;
@@ -711,6 +976,12 @@ export class NanoParser {
 
       ++this.beat2BPacketCount; // used for physioCal setting
 
+      if (
+         this.autoCalResumeBeat &&
+         this.beat2BPacketCount >= this.autoCalResumeBeat
+      )
+         this.resumeAutocalibration();
+
       // no sample count check as these packets arrive aperiodically
       this.runCheckCRC(byteArray, bcmdPos, NanoRxSampCmds.kBeat2bCmdHead[1]);
 
@@ -720,16 +991,10 @@ export class NanoParser {
 
       // retroactively fill in beat2Beat data with latest data
       while (this.lastB2bTimeStamp < B2bTimestamp) {
-         this.writeOutStream(NanoChannels.kSYS, this.lastSysDataScaled);
-         this.writeOutStream(NanoChannels.kSYSHC, this.hcLastSysDataScaled);
-         this.writeOutStream(NanoChannels.kMAP, this.lastMAPDataScaled);
-         this.writeOutStream(NanoChannels.kMAPHC, this.hcLastMAPDataScaled);
-         this.writeOutStream(NanoChannels.kDIA, this.lastDiaDataScaled);
-         this.writeOutStream(NanoChannels.kDIAHC, this.hcLastDiaDataScaled);
-         this.writeOutStream(NanoChannels.kHR, this.lastHRDataBper10minScaled);
-         this.writeOutStream(NanoChannels.kIBI, this.lastIBIDataScaled);
+         this.padLastBeat();
 
          ++this.lastB2bTimeStamp;
+         ++this.b2bSampleCount;
          --this.beat2BPadSampleCount; // used for continueOnError
       }
 
@@ -741,11 +1006,25 @@ export class NanoParser {
       this._lastMAPdata = byteArray.readUInt16LE(bcmdPos + 8);
       this._lastHRdataBper10min = byteArray.readUInt16LE(bcmdPos + 10);
       this._lastIBIdata = byteArray.readUInt16LE(bcmdPos + 12);
+      this.staleBeat = false;
 
       // apply height correction
       this._lastHeightAverage = this.calcHeightAverage();
       this.HGTValuesBetweenBeat = [];
 
+      if (this.proxyDevice instanceof ProxyDevice) {
+         this.proxyDevice.onBeat(
+            createBeat(this.beat2BPacketCount, this.b2bSampleCount, {
+               sys: this._lastSYSdata,
+               map: this._lastMAPdata,
+               dia: this._lastDIAdata,
+               heightAverage: this._lastHeightAverage,
+               hrBper10min: this._lastHRdataBper10min,
+               ibims: this._lastIBIdata
+            })
+         );
+      }
+
       return (
          bcmdPos +
          PacketLength[PacketType.Beat2BDataTransmission] -
@@ -837,14 +1116,14 @@ export class NanoParser {
             cuffCountdownMins * 60 - (nowSec - this.cuffStartTimeStamp);
       }
 
-      this.writeOutStream(NanoChannels.kActiveCuff, this.lastActiveCuffScaled);
+      this.writeOutStream(NanoChannels.kActiveCuff, this.lastActiveCuff);
       this.writeOutStream(
          NanoChannels.kCuffCountdown,
-         this.lastCuffCountdownSecsScaled
+         this.lastCuffCountdownSecs
       );
       this.writeOutStream(
          NanoChannels.kAutoCalCountdown,
-         this.lastAutoCalCountdownDataScaled
+         this.lastAutoCalCountdownData
       );
 
       --this.statusPadSampleCount;
@@ -918,15 +1197,9 @@ export class NanoParser {
 
       // this is used only when continue on error is true
       while (this.beat2BPadSampleCount > 0) {
-         this.writeOutStream(NanoChannels.kSYS, this.lastSysDataScaled);
-         this.writeOutStream(NanoChannels.kSYSHC, this.hcLastSysDataScaled);
-         this.writeOutStream(NanoChannels.kMAP, this.lastMAPDataScaled);
-         this.writeOutStream(NanoChannels.kMAPHC, this.hcLastMAPDataScaled);
-         this.writeOutStream(NanoChannels.kDIA, this.lastDiaDataScaled);
-         this.writeOutStream(NanoChannels.kDIAHC, this.hcLastDiaDataScaled);
-         this.writeOutStream(NanoChannels.kHR, this.lastHRDataBper10minScaled);
-         this.writeOutStream(NanoChannels.kIBI, this.lastIBIDataScaled);
+         this.padLastBeat();
 
+         ++this.b2bSampleCount;
          --this.beat2BPadSampleCount;
       }
    }
@@ -936,17 +1209,14 @@ export class NanoParser {
 
       // Upsample status data to pressure data
       while (this.statusPadSampleCount > 0) {
-         this.writeOutStream(
-            NanoChannels.kActiveCuff,
-            this.lastActiveCuffScaled
-         );
-         this.writeOutStream(
+         this.padOutStream(NanoChannels.kActiveCuff, this.lastActiveCuff);
+         this.padOutStream(
             NanoChannels.kCuffCountdown,
-            this.lastCuffCountdownSecsScaled
+            this.lastCuffCountdownSecs
          );
-         this.writeOutStream(
+         this.padOutStream(
             NanoChannels.kAutoCalCountdown,
-            this.lastAutoCalCountdownDataScaled
+            this.lastAutoCalCountdownData
          );
 
          --this.statusPadSampleCount;
@@ -1011,95 +1281,24 @@ export class NanoParser {
          this.proxyDevice instanceof ProxyDevice
       ) {
          this.haveWarnedHCUNotZeroed = true;
-         this.proxyDevice.displayWarn('HCU not zeroed', 'HCUNOTZEROED', true);
+         this.proxyDevice.displayWarn(NIBPHostIssues.hcuNotZeroed, true);
       }
 
-      let errorStr = '';
+      const issues: INIBPIssue[] = [];
 
-      if (this.lastStatusError != 0) {
-         const lastErrorCode = getErrorCode(this.lastStatusError);
-         if (
-            this.lastStatusError !==
-               NIBPErrorCodes.HcuContr_erro_hcuOffsetToBig &&
-            this.lastStatusError !== NIBPErrorCodes.HcuContr_erro_NotAllowed
-         ) {
-            // HCU zeroing related, not actual errors
-            if (this.proxyDevice instanceof ProxyDevice) {
-               if (!this.raisedErrors.includes(this.lastStatusError)) {
-                  this.proxyDevice.displayError(
-                     NIBPErrors[lastErrorCode],
-                     !this.continueOnError,
-                     NIBPErrorCodes[lastErrorCode]
-                  );
-
-                  this.raisedErrors.push(this.lastStatusError);
-               }
+      if (this.lastStatusError != 0)
+         issues.push(getErrorIssue(this.lastStatusError));
 
-               console.error(
-                  this.deviceName + ' - ' + NIBPErrors[lastErrorCode]
-               );
-            }
-
-            this.criticalError = true;
-         }
-
-         errorStr = NIBPErrors[lastErrorCode];
-      }
-
-      if (
-         this.lastStatusMode == NanoModes.Error &&
-         !this.raisedErrors.includes(this.lastStatusMode)
-      ) {
-         this.criticalError = true;
-         this.raisedErrors.push(this.lastStatusMode);
-         errorStr = 'The Human NIBP has encountered an error.';
-      }
+      if (this.lastStatusMode == NanoModes.Error)
+         issues.push(NIBPHostIssues.errorMode);
 
       if (this.lastStatusWarning != 0) {
-         for (const nanoWarning of nanoWarningsArray) {
+         for (const nanoWarning of nanoWarnings) {
             if (
                nanoWarning.flag & kHandleWarningFlag &&
                nanoWarning.flag & this.lastStatusWarning
             ) {
-               if (!this.raisedWarnings.includes(nanoWarning.flag)) {
-                  // promote this particular warning to an error because of it's severity
-                  if (nanoWarning.flag == WarningFlags.kManoBeDe_warn_NoPulse) {
-                     // this is an interesting one, the pump appears to keep working after this warning
-                     // has occured however it's hard to test as we could only get this to occur with
-                     // have a whiteboard marker positioned correctly, TODO: test if it is actually recoverable...
-                     // need 2 cuffs, and to switch to cuff 2 with a real finger in it after cuff 1 runs into this issue
-                     this.criticalError = true;
-                     errorStr = nanoWarning.message;
-
-                     if (this.proxyDevice instanceof ProxyDevice) {
-                        if (!this.raisedErrors.includes(nanoWarning.flag)) {
-                           this.proxyDevice.displayError(
-                              nanoWarning.message,
-                              !this.continueOnError,
-                              nanoWarning.flag.toString()
-                           );
-                           this.raisedErrors.push(nanoWarning.flag);
-
-                           console.error(
-                              this.deviceName + ' - ' + nanoWarning.message
-                           );
-                        }
-                     }
-                  } else {
-                     if (
-                        this.proxyDevice instanceof ProxyDevice &&
-                        !this.criticalError // no point annotating errorenous warnings
-                     ) {
-                        this.proxyDevice.displayWarn(
-                           nanoWarning.message,
-                           nanoWarning.flag.toString(),
-                           kDisplayNanoWarnings
-                        );
-                     }
-                  }
-                  this.raisedWarnings.push(nanoWarning.flag);
-                  this.raisedWarningTimestamps.push(performance.now());
-               }
+               issues.push(nanoWarning);
 
                if (kLogAllWarnings) {
                   console.warn(this.deviceName + ' - ' + nanoWarning.message);
@@ -1108,29 +1307,64 @@ export class NanoParser {
          }
       }
 
-      // remove old warnings so they can be annotated again if they are relevant in future
-      if (
-         !!this.raisedWarnings.length &&
-         performance.now() - this.raisedWarningTimestamps[0] >=
-            kWarningAnnotationTimeoutms
-      ) {
-         // TODO: I want to use an iterator but javascript...cbf
-         if (this.raisedWarnings.length > 1) {
-            this.raisedWarnings = this.raisedWarnings.slice(
-               1,
-               this.raisedWarnings.length
-            );
-            this.raisedWarningTimestamps = this.raisedWarningTimestamps.slice(
-               1,
-               this.raisedWarnings.length
-            );
-         } else {
-            this.raisedWarnings = [];
-            this.raisedWarningTimestamps = [];
-         }
+      const stopIssue = issues.filter((issue) => issue.stopSampling).pop();
+      if (stopIssue) this.criticalError = true;
+
+      for (const issue of issues) this.raiseIssue(issue);
+
+      if (!stopIssue) {
+         this.recoverFromErrorGap();
+         return;
       }
 
-      if (this.criticalError) this.stopSampling(errorStr, this.continueOnError);
+      if (this.continueOnError) this.startErrorGap(stopIssue);
+      else this.stopSampling(describeIssue(stopIssue));
+   }
+
+   /**
+    * Reports an issue from the error catalogue. Errors are annotated once per
+    * sampling session and warnings at most once every kWarningAnnotationTimeoutms.
+    * Info issues are only logged.
+    */
+   raiseIssue(issue: INIBPIssue) {
+      if (!(this.proxyDevice instanceof ProxyDevice)) return;
+
+      switch (issue.severity) {
+         case 'error':
+            if (!this.raisedErrors.includes(issue.id)) {
+               this.proxyDevice.displayError(issue, this.continueOnError);
+               this.raisedErrors.push(issue.id);
+               console.error(this.deviceName + ' - ' + describeIssue(issue));
+            }
+            break;
+
+         case 'warning': {
+            const nowms = performance.now();
+            // forget old warnings so they can be annotated again if they are relevant in future
+            while (
+               this.raisedWarningTimestamps.length &&
+               nowms - this.raisedWarningTimestamps[0] >=
+                  kWarningAnnotationTimeoutms
+            ) {
+               this.raisedWarnings.shift();
+               this.raisedWarningTimestamps.shift();
+            }
+
+            if (!this.raisedWarnings.includes(issue.id)) {
+               // no point annotating errorenous warnings
+               if (!this.criticalError)
+                  this.proxyDevice.displayWarn(issue, kDisplayNanoWarnings);
+
+               this.raisedWarnings.push(issue.id);
+               this.raisedWarningTimestamps.push(nowms);
+            }
+            break;
+         }
+
+         default:
+            debugLog(this.deviceName + ' - ' + describeIssue(issue));
+            break;
+      }
    }
 
    reportHCUStatus() {
@@ -1168,8 +1402,7 @@ export class NanoParser {
          this.lastStatusError === NIBPErrorCodes.HcuContr_erro_hcuOffsetToBig ||
          this.lastStatusError === NIBPErrorCodes.HcuContr_erro_NotAllowed
       ) {
-         const lastErrorCode = getErrorCode(this.lastStatusError);
-         hcuStatus = NIBPErrors[lastErrorCode];
+         hcuStatus = describeIssue(getErrorIssue(this.lastStatusError));
       }
 
       // Sending HCU status back to UI
@@ -1,4 +1,5 @@
 import {
+   BlockDataFormat,
    DeviceEvent,
    IDeviceSetting,
    IDeviceStreamConfiguration,
@@ -12,13 +13,16 @@ import {
    TMessageSeverity
 } from '../../../public/device-api';
 import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
+import { IParserStatsSnapshot } from '../../../public/parser-stats';
 import {
    kMinOutBufferLenSamples,
    kDefaultNumOfChannels,
    NanoTxSampCmds,
+   NanoChannels,
    deviceName
 } from './constants';
-import { NanoParser } from './nanoParser';
+import { describeIssue, INIBPIssue } from './errorMessages';
+import { INIBPCuffStatus, NanoParser } from './nanoParser';
 import { PhysicalDevice } from './physicalDevice';
 import {
    DeviceStreamConfigurationImpl,
@@ -28,6 +32,7 @@ import {
 } from './settings';
 import { findClosestSupportedRate } from './utils';
 import { debugLog } from './enableLogging';
+import { describeBeat, INanoBeat, kBeatAnnotationTagType } from './beatEvents';
 
 /**
  * The ProxyDevice object is created for each recording. Manages hardware settings and sampling.
@@ -39,6 +44,8 @@ export class ProxyDevice implements IProxyDevice {
    physicalDevice: PhysicalDevice | null;
    parser: NanoParser | null; //Only non-null if this proxy is the one with a lock on the PhysicalDevice
    lastError: Error | null;
+   // Used for recordings without a saved output format
+   defaultOutputFormat: BlockDataFormat;
 
    /**
     * @returns if the device is sampling
@@ -52,7 +59,8 @@ export class ProxyDevice implements IProxyDevice {
    constructor(
       quarkProxy: ProxyDeviceSys | null,
       physicalDevice: PhysicalDevice | null,
-      settings?: INIBPSettings
+      settings?: INIBPSettings,
+      defaultOutputFormat = BlockDataFormat.k16BitBlockDataFormat
    ) {
       /**
        * outStreamBuffers
@@ -65,6 +73,7 @@ export class ProxyDevice implements IProxyDevice {
       this.physicalDevice = physicalDevice;
       this.parser = null; //Only non-null if this proxy is the one with a lock on the PhysicalDevice
       this.lastError = null;
+      this.defaultOutputFormat = defaultOutputFormat;
 
       this.onError = this.onError.bind(this);
       this.applyStreamSettingsToHW = this.applyStreamSettingsToHW.bind(this);
@@ -112,6 +121,83 @@ export class ProxyDevice implements IProxyDevice {
       callback();
    };
 
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('getParserStats', '{}')
+   getParserStats(
+      argJson: unknown,
+      callback: (
+         error: Error | null,
+         result: IParserStatsSnapshot | null
+      ) => void
+   ) {
+      callback(null, this.parser ? this.parser.stats.snapshot() : null);
+   }
+
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('getCuffStatus', '{}')
+   getCuffStatus(
+      argJson: unknown,
+      callback: (error: Error | null, result: INIBPCuffStatus | null) => void
+   ) {
+      callback(
+         null,
+         this.parser && this.isSampling ? this.parser.cuffStatus() : null
+      );
+   }
+
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('deferAutocalibration', '{"beats": 20}')
+   deferAutocalibration(
+      argJson: { beats: number },
+      callback: (error: Error | null, result: INIBPCuffStatus | null) => void
+   ) {
+      const beats = Math.max(0, Math.round(argJson.beats));
+      if (!this.parser?.deferAutocalibration(beats)) {
+         callback(
+            new Error(
+               'Auto-calibration can only be deferred while sampling with auto-calibration on'
+            ),
+            null
+         );
+         return;
+      }
+
+      this.addAnnotation(
+         beats
+            ? `Auto-calibration deferred for ${beats} beats`
+            : 'Auto-calibration resumed'
+      );
+      callback(null, this.parser.cuffStatus());
+   }
+
+   //Called from the UI thread via IDeviceProxyAPI.callFunction('setMeasurementSuspended', '{"suspended": true}')
+   setMeasurementSuspended(
+      argJson: { suspended: boolean },
+      callback: (error: Error | null, result: INIBPCuffStatus | null) => void
+   ) {
+      if (!this.parser) {
+         callback(
+            new Error(
+               'Measurement can not be suspended before connecting to the physical device'
+            ),
+            null
+         );
+         return;
+      }
+
+      // The parser annotates the start and end of the suspension
+      const changed = argJson.suspended
+         ? this.parser.suspendMeasurement()
+         : this.parser.resumeMeasurement();
+      if (!changed && this.parser.measurementSuspended !== argJson.suspended) {
+         callback(
+            new Error(
+               'Measurement can only be suspended once the NIBP Nano is measuring'
+            ),
+            null
+         );
+         return;
+      }
+      callback(null, this.parser.cuffStatus());
+   }
+
    hcuZeroCallback?: (
       error: Error | null,
       result: { hcuStatus: string }
@@ -133,7 +219,12 @@ export class ProxyDevice implements IProxyDevice {
    }
 
    clone(quarkProxy: ProxyDeviceSys) {
-      return new ProxyDevice(quarkProxy, this.physicalDevice, this.settings);
+      return new ProxyDevice(
+         quarkProxy,
+         this.physicalDevice,
+         this.settings,
+         this.defaultOutputFormat
+      );
    }
 
    release() {
@@ -188,12 +279,31 @@ export class ProxyDevice implements IProxyDevice {
          this.updateStreamSettings(
             streamIndex,
             streamSettings,
-            new DeviceStreamConfigurationImpl(streamIndex),
+            new DeviceStreamConfigurationImpl(
+               streamIndex,
+               this.settings.dataFormat
+            ),
             true
          );
       }
    }
 
+   /**
+    * Called when the user changes the recording's output format. The units of the
+    * 16-bit format are scaled, so they change along with the data format.
+    */
+   updateOutputFormat(dataFormat: BlockDataFormat) {
+      this.settings.dataInStreams.forEach((stream, streamIndex) => {
+         const streamSettings = stream as StreamSettings;
+         const config = new DeviceStreamConfigurationImpl(
+            streamIndex,
+            dataFormat
+         );
+         streamSettings.inputSettings.unitsInfo = config.unitsInfo;
+         this.updateStreamSettings(streamIndex, streamSettings, config);
+      });
+   }
+
    /**
     * This updates the quark settings. ProxyDeviceSys is the connection to the
     * proxy device in Quark.
@@ -378,10 +488,16 @@ export class ProxyDevice implements IProxyDevice {
     * for each output stream. Quark guarantees to remove samples from these buffers well before they
     * become full if they are of this length.
     *
+    * @param streamDataFormats the data format of each stream, from the DeviceStreamConfigurationImpl
+    * passed to Quark for that stream.
+    *
     * @returns if the operation succeeded. If this returns false, the calling code could call getLastError()
     * to find out what's wrong.
     */
-   prepareForSampling(bufferSizeInSecs: number) {
+   prepareForSampling(
+      bufferSizeInSecs: number,
+      streamDataFormats: BlockDataFormat[]
+   ) {
       if (!this.parser || !this.physicalDevice) return false; // Can't sample if no hardware connection
 
       // Show user a warning, allowing them to cancel sampling.
@@ -395,6 +511,16 @@ export class ProxyDevice implements IProxyDevice {
          }
       );
 
+      // This shouldn't really happen if things are coded correctly
+      if (this.settings.dataInStreams.length !== streamDataFormats.length) {
+         console.warn(
+            `Setting and configuration mismatch: there are ${this.settings.dataInStreams.length} ` +
+               `stream settings and ${streamDataFormats.length} configuration data formats`
+         );
+
+         return false;
+      }
+
       // Create Array of StreamBuffers (each with a streamIndex property) for
       // each enabled stream.
       this.outStreamBuffers = [];
@@ -407,7 +533,11 @@ export class ProxyDevice implements IProxyDevice {
                kMinOutBufferLenSamples
             );
             this.outStreamBuffers.push(
-               new StreamRingBufferImpl(index, nSamples)
+               new StreamRingBufferImpl(
+                  index,
+                  nSamples,
+                  streamDataFormats[index]
+               )
             );
          }
 
@@ -433,13 +563,14 @@ export class ProxyDevice implements IProxyDevice {
    }
 
    /**
-    * Display error pop-up
-    * @param message warning message to be annoatated
+    * Annotates a warning from the error catalogue
+    * @param showPopUp also show the warning in a pop-up, once only
     */
-   displayWarn(message: string, onceOnlyId?: string, showPopUp = false) {
+   displayWarn(issue: INIBPIssue, showPopUp = false) {
       if (!this.parser) return;
 
-      this.addAnnotation(message, MetaDataColors.kColorWarning);
+      const message = describeIssue(issue);
+      this.addAnnotation(message, issue.color);
 
       if (showPopUp) {
          this.proxyDeviceSys?.onDeviceEvent(
@@ -449,31 +580,34 @@ export class ProxyDevice implements IProxyDevice {
             {
                flags: TMessageFlags.kMessageDeviceError,
                severity: TMessageSeverity.kMessageWarn,
-               onceOnly: onceOnlyId
+               onceOnly: issue.id
             }
          );
       }
    }
 
    /**
-    * Display error pop-up
-    * @param message error message to be annotated
+    * Annotates an error from the error catalogue and shows it in a pop-up
+    * @param continueOnError ask the user whether to stop sampling, rather than
+    * forcing it to stop, if the issue would stop sampling
     */
-   displayError(message: string, forceStop = true, onceOnlyId?: string) {
+   displayError(issue: INIBPIssue, continueOnError = false) {
       if (!this.parser) return;
 
-      this.addAnnotation(message, MetaDataColors.kColorError);
+      const message = describeIssue(issue);
+      this.addAnnotation(message, issue.color);
 
       this.proxyDeviceSys?.onDeviceEvent(
          DeviceEvent.kDeviceEvent,
          this.getDeviceName(),
          message,
          {
-            flags: forceStop
-               ? TMessageFlags.kMessageForceStop
-               : TMessageFlags.kMessageQueryStop,
+            flags:
+               issue.stopSampling && !continueOnError
+                  ? TMessageFlags.kMessageForceStop
+                  : TMessageFlags.kMessageQueryStop,
             severity: TMessageSeverity.kMessageError,
-            onceOnly: onceOnlyId
+            onceOnly: issue.id
          }
       );
    }
@@ -504,6 +638,34 @@ export class ProxyDevice implements IProxyDevice {
       );
    }
 
+   /**
+    * Called by the parser for each beat-to-beat packet. Adds a point annotation for
+    * the beat to the Systolic stream, so individual beats can be listed, searched and
+    * exported in Lightning.
+    */
+   onBeat(beat: INanoBeat) {
+      if (!this.settings.beatAnnotations.value) return;
+
+      this.proxyDeviceSys?.onDeviceEvent(
+         DeviceEvent.kDeviceEvent,
+         this.getDeviceName(),
+         describeBeat(beat),
+         {
+            flags: TMessageFlags.kMessageAddAnotation,
+            streamIndex: NanoChannels.kSYS,
+            metadata: {
+               tags: [
+                  {
+                     name: `${this.getDeviceName()}`,
+                     type: kBeatAnnotationTagType
+                  }
+               ],
+               colorIndex: MetaDataColors.kColorInfo
+            }
+         }
+      );
+   }
+
    /**
     * Called from Quark. Device command to stop sampling needs to be fired here.
     * If successful, onDeviceEvent(DeviceEvent.kDeviceStopped) needs to be called on the ProxyDeviceSys
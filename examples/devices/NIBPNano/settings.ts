@@ -1,4 +1,5 @@
 import {
+   BlockDataFormat,
    DeviceValueType,
    IDeviceInputSettingsSys,
    IDeviceProxySettingsSys,
@@ -18,13 +19,15 @@ import {
 } from './constants';
 import { NanoParser } from './nanoParser';
 import { ProxyDevice } from './proxy';
-import { getDataFormat, getDefaultUnits } from './utils';
+import { getDefaultUnits } from './utils';
 
 export interface INIBPSettings extends IDeviceProxySettingsSys {
    autoCalibrate: Setting;
    cuffMode: Setting;
    cuffSwitchingInterval: Setting;
    continueOnError: Setting;
+   outputFormat: Setting;
+   beatAnnotations: Setting;
 }
 
 export class StreamSettings implements IDeviceStreamApiImpl {
@@ -88,12 +91,26 @@ export class NIBPSettings implements INIBPSettings {
    cuffMode: Setting;
    cuffSwitchingInterval: Setting;
    continueOnError: Setting;
+   outputFormat: Setting;
+   beatAnnotations: Setting;
+
+   get dataFormat() {
+      return this.outputFormat.value as BlockDataFormat;
+   }
 
    assign(settingsData: NIBPSettings) {
       this.autoCalibrate.setValue(settingsData.autoCalibrate);
       this.cuffMode.setValue(settingsData.cuffMode);
       this.cuffSwitchingInterval.setValue(settingsData.cuffSwitchingInterval);
       this.continueOnError.setValue(settingsData.continueOnError);
+      // Recordings made before the output format was selectable keep the
+      // default format of their device class
+      if (settingsData.outputFormat) {
+         this.outputFormat.setValue(settingsData.outputFormat);
+      }
+      if (settingsData.beatAnnotations) {
+         this.beatAnnotations.setValue(settingsData.beatAnnotations);
+      }
    }
 
    sendToHardware() {
@@ -143,8 +160,11 @@ export class NIBPSettings implements INIBPSettings {
       ]
    };
 
-   private static defaultInputSettings = (index: number) => {
-      const defaultUnits = getDefaultUnits(index);
+   private static defaultInputSettings = (
+      index: number,
+      dataFormat: BlockDataFormat
+   ) => {
+      const defaultUnits = getDefaultUnits(index, dataFormat);
       const defaultRange = defaultUnits.maxInPrefixedUnits;
       return {
          range: {
@@ -164,7 +184,10 @@ export class NIBPSettings implements INIBPSettings {
       this.dataInStreams = kStreamNames.map((key, index) => ({
          enabled: NIBPSettings.defaultEnabled,
          samplesPerSec: NIBPSettings.defaultRate,
-         inputSettings: NIBPSettings.defaultInputSettings(index)
+         inputSettings: NIBPSettings.defaultInputSettings(
+            index,
+            proxy.defaultOutputFormat
+         )
       }));
 
       this.autoCalibrate = new Setting(
@@ -263,6 +286,45 @@ export class NIBPSettings implements INIBPSettings {
             return newValue;
          }
       );
+
+      this.outputFormat = new Setting(
+         {
+            settingName: 'Output format',
+            value: proxy.defaultOutputFormat,
+            options: [
+               {
+                  value: BlockDataFormat.k16BitBlockDataFormat,
+                  display: '16-bit integer'
+               },
+               {
+                  value: BlockDataFormat.kFloatBlockDataFormat,
+                  display: '32-bit float'
+               }
+            ]
+         },
+         (
+            setting: IDeviceSetting,
+            newValue: DeviceValueType
+         ): DeviceValueType => {
+            proxy.updateOutputFormat(newValue as BlockDataFormat);
+            return newValue;
+         }
+      );
+
+      this.beatAnnotations = new Setting(
+         {
+            options: [],
+            settingName: 'Beat annotations',
+            value: false
+         },
+         (
+            setting: IDeviceSetting,
+            newValue: DeviceValueType
+         ): DeviceValueType => {
+            // Read by ProxyDevice.onBeat()
+            return newValue;
+         }
+      );
    }
 
    static defaults(proxy: ProxyDevice): NIBPSettings {
@@ -285,14 +347,14 @@ export class InputSettings {
       streamSettings: StreamSettings,
       settingsData: IDeviceInputSettingsSys
    ) {
-      this.unitsInfo = getDefaultUnits(streamIndex);
+      this.unitsInfo = getDefaultUnits(streamIndex, proxy.settings.dataFormat);
 
       //Gain range setting
       this.range = new Setting(
          settingsData.range,
          (setting: IDeviceSetting, newValue: DeviceValueType) => {
             proxy.updateStreamSettings(streamIndex, streamSettings, {
-               unitsInfo: getDefaultUnits(inputIndex)
+               unitsInfo: getDefaultUnits(inputIndex, proxy.settings.dataFormat)
             });
 
             return newValue;
@@ -305,8 +367,8 @@ export class DeviceStreamConfigurationImpl {
    dataFormat: number;
    unitsInfo: UnitsInfo;
 
-   constructor(streamIndex: number) {
-      this.dataFormat = getDataFormat();
-      this.unitsInfo = getDefaultUnits(streamIndex);
+   constructor(streamIndex: number, dataFormat: BlockDataFormat) {
+      this.dataFormat = dataFormat;
+      this.unitsInfo = getDefaultUnits(streamIndex, dataFormat);
    }
 }
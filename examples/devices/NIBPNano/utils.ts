@@ -7,6 +7,7 @@ import {
    NanoChannels,
    VersionPacketType,
    kBaseVersionInfo,
+   kIntegerScalingFactors,
    DefaultUnits
 } from './constants';
 
@@ -101,11 +102,14 @@ export function parseAndLogVersionStruct(byteArray: Buffer) {
    console.log('Protocol Version: ' + protocolVersion[0]);
 }
 
-export function getDataFormat() {
-   return BlockDataFormat.k16BitBlockDataFormat;
-}
-
-export function getDefaultUnits(channelIndex: NanoChannels) {
+/**
+ * @param dataFormat the recording's output format. 16-bit values are scaled up by
+ * kIntegerScalingFactors, so the ADC ranges are scaled to match.
+ */
+export function getDefaultUnits(
+   channelIndex: NanoChannels,
+   dataFormat: BlockDataFormat
+) {
    if (channelIndex > NanoChannels.kAutoCalCountdown) {
       return new UnitsInfoImpl(
          'V', //unit name
@@ -120,7 +124,19 @@ export function getDefaultUnits(channelIndex: NanoChannels) {
       );
    }
 
-   return UnitsInfoImpl.createFromUnitsInfo(DefaultUnits[channelIndex]);
+   const units = DefaultUnits[channelIndex];
+   const scale =
+      dataFormat === BlockDataFormat.k16BitBlockDataFormat
+         ? kIntegerScalingFactors[channelIndex]
+         : 1;
+
+   return UnitsInfoImpl.createFromUnitsInfo({
+      ...units,
+      maxInADCValues: units.maxInADCValues * scale,
+      minInADCValues: units.minInADCValues * scale,
+      maxValidADCValue: units.maxValidADCValue * scale,
+      minValidADCValue: units.minValidADCValue * scale
+   });
 }
 
 /**
@@ -49,6 +49,8 @@ import { DuplexStream } from '../../../public/device-streams';
 
 import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
 
+import { createCheckDeviceIsPresent } from '../../../public/device-discovery';
+
 // Imported libs set in getDeviceClass(libs) in module.exports below
 // obtained from quark-enums
 type Enum = { [key: string]: number };
@@ -1255,55 +1257,29 @@ export class DeviceClass implements IDeviceClass {
       deviceConnection: DuplexDeviceConnection,
       callback: (error: Error | null, device: OpenPhysicalDevice | null) => void
    ): void {
-      if (!this.devicePathIsOneOfOurs(deviceConnection.devicePath)) {
-         callback(null, null); // Did not find one of our devices on this connection
-         return;
-      }
-
-      const kTimeoutms = /*this.loadTestDevice ? 50 : */ 10000; // Time for device to reboot and respond
-      const devStream = new DuplexStream(deviceConnection);
-
-      //node streams default to 'utf8' encoding, which most devices won't understand.
-      //With 'utf8' encoding, non-ascii chars, such as:
-      //devStream.write('\xD4\x02\x02\xD4\x76\x0A\x62');
-      //could be expanded into multiple bytes, so we use 'binary' instead.
-      devStream.setDefaultEncoding('binary');
+      this.findDevice(deviceConnection, callback);
+   }
 
-      // connect error handler
-      devStream.on('error', (err: Error) => {
-         console.warn(err); // errors include timeouts
+   //Sends 'v' which tells the device to reboot and emit its version string, starting with
+   //'{{TestDevicePath_' and ending with '$$$'.
+   private findDevice = createCheckDeviceIsPresent<string>({
+      matchConnection: (deviceConnection) =>
+         this.devicePathIsOneOfOurs(deviceConnection.devicePath)
+            ? deviceConnection.devicePath
+            : null,
+      baudRate: 38400,
+      stopCommand: null,
+      rebootDelayms: 0,
+      probeCommand: 'v',
+      timeoutms: 10000, // Time for device to reboot and respond
+      parseVersionInfo: (response) =>
+         response.startsWith('{{TestDevicePath_') ? response : null,
+      createPhysicalDevice: (devStream, versionInfo, { connection }) => {
+         // We found a test device
          devStream.destroy(); // stop 'data' and 'error' callbacks
-         callback(err, null);
-      });
-
-      let resultStr = '';
-      // connect data handler
-      devStream.on('data', (newBytes: Buffer) => {
-         const newStr = newBytes.toString();
-         resultStr += newStr;
-         // See if we got '$$$'
-         const endPos = resultStr.indexOf('$$$');
-
-         const testConnectionPrefixPos = resultStr.indexOf('{{TestDevicePath_');
-
-         if (endPos !== -1 && testConnectionPrefixPos === 0) {
-            // We found a test device
-            devStream.destroy(); // stop 'data' and 'error' callbacks
-
-            const physicalDevice = new PhysicalDevice(this, deviceConnection);
-
-            callback(null, physicalDevice);
-         }
-      });
-
-      // Give up if device is not detected within the timeout period
-      devStream.setReadTimeout(kTimeoutms);
-      deviceConnection.setOption({ baud_rate: 38400 });
-
-      // Tell the device to reboot and emit its version string.
-      devStream.write('v');
-      return;
-   }
+         return new PhysicalDevice(this, connection);
+      }
+   });
 
    /**
     * @param quarkProxy the Quark component of the ProxyDevice - used for notifying Quark of events
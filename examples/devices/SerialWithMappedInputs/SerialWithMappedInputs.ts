@@ -43,7 +43,12 @@ import { UnitsInfoImpl, UnitsInfo16Bit } from '../../../public/device-units';
 
 import { DuplexStream } from '../../../public/device-streams';
 
-import { StreamRingBufferImpl } from '../../../public/stream-ring-buffer';
+import {
+   InterleavedStreamWriter,
+   StreamRingBufferImpl
+} from '../../../public/stream-ring-buffer';
+
+import { createCheckDeviceIsPresent } from '../../../public/device-discovery';
 
 // Imported libs set in getDeviceClass(libs) in module.exports below
 // obtained from quark-enums
@@ -399,6 +404,8 @@ class Parser {
    lastError = '';
    bytesInPacket: number;
    packet: Buffer;
+   // The latest sample from each input, written to the streams by the proxy's streamWriter
+   point = new Int32Array(kInputNames.length);
    expectedSampleCount: number; // is one byte (0 - 255)
    samplesPerSec: number;
 
@@ -507,57 +514,41 @@ class Parser {
          return true;
       }
 
-      const outStreamBuffers = this.proxyDevice.outStreamBuffers;
-      const nStreams = outStreamBuffers.length;
+      const { streamWriter } = this.proxyDevice;
+      if (!streamWriter) {
+         this.lastError =
+            'Cyton parser processPacket() called before prepareForSampling()';
+         console.warn(this.lastError);
+         return true;
+      }
 
       if (lostSamples) {
-         for (let i = 0; i < lostSamples; ++i) {
-            for (let streamIndex = 0; streamIndex < nStreams; ++streamIndex) {
-               // Don't produce data for disabled streams.
-               if (
-                  !this.proxyDevice.settings.dataInStreams[streamIndex].enabled
-                     .value
-               )
-                  continue;
-
-               outStreamBuffers[streamIndex].writeInt(0x8000); //Insert 'out of range' values
+         // Only enabled streams have buffers
+         for (const outStreamBuffer of streamWriter.outStreamBuffers) {
+            for (let i = 0; i < lostSamples; ++i) {
+               outStreamBuffer.writeInt(outStreamBuffer.outOfRangeValue); //Insert 'out of range' values
             }
          }
          this.expectedSampleCount = data[1]; //resynch
       }
 
-      const { dataInStreams } = this.proxyDevice.settings;
       let byteIndex = kStartOfDataIndex;
       for (
          let inputIndex = 0;
          inputIndex < kInputNames.length;
          ++inputIndex, byteIndex += 3
       ) {
-         // Get all streams (usually just one) that map to this input.
-         const streams = dataInStreams
-            .map((stream, streamIndex) => ({ stream, streamIndex }))
-            .filter(
-               ({ stream }) =>
-                  (stream as StreamSettings).inputId.value === inputIndex
-            );
-
-         for (const entry of streams) {
-            const { stream, streamIndex } = entry;
-
-            // Don't produce data for disabled streams.
-            if (!stream.enabled.value) continue;
-
-            // The OpenBCI Cyton format is big endian 24 bit.
-            // See http://docs.openbci.com/Hardware/03-Cyton_Data_Format
-            const value =
-               (data[byteIndex] << 16) +
-               (data[byteIndex + 1] << 8) +
-               data[byteIndex + 2];
-
-            const int16Val = value >> 8; // For now just taking the high 16 bits
-            outStreamBuffers[streamIndex].writeInt(int16Val);
-         }
+         // The OpenBCI Cyton format is big endian 24 bit.
+         // See http://docs.openbci.com/Hardware/03-Cyton_Data_Format
+         const value =
+            (data[byteIndex] << 16) +
+            (data[byteIndex + 1] << 8) +
+            data[byteIndex + 2];
+
+         this.point[inputIndex] = value >> 8; // For now just taking the high 16 bits
       }
+      // Each stream is written from the input it is mapped to
+      streamWriter.write(this.point, 1);
       this.incrementExpectedSampleCount();
       return true;
    }
@@ -823,6 +814,10 @@ class ProxyDevice implements IProxyDevice {
     */
    outStreamBuffers: StreamRingBuffer[];
 
+   // Writes the samples from each input to the buffers of the streams mapped to it.
+   // Created in prepareForSampling().
+   streamWriter: InterleavedStreamWriter | null = null;
+
    physicalDevice: PhysicalDevice | null;
    proxyDeviceSys: ProxyDeviceSys | null;
 
@@ -1187,7 +1182,7 @@ class ProxyDevice implements IProxyDevice {
 
       // Create Array of StreamBuffers (each with a streamIndex property) for
       // each enabled stream.
-      this.outStreamBuffers = [];
+      const outStreamBuffers: StreamRingBufferImpl[] = [];
       let index = 0;
       for (const stream of this.settings.dataInStreams) {
          if (stream && stream.isEnabled) {
@@ -1196,12 +1191,26 @@ class ProxyDevice implements IProxyDevice {
                ((stream.samplesPerSec as IDeviceSetting).value as number),
                kMinOutBufferLenSamples
             );
-            this.outStreamBuffers.push(
-               new StreamRingBufferImpl(index, nSamples)
-            );
+            outStreamBuffers.push(new StreamRingBufferImpl(index, nSamples));
          }
          ++index;
       }
+      this.outStreamBuffers = outStreamBuffers;
+
+      // Several streams can be mapped to the same input, so set the input (channel) for
+      // each stream's buffer directly.
+      const streamWriter = new InterleavedStreamWriter(
+         outStreamBuffers,
+         kInputNames.length
+      );
+      outStreamBuffers.forEach((buffer, bufferIndex) => {
+         const stream = this.settings.dataInStreams[
+            buffer.indexInDevice
+         ] as StreamSettings;
+         streamWriter.streamChannels[bufferIndex] = stream.inputId
+            .value as number;
+      });
+      this.streamWriter = streamWriter;
 
       //Set this proxy device as the sampling proxy
       this.parser.setProxyDevice(this);
@@ -1240,6 +1249,7 @@ class ProxyDevice implements IProxyDevice {
    //If this returns false, the calling code could call getLastError() to find out what's wrong
    cleanupAfterSampling(): boolean {
       this.outStreamBuffers = [];
+      this.streamWriter = null;
       return true;
    }
 
@@ -1347,55 +1357,29 @@ export class DeviceClass implements IDeviceClass {
       deviceConnection: DuplexDeviceConnection,
       callback: (error: Error | null, device: OpenPhysicalDevice | null) => void
    ): void {
-      if (!this.devicePathIsOneOfOurs(deviceConnection.devicePath)) {
-         callback(null, null); // Did not find one of our devices on this connection
-         return;
-      }
-
-      const kTimeoutms = /*this.loadTestDevice ? 50 : */ 10000; // Time for device to reboot and respond
-      const devStream = new DuplexStream(deviceConnection);
-
-      //node streams default to 'utf8' encoding, which most devices won't understand.
-      //With 'utf8' encoding, non-ascii chars, such as:
-      //devStream.write('\xD4\x02\x02\xD4\x76\x0A\x62');
-      //could be expanded into multiple bytes, so we use 'binary' instead.
-      devStream.setDefaultEncoding('binary');
+      this.findDevice(deviceConnection, callback);
+   }
 
-      // connect error handler
-      devStream.on('error', (err: Error) => {
-         console.warn(err); // errors include timeouts
+   //Sends 'v' which tells the device to reboot and emit its version string, starting with
+   //'{{TestDevicePath_' and ending with '$$$'.
+   private findDevice = createCheckDeviceIsPresent<string>({
+      matchConnection: (deviceConnection) =>
+         this.devicePathIsOneOfOurs(deviceConnection.devicePath)
+            ? deviceConnection.devicePath
+            : null,
+      baudRate: 38400,
+      stopCommand: null,
+      rebootDelayms: 0,
+      probeCommand: 'v',
+      timeoutms: 10000, // Time for device to reboot and respond
+      parseVersionInfo: (response) =>
+         response.startsWith('{{TestDevicePath_') ? response : null,
+      createPhysicalDevice: (devStream, versionInfo, { connection }) => {
+         // We found a test device
          devStream.destroy(); // stop 'data' and 'error' callbacks
-         callback(err, null);
-      });
-
-      let resultStr = '';
-      // connect data handler
-      devStream.on('data', (newBytes: Buffer) => {
-         const newStr = newBytes.toString();
-         resultStr += newStr;
-         // See if we got '$$$'
-         const endPos = resultStr.indexOf('$$$');
-
-         const testConnectionPrefixPos = resultStr.indexOf('{{TestDevicePath_');
-
-         if (endPos !== -1 && testConnectionPrefixPos === 0) {
-            // We found a test device
-            devStream.destroy(); // stop 'data' and 'error' callbacks
-
-            const physicalDevice = new PhysicalDevice(this, deviceConnection);
-
-            callback(null, physicalDevice);
-         }
-      });
-
-      // Give up if device is not detected within the timeout period
-      devStream.setReadTimeout(kTimeoutms);
-      deviceConnection.setOption({ baud_rate: 38400 });
-
-      // Tell the device to reboot and emit its version string.
-      devStream.write('v');
-      return;
-   }
+         return new PhysicalDevice(this, connection);
+      }
+   });
 
    /**
     * @param quarkProxy the Quark component of the ProxyDevice - used for notifying Quark of events
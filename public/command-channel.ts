@@ -0,0 +1,205 @@
+import { DuplexStream, IStreamTap } from './device-streams';
+
+const kDefaultCommandTimeoutms = 1000;
+
+/**
+ * How to recognise the end of a command's response:
+ * - a delimiter, e.g. '$$$'. The response is the bytes received before the delimiter.
+ * - a predicate called with all the bytes received since the command was sent. Returns true
+ *   once the response is complete, in which case the response is all of those bytes.
+ */
+export type ResponseMatcher = string | Buffer | ((received: Buffer) => boolean);
+
+export interface ICommandOptions {
+   //If not specified, the command completes as soon as it has been written
+   expect?: ResponseMatcher;
+   //Time to wait for the response before retrying or failing
+   timeoutMs?: number;
+   //Number of times to resend the command if no response is received in time
+   retries?: number;
+}
+
+interface IPendingCommand {
+   bytes: Buffer;
+   options: ICommandOptions;
+   attemptsLeft: number;
+   resolve: (response: Buffer) => void;
+   reject: (error: Error) => void;
+}
+
+function commandDescription(bytes: Buffer) {
+   return JSON.stringify(bytes.toString('binary'));
+}
+
+/**
+ * Request/response layer on top of a DuplexStream, e.g.
+ *
+ * const versionInfo = await channel.sendCommand('v\n', { expect: '$$$', timeoutMs: 4000 });
+ *
+ * Commands are queued so only one is outstanding at a time and replies are never
+ * interleaved. The channel listens to the stream through a tap, so a Parser can keep
+ * consuming the stream's 'data' events (including the reply bytes) at the same time.
+ */
+export class CommandChannel implements IStreamTap {
+   private queue: IPendingCommand[] = [];
+   private current: IPendingCommand | undefined;
+   private received = Buffer.alloc(0);
+   private timer: NodeJS.Timeout | undefined;
+   private isClosed = false;
+
+   constructor(public stream: DuplexStream) {
+      stream.addTap(this);
+   }
+
+   get pendingCount() {
+      return this.queue.length + (this.current ? 1 : 0);
+   }
+
+   /**
+    * @param bytes strings are sent using 'binary' encoding
+    * @returns a Promise resolving to the response (empty if options.expect is not set) or
+    * rejecting if the write fails, the stream errors or the response times out (in which
+    * case the error.name is 'Timeout').
+    */
+   sendCommand(
+      bytes: string | Buffer | number[],
+      options: ICommandOptions = {}
+   ): Promise<Buffer> {
+      const commandBytes =
+         typeof bytes === 'string'
+            ? Buffer.from(bytes, 'binary')
+            : Buffer.isBuffer(bytes)
+            ? bytes
+            : Buffer.from(bytes);
+      return new Promise<Buffer>((resolve, reject) => {
+         if (this.isClosed) {
+            reject(new Error('Command channel is closed'));
+            return;
+         }
+         this.queue.push({
+            bytes: commandBytes,
+            options,
+            attemptsLeft: 1 + (options.retries ?? 0),
+            resolve,
+            reject
+         });
+         if (!this.current) {
+            this.sendNext();
+         }
+      });
+   }
+
+   //Stop listening to the stream and reject any outstanding commands
+   close() {
+      this.isClosed = true;
+      this.stream.removeTap(this);
+      this.failAll(new Error('Command channel is closed'));
+   }
+
+   onData(chunk: Int8Array) {
+      const command = this.current;
+      if (!command || !command.options.expect) {
+         return; //Not waiting for a response
+      }
+      this.received = Buffer.concat([
+         this.received,
+         Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      ]);
+      const expect = command.options.expect;
+      let response: Buffer | undefined;
+      if (typeof expect === 'function') {
+         if (expect(this.received)) {
+            response = this.received;
+         }
+      } else {
+         const endPos = this.received.indexOf(expect);
+         if (endPos >= 0) {
+            response = this.received.slice(0, endPos);
+         }
+      }
+      if (response) {
+         this.complete(command);
+         command.resolve(response);
+      }
+   }
+
+   onError(error: Error) {
+      this.failAll(error);
+   }
+
+   private sendNext() {
+      const command = this.queue.shift();
+      this.current = command;
+      if (command) {
+         this.sendAttempt(command);
+      }
+   }
+
+   private sendAttempt(command: IPendingCommand) {
+      --command.attemptsLeft;
+      this.received = Buffer.alloc(0);
+      if (command.options.expect) {
+         this.timer = setTimeout(
+            () => this.onTimeout(command),
+            command.options.timeoutMs ?? kDefaultCommandTimeoutms
+         );
+      }
+      this.stream.write(command.bytes, 'binary', (error) => {
+         if (command !== this.current) {
+            return; //Already completed or failed
+         }
+         if (error) {
+            this.complete(command);
+            command.reject(error);
+         } else if (!command.options.expect) {
+            this.complete(command);
+            command.resolve(Buffer.alloc(0));
+         }
+      });
+   }
+
+   private onTimeout(command: IPendingCommand) {
+      this.timer = undefined;
+      if (command.attemptsLeft > 0) {
+         this.sendAttempt(command);
+         return;
+      }
+      this.complete(command);
+      const error = new Error(
+         `Timed out waiting for a response to command ${commandDescription(
+            command.bytes
+         )}`
+      );
+      error.name = 'Timeout';
+      command.reject(error);
+   }
+
+   //Finish with the current command and move on to the next queued one
+   private complete(command: IPendingCommand) {
+      if (this.timer !== undefined) {
+         clearTimeout(this.timer);
+         this.timer = undefined;
+      }
+      if (command === this.current) {
+         this.current = undefined;
+         this.received = Buffer.alloc(0);
+         //Send the next command after the caller has handled this result
+         setTimeout(() => {
+            if (!this.current) this.sendNext();
+         });
+      }
+   }
+
+   private failAll(error: Error) {
+      const commands = this.current
+         ? [this.current, ...this.queue]
+         : this.queue;
+      this.queue = [];
+      if (this.current) {
+         this.complete(this.current);
+      }
+      for (const command of commands) {
+         command.reject(error);
+      }
+   }
+}
@@ -74,6 +74,10 @@ export interface IDeviceVersionInfo {
    numberOfChannels?: number;
    serialNumber?: string;
    deviceSynchModes?: ADIDeviceSynchModes;
+   //Optional features the firmware supports, named as in the device script's
+   //IFirmwareCapabilityTable (see firmware-version.ts). Lets firmware declare features
+   //the table would not assume from its version.
+   features?: string[];
 }
 
 //Shared between C++ and Typescript: see public/device-api.ts and libs/quark-sys/libs/QuarkCOMInterfaces/IADIDeviceTimeAsynch.h
@@ -173,6 +177,17 @@ export interface IStreamBuffer {
    writeValue(value: number): boolean;
 }
 
+//Typed array views used by StreamRingBuffers for each BlockDataFormat:
+//k12BitBlockDataFormat and k16BitBlockDataFormat: Int16Array
+//k32BitBlockDataFormat: Int32Array
+//kFloatBlockDataFormat: Float32Array
+//kDoubleBlockDataFormat: Float64Array
+export type StreamRingBufferArray =
+   | Int16Array
+   | Int32Array
+   | Float32Array
+   | Float64Array;
+
 export interface StreamRingBuffer {
    //public JS interface
    indexInDevice: number;
@@ -182,10 +197,10 @@ export interface StreamRingBuffer {
    writeValue(value: number): boolean;
 
    //Returns true if whole chunk written
-   writeAll(chunk: Int16Array): boolean;
+   writeAll(chunk: StreamRingBufferArray): boolean;
 
    //Returns number of samples written
-   //writeSome(chunk: Int16Array, start: number, end: number): number;
+   //writeSome(chunk: StreamRingBufferArray): number;
 
    //Internal implementation
    //ringBuffer: Int16Array;
@@ -0,0 +1,233 @@
+import {
+   DuplexDeviceConnection,
+   IDeviceVersionInfo,
+   OpenPhysicalDevice
+} from './device-api';
+import { CommandChannel } from './command-channel';
+import { DuplexStream } from './device-streams';
+
+//IDeviceClass.checkDeviceIsPresent() for serial devices
+export type CheckDeviceIsPresent = (
+   deviceConnection: DuplexDeviceConnection,
+   callback: (error: Error | null, device: OpenPhysicalDevice | null) => void
+) => void;
+
+/**
+ * A USB device the device class supports, e.g.
+ * { vendorId: '1B4F', productId: 'F016', deviceName: 'Sparkfun Thing Plus SAMD51' }
+ */
+export interface IUSBDeviceId {
+   vendorId: string;
+   productId: string;
+   deviceName: string;
+}
+
+/**
+ * Passed to createPhysicalDevice() along with the parsed version info.
+ */
+export interface IDiscoveredDevice {
+   //From the matching IUSBDeviceId, or returned by matchConnection()
+   deviceName: string;
+   connection: DuplexDeviceConnection;
+   //Everything received in response to the probe command, before the terminator
+   response: string;
+}
+
+export interface IDeviceDiscoveryOptions<TVersionInfo = IDeviceVersionInfo> {
+   //Connections with one of these VID/PIDs are probed
+   devices?: IUSBDeviceId[];
+   //Alternative to devices for matching on something other than the VID/PID. Returns the
+   //device name, or null if the connection is not one of ours.
+   matchConnection?: (connection: DuplexDeviceConnection) => string | null;
+
+   baudRate?: number; //default 115200
+   //Sent as soon as the connection is opened, e.g. in case the device is already sampling.
+   //Set to null to send nothing. Default 's\n'.
+   stopCommand?: string | null;
+   //Opening the serial port may cause an Arduino to reboot. The probe command is sent this
+   //long after the connection is opened. Default 2000 ms.
+   rebootDelayms?: number;
+   probeCommand?: string; //default 'v\n'
+   //Marks the end of the response to the probe command. Default '$$$'.
+   terminator?: string;
+   //Time to wait for the response after sending the probe command. Default 2000 ms.
+   timeoutms?: number;
+
+   //Returns null if the response is not from one of our devices. By default, parses the
+   //JSON starting at the first '{' in the response.
+   parseVersionInfo?: (response: string) => TVersionInfo | null;
+   //Returns false if the version info is not from one of our devices,
+   //e.g. versionInfo.deviceClass is not our class name.
+   validateVersionInfo?: (versionInfo: TVersionInfo) => boolean;
+
+   createPhysicalDevice: (
+      stream: DuplexStream,
+      versionInfo: TVersionInfo,
+      device: IDiscoveredDevice
+   ) => OpenPhysicalDevice;
+}
+
+export function parseJSONVersionInfo<TVersionInfo = IDeviceVersionInfo>(
+   response: string
+): TVersionInfo | null {
+   const startPos = response.indexOf('{');
+   if (startPos < 0) {
+      return null;
+   }
+   const versionInfoJSON = response.slice(startPos);
+   try {
+      return JSON.parse(versionInfoJSON);
+   } catch (err: any) {
+      console.warn(
+         'JSON error when parsing version information: ',
+         versionInfoJSON,
+         err.message
+      );
+      return null;
+   }
+}
+
+function deviceNameFromTable(
+   devices: IUSBDeviceId[],
+   connection: DuplexDeviceConnection
+) {
+   const vid = connection.vendorId.toUpperCase();
+   const pid = connection.productId.toUpperCase();
+   const device = devices.find(
+      (it) =>
+         it.vendorId.toUpperCase() === vid && it.productId.toUpperCase() === pid
+   );
+   return device ? device.deviceName : null;
+}
+
+/**
+ * Builds a checkDeviceIsPresent() implementation for devices that identify themselves
+ * by replying to a probe command with version information, e.g. the example Arduino
+ * firmwares' reply to 'v\n' of JSON terminated by '$$$'.
+ *
+ * The returned function:
+ * 1. calls back with (null, null) if the connection does not match options.devices or
+ *    options.matchConnection.
+ * 2. sets the baud rate and sends the stop command.
+ * 3. after rebootDelayms, sends the probe command and waits up to timeoutms for the
+ *    terminator.
+ * 4. parses and validates the version info, then calls back with the physical device
+ *    returned by createPhysicalDevice().
+ *
+ * The callback is called exactly once. If the device is not found or does not respond,
+ * the stream is destroyed.
+ */
+export function createCheckDeviceIsPresent<TVersionInfo = IDeviceVersionInfo>(
+   options: IDeviceDiscoveryOptions<TVersionInfo>
+): CheckDeviceIsPresent {
+   const {
+      devices = [],
+      matchConnection = (connection: DuplexDeviceConnection) =>
+         deviceNameFromTable(devices, connection),
+      baudRate = 115200,
+      stopCommand = 's\n',
+      rebootDelayms = 2000,
+      probeCommand = 'v\n',
+      terminator = '$$$',
+      timeoutms = 2000,
+      parseVersionInfo = parseJSONVersionInfo,
+      validateVersionInfo = () => true,
+      createPhysicalDevice
+   } = options;
+
+   return (deviceConnection, callback) => {
+      const deviceName = matchConnection(deviceConnection);
+      if (deviceName === null) {
+         callback(null, null); // Did not find one of our devices on this connection
+         return;
+      }
+
+      const devStream = new DuplexStream(deviceConnection);
+      //node streams default to 'utf8' encoding, which most devices won't understand.
+      devStream.setDefaultEncoding('binary');
+      const channel = new CommandChannel(devStream);
+      let probeTimer: NodeJS.Timeout | undefined;
+      let finished = false;
+
+      const finish = (
+         error: Error | null,
+         device: OpenPhysicalDevice | null
+      ) => {
+         if (finished) {
+            return;
+         }
+         finished = true;
+         if (probeTimer !== undefined) {
+            clearTimeout(probeTimer);
+         }
+         channel.close();
+         if (!device) {
+            devStream.destroy(); // stop 'data' and 'error' callbacks
+         }
+         callback(error, device);
+      };
+
+      devStream.on('error', (err: Error) => {
+         console.warn(err); // errors include timeouts
+         finish(err, null);
+      });
+
+      const onResponse = (responseBytes: Buffer) => {
+         const response = responseBytes.toString();
+         const versionInfo = parseVersionInfo(response);
+         if (versionInfo === null || !validateVersionInfo(versionInfo)) {
+            finish(null, null); //Device not found
+            return;
+         }
+         let physicalDevice: OpenPhysicalDevice;
+         try {
+            physicalDevice = createPhysicalDevice(devStream, versionInfo, {
+               deviceName,
+               connection: deviceConnection,
+               response
+            });
+         } catch (err: any) {
+            console.warn(err);
+            finish(err, null);
+            return;
+         }
+         finish(null, physicalDevice);
+      };
+
+      const onProbeFailed = (err: Error) => {
+         if (finished) {
+            return; //e.g. the stream error has already been reported
+         }
+         if (err.name === 'Timeout') {
+            devStream.destroyConnection();
+            err = new Error(
+               `Timed out: device ${deviceName} did not respond to version request.`
+            );
+         }
+         console.warn(err);
+         finish(err, null);
+      };
+
+      const probe = () => {
+         probeTimer = undefined;
+         channel
+            .sendCommand(probeCommand, {
+               expect: terminator,
+               timeoutMs: timeoutms
+            })
+            .then(onResponse, onProbeFailed);
+      };
+
+      deviceConnection.setOption({ baud_rate: baudRate });
+
+      if (stopCommand !== null) {
+         channel.sendCommand(stopCommand).catch(onProbeFailed);
+      }
+
+      if (rebootDelayms > 0) {
+         probeTimer = global.setTimeout(probe, rebootDelayms);
+      } else {
+         probe();
+      }
+   };
+}
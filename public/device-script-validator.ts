@@ -0,0 +1,503 @@
+import {
+   DeviceEvent,
+   FirstSampleRemoteTime,
+   IDeviceClass,
+   IDeviceSetting,
+   IDeviceStreamApi,
+   IDeviceStreamConfiguration,
+   IProxyDevice,
+   ISysEventOptions,
+   ProxyDeviceSys,
+   SysStreamEventType,
+   TDeviceConnectionType,
+   TimePoint,
+   USBTimePoint
+} from './device-api';
+import { IDeviceUIApi } from './device-ui-api';
+import { isPluginModuleFeature } from './plugin-api';
+import * as path from 'path';
+
+/**
+ * The functions Lightning looks for in the exports of a device script module.
+ */
+export interface IDeviceScriptModule {
+   getDeviceClasses?(): IDeviceClass[];
+   getDeviceUIClasses?(): IDeviceUIApi[];
+}
+
+export interface IContractViolation {
+   //What was being checked, e.g. "DeviceClass 'Arduino_Example'"
+   subject: string;
+   message: string;
+}
+
+const kGuidRegex =
+   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const kDeviceClassMethods: (keyof IDeviceClass)[] = [
+   'getDeviceClassName',
+   'getClassId',
+   'getDeviceConnectionType',
+   'checkDeviceIsPresent',
+   'createProxyDevice',
+   'indexOfBestMatchingDevice'
+];
+
+const kProxyDeviceMethods: (keyof IProxyDevice)[] = [
+   'getOutBufferInputIndices',
+   'getDeviceName',
+   'getNumberOfAnalogStreams',
+   'getLastError',
+   'setPhysicalDevice',
+   'connectToPhysicalDevice',
+   'disconnectFromPhysicalDevice',
+   'prepareForSampling',
+   'startSampling',
+   'onSamplingStarted',
+   'onSamplingUpdate',
+   'onSamplingStopped',
+   'stopSampling',
+   'cleanupAfterSampling'
+];
+
+const kDeviceUIOptionalMethods: (keyof IDeviceUIApi)[] = [
+   'describeStreamSettingsUI',
+   'describeDeviceSettingsUI'
+];
+
+//Limits how far into a proxy's settings hierarchy Setting values are checked.
+const kMaxSettingsDepth = 8;
+
+function isSetting(obj: unknown): obj is IDeviceSetting {
+   const setting = obj as IDeviceSetting;
+   return (
+      typeof setting === 'object' &&
+      setting !== null &&
+      typeof setting.settingName === 'string' &&
+      Array.isArray(setting.options) &&
+      'value' in setting
+   );
+}
+
+/**
+ * Stand-in for Quark's side of the proxy that records which streams the proxy
+ * set up.
+ */
+class StreamSetupRecorder implements ProxyDeviceSys {
+   streamIndices = new Set<number>();
+
+   release(): void {}
+
+   setupDataInStream(
+      streamIndex: number,
+      settings?: IDeviceStreamApi,
+      configuration?: Partial<IDeviceStreamConfiguration>,
+      callback?: (error: Error | null, type: SysStreamEventType) => void,
+      restartAnySampling?: boolean
+   ): void {
+      this.streamIndices.add(streamIndex);
+   }
+
+   samplingUpdate(bufferInputIndices: Int32Array): void {}
+
+   onDeviceEvent(
+      event: DeviceEvent,
+      deviceName: string,
+      message?: string,
+      options?: ISysEventOptions
+   ): void {}
+
+   onRemoteTimeEvent(
+      error: Error | null,
+      timePoint: TimePoint | FirstSampleRemoteTime | USBTimePoint | null
+   ): void {}
+}
+
+/**
+ * Checks device script modules against the contracts Lightning relies on, e.g. IDeviceClass,
+ * IProxyDevice and IDeviceUIApi, so that common mistakes are found before the script is
+ * loaded into Lightning.
+ *
+ * A single validator can check several modules, in which case class GUIDs must be unique
+ * across all of them, as they are in the Lightning plugins folder.
+ *
+ * @example
+ * const validator = new DeviceScriptValidator();
+ * validator.validateModule(require('./MyDevice'), 'MyDevice');
+ * console.log(validator.report());
+ */
+export class DeviceScriptValidator {
+   violations: IContractViolation[] = [];
+
+   //Class GUID => subject of the class that first used it
+   private classIds = new Map<string, string>();
+
+   /**
+    * Loads the module at modulePath (using require()) and validates its exports.
+    * Relative paths are resolved from the current working directory.
+    */
+   validateModuleAtPath(modulePath: string) {
+      let moduleExports: unknown;
+      try {
+         moduleExports = require(path.resolve(modulePath));
+      } catch (err) {
+         this.addViolation(
+            modulePath,
+            `module failed to load: ${(err as Error).message}`
+         );
+         return this.violations;
+      }
+      return this.validateModule(moduleExports, modulePath);
+   }
+
+   validateModule(moduleExports: unknown, moduleName = 'module') {
+      const scriptModule = moduleExports as IDeviceScriptModule;
+      if (
+         !scriptModule ||
+         (typeof scriptModule.getDeviceClasses !== 'function' &&
+            typeof scriptModule.getDeviceUIClasses !== 'function')
+      ) {
+         this.addViolation(
+            moduleName,
+            'exports neither getDeviceClasses() nor getDeviceUIClasses()'
+         );
+         return this.violations;
+      }
+
+      const classIds: string[] = [];
+      if (typeof scriptModule.getDeviceClasses === 'function') {
+         const deviceClasses = this.callExport(
+            moduleName,
+            'getDeviceClasses',
+            () => scriptModule.getDeviceClasses!()
+         );
+         for (const deviceClass of deviceClasses) {
+            const classId = this.validateDeviceClass(deviceClass);
+            if (classId) classIds.push(classId);
+         }
+      }
+
+      if (typeof scriptModule.getDeviceUIClasses === 'function') {
+         const deviceUIClasses = this.callExport(
+            moduleName,
+            'getDeviceUIClasses',
+            () => scriptModule.getDeviceUIClasses!()
+         );
+         for (const deviceUI of deviceUIClasses) {
+            this.validateDeviceUI(deviceUI, classIds);
+         }
+      }
+      return this.violations;
+   }
+
+   /**
+    * @returns the class GUID if it could be read.
+    */
+   validateDeviceClass(deviceClass: IDeviceClass): string | undefined {
+      let subject = 'DeviceClass';
+      if (!this.checkMethods(subject, deviceClass, kDeviceClassMethods)) {
+         return undefined;
+      }
+
+      const className = this.tryCall(subject, 'getDeviceClassName', () =>
+         deviceClass.getDeviceClassName()
+      );
+      if (typeof className !== 'string' || !className) {
+         this.addViolation(
+            subject,
+            'getDeviceClassName() must return a non-empty string'
+         );
+      } else {
+         subject = `DeviceClass '${className}'`;
+      }
+
+      const classId = this.tryCall(subject, 'getClassId', () =>
+         deviceClass.getClassId()
+      );
+      if (typeof classId !== 'string' || !kGuidRegex.test(classId)) {
+         this.addViolation(
+            subject,
+            `getClassId() returned '${classId}' which is not a GUID`
+         );
+      } else {
+         const otherSubject = this.classIds.get(classId.toLowerCase());
+         if (otherSubject) {
+            this.addViolation(
+               subject,
+               `getClassId() GUID ${classId} is also used by ${otherSubject}`
+            );
+         } else {
+            this.classIds.set(classId.toLowerCase(), subject);
+         }
+      }
+
+      const connectionType = this.tryCall(
+         subject,
+         'getDeviceConnectionType',
+         () => deviceClass.getDeviceConnectionType()
+      );
+      if (
+         !Object.values(TDeviceConnectionType).includes(
+            connectionType as TDeviceConnectionType
+         )
+      ) {
+         this.addViolation(
+            subject,
+            `getDeviceConnectionType() returned ${connectionType} which is not a TDeviceConnectionType`
+         );
+      }
+
+      //Proxies are created without a physical device when a recording is opened without hardware.
+      const recorder = new StreamSetupRecorder();
+      const proxy = this.tryCall(subject, 'createProxyDevice', () =>
+         deviceClass.createProxyDevice(recorder, null)
+      );
+      if (proxy) {
+         this.validateProxyDevice(proxy, `${subject} ProxyDevice`, recorder);
+         const releasable = proxy as { release?(): void };
+         if (typeof releasable.release === 'function') {
+            this.tryCall(subject, 'ProxyDevice.release', () =>
+               releasable.release!()
+            );
+         }
+      } else if (proxy !== undefined) {
+         this.addViolation(
+            subject,
+            'createProxyDevice() did not return a ProxyDevice'
+         );
+      }
+
+      return typeof classId === 'string' ? classId : undefined;
+   }
+
+   /**
+    * @param recorder if passed, the ProxyDeviceSys the proxy was created with. Used to check
+    * setupDataInStream() was called for every stream.
+    */
+   validateProxyDevice(
+      proxy: IProxyDevice,
+      subject = 'ProxyDevice',
+      recorder?: StreamSetupRecorder
+   ) {
+      if (!this.checkMethods(subject, proxy, kProxyDeviceMethods)) {
+         return;
+      }
+
+      if (!Array.isArray(proxy.outStreamBuffers)) {
+         this.addViolation(subject, 'outStreamBuffers must be an array');
+      } else if (typeof proxy.getOutBufferInputIndices === 'function') {
+         const indices = this.tryCall(subject, 'getOutBufferInputIndices', () =>
+            proxy.getOutBufferInputIndices()
+         );
+         if (
+            !(indices instanceof Int32Array) ||
+            indices.length !== proxy.outStreamBuffers.length
+         ) {
+            this.addViolation(
+               subject,
+               'getOutBufferInputIndices() must return an Int32Array with an index for each outStreamBuffer'
+            );
+         }
+      }
+
+      if (typeof proxy.isSampling !== 'boolean') {
+         this.addViolation(subject, 'isSampling must be a boolean');
+      }
+
+      const nStreams =
+         typeof proxy.getNumberOfAnalogStreams === 'function'
+            ? this.tryCall(subject, 'getNumberOfAnalogStreams', () =>
+                 proxy.getNumberOfAnalogStreams()
+              )
+            : undefined;
+
+      const settings = (proxy as { settings?: unknown }).settings as
+         | { version?: unknown; dataInStreams?: unknown }
+         | undefined;
+      if (!settings || typeof settings !== 'object') {
+         this.addViolation(subject, 'has no settings object');
+         return;
+      }
+      if (typeof settings.version !== 'number') {
+         this.addViolation(
+            subject,
+            'settings.version must be a number so saved settings can be upgraded'
+         );
+      }
+      if (!Array.isArray(settings.dataInStreams)) {
+         this.addViolation(subject, 'settings.dataInStreams must be an array');
+      } else {
+         const nSettingsStreams = settings.dataInStreams.length;
+         if (nStreams !== undefined && nStreams !== nSettingsStreams) {
+            this.addViolation(
+               subject,
+               `getNumberOfAnalogStreams() returned ${nStreams} but settings.dataInStreams has ${nSettingsStreams} streams`
+            );
+         }
+         if (recorder) {
+            for (let i = 0; i < nSettingsStreams; ++i) {
+               if (!recorder.streamIndices.has(i)) {
+                  this.addViolation(
+                     subject,
+                     `setupDataInStream() was not called for stream ${i}` +
+                        (settings.dataInStreams[i]?.enabled?.value === false
+                           ? ' (disabled streams must be set up too)'
+                           : '')
+                  );
+               }
+            }
+         }
+      }
+
+      this.validateSettings(settings, `${subject} settings`);
+   }
+
+   /**
+    * Checks the value of every Setting in the hierarchy is one of its options.
+    */
+   validateSettings(settings: unknown, subject = 'settings') {
+      this.checkSettingsHierarchy(settings, subject, 'settings', new Set(), 0);
+   }
+
+   validateDeviceUI(deviceUI: IDeviceUIApi, deviceClassIds: string[] = []) {
+      let subject = 'DeviceUI';
+      if (!isPluginModuleFeature(deviceUI)) {
+         this.addViolation(
+            subject,
+            'is not a plugin module feature (it needs a string name and a type)'
+         );
+      } else {
+         subject = `DeviceUI '${deviceUI.name}'`;
+         if (deviceUI.type !== 'Device UI') {
+            this.addViolation(
+               subject,
+               `type is '${deviceUI.type}' but should be 'Device UI'`
+            );
+         }
+      }
+
+      if (typeof deviceUI.matchesDevice !== 'function') {
+         this.addViolation(subject, 'matchesDevice() is not a function');
+      } else if (deviceClassIds.length) {
+         //UI in the same module as its device classes should match at least one of them.
+         const matches = deviceClassIds.some((classId) =>
+            this.tryCall(subject, 'matchesDevice', () =>
+               deviceUI.matchesDevice(classId, '')
+            )
+         );
+         if (!matches) {
+            this.addViolation(
+               subject,
+               'matchesDevice() does not match any device class in the module'
+            );
+         }
+      }
+
+      for (const method of kDeviceUIOptionalMethods) {
+         const value = deviceUI[method];
+         if (value !== undefined && typeof value !== 'function') {
+            this.addViolation(subject, `${method} is not a function`);
+         }
+      }
+   }
+
+   /**
+    * @returns a human readable list of the violations found so far.
+    */
+   report(): string {
+      if (!this.violations.length) {
+         return 'No contract violations found.';
+      }
+      return this.violations
+         .map((violation) => `${violation.subject}: ${violation.message}`)
+         .join('\n');
+   }
+
+   private addViolation(subject: string, message: string) {
+      this.violations.push({ subject, message });
+   }
+
+   private checkMethods<T>(subject: string, obj: T, methods: (keyof T)[]) {
+      if (!obj || typeof obj !== 'object') {
+         this.addViolation(subject, 'is not an object');
+         return false;
+      }
+      for (const method of methods) {
+         if (typeof obj[method] !== 'function') {
+            this.addViolation(subject, `${String(method)}() is missing`);
+         }
+      }
+      return true;
+   }
+
+   private callExport<T>(
+      moduleName: string,
+      exportName: string,
+      call: () => T[]
+   ): T[] {
+      const result = this.tryCall(moduleName, exportName, call);
+      if (!Array.isArray(result)) {
+         this.addViolation(moduleName, `${exportName}() must return an array`);
+         return [];
+      }
+      return result;
+   }
+
+   private tryCall<T>(subject: string, method: string, call: () => T) {
+      try {
+         return call();
+      } catch (err) {
+         this.addViolation(
+            subject,
+            `${method}() threw: ${(err as Error).message}`
+         );
+         return undefined;
+      }
+   }
+
+   private checkSettingsHierarchy(
+      obj: unknown,
+      subject: string,
+      path: string,
+      visited: Set<unknown>,
+      depth: number
+   ) {
+      if (
+         typeof obj !== 'object' ||
+         obj === null ||
+         visited.has(obj) ||
+         depth > kMaxSettingsDepth
+      ) {
+         return;
+      }
+      visited.add(obj);
+
+      if (isSetting(obj)) {
+         const { value, options } = obj;
+         if (options.length && !options.some((o) => o.value === value)) {
+            this.addViolation(
+               subject,
+               `${path} ('${
+                  obj.settingName
+               }') has value ${value} which is not one of its options (${options
+                  .map((o) => o.value)
+                  .join(', ')})`
+            );
+         }
+         return;
+      }
+
+      for (const [key, child] of Object.entries(obj as object)) {
+         const childPath = Array.isArray(obj)
+            ? `${path}[${key}]`
+            : `${path}.${key}`;
+         this.checkSettingsHierarchy(
+            child,
+            subject,
+            childPath,
+            visited,
+            depth + 1
+         );
+      }
+   }
+}
@@ -0,0 +1,606 @@
+import {
+   DeviceConnectionInfo,
+   DuplexDeviceConnection,
+   SerialPortOptions,
+   TInt64
+} from './device-api';
+import { DuplexStream } from './device-streams';
+import * as fs from 'fs';
+
+const kCaptureMagic = 'LDSC';
+const kCaptureVersion = 1;
+const kTwoTo32 = 0x100000000;
+
+//Stop recording once this many payload bytes have been captured so a long sampling
+//session can't exhaust memory.
+const kDefaultMaxCaptureBytes = 64 * 1024 * 1024;
+
+//Microsecond ticks. Use IDeviceStreamCaptureOptions.ticksPerSecond if the connection's
+//steady clock ticks at a different rate.
+const kDefaultTicksPerSecond = 1e6;
+
+/**
+ * 'in': bytes received from the device, with the original chunking.
+ * 'out': bytes written to the device.
+ * 'error': an error passed to the read handler (data is the UTF-8 message).
+ * 'start', 'stop': the connection was started or stopped by the host.
+ */
+export type CaptureRecordType = 'in' | 'out' | 'error' | 'start' | 'stop';
+
+const kRecordTypeCodes: CaptureRecordType[] = [
+   'in',
+   'out',
+   'error',
+   'start',
+   'stop'
+];
+
+export interface ICaptureRecord {
+   type: CaptureRecordType;
+   tick: number; //local steady clock tick
+   data: Buffer;
+}
+
+export interface ICaptureMetadata {
+   connection: Partial<DeviceConnectionInfo>;
+   options: SerialPortOptions;
+   startTick: number;
+   ticksPerSecond: number;
+   //True if recording stopped because maxCaptureBytes was reached
+   truncated: boolean;
+}
+
+export interface IDeviceStreamCaptureOptions {
+   ticksPerSecond?: number;
+   maxCaptureBytes?: number;
+}
+
+function tickFromTInt64(tick: TInt64) {
+   return (tick[0] >>> 0) + tick[1] * kTwoTo32;
+}
+
+function writeVarUint(bytes: number[], value: number) {
+   //LEB128, which keeps the tick deltas and chunk lengths to one or two bytes
+   do {
+      let byte = value % 0x80;
+      value = Math.floor(value / 0x80);
+      if (value > 0) {
+         byte |= 0x80;
+      }
+      bytes.push(byte);
+   } while (value > 0);
+}
+
+function readVarUint(buffer: Buffer, offset: number) {
+   let value = 0;
+   let scale = 1;
+   for (;;) {
+      if (offset >= buffer.length) {
+         throw new Error('Device stream capture is truncated');
+      }
+      const byte = buffer[offset++];
+      value += (byte & 0x7f) * scale;
+      if (!(byte & 0x80)) {
+         return { value, offset };
+      }
+      scale *= 0x80;
+   }
+}
+
+function toBuffer(bytes: Buffer | Int8Array) {
+   return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * A log of everything that passed through a DuplexDeviceConnection, stored in a compact
+ * binary file:
+ *
+ * 'LDSC', uint8 version, uint32LE metadata length, metadata JSON, then for each record:
+ * uint8 type, varuint tick delta from the previous record, varuint length, data.
+ */
+export class DeviceStreamCapture {
+   metadata: ICaptureMetadata;
+   records: ICaptureRecord[] = [];
+   maxCaptureBytes: number;
+
+   private capturedBytes = 0;
+
+   constructor(
+      metadata: Partial<ICaptureMetadata> = {},
+      options: IDeviceStreamCaptureOptions = {}
+   ) {
+      this.metadata = {
+         connection: {},
+         options: {},
+         startTick: 0,
+         ticksPerSecond: options.ticksPerSecond ?? kDefaultTicksPerSecond,
+         truncated: false,
+         ...metadata
+      };
+      this.maxCaptureBytes = options.maxCaptureBytes ?? kDefaultMaxCaptureBytes;
+   }
+
+   //Returns false once the capture is full
+   addRecord(type: CaptureRecordType, tick: number, data = Buffer.alloc(0)) {
+      if (this.metadata.truncated) {
+         return false;
+      }
+      if (this.capturedBytes + data.length > this.maxCaptureBytes) {
+         this.metadata.truncated = true;
+         return false;
+      }
+      this.capturedBytes += data.length;
+      //Copy because Quark may reuse the chunk's memory
+      this.records.push({ type, tick, data: Buffer.from(data) });
+      return true;
+   }
+
+   toBuffer(): Buffer {
+      const metadata = Buffer.from(JSON.stringify(this.metadata), 'utf8');
+      const header = Buffer.alloc(kCaptureMagic.length + 5);
+      header.write(kCaptureMagic, 0, 'binary');
+      header[kCaptureMagic.length] = kCaptureVersion;
+      header.writeUInt32LE(metadata.length, kCaptureMagic.length + 1);
+
+      const parts = [header, metadata];
+      let lastTick = this.metadata.startTick;
+      for (const record of this.records) {
+         const prefix: number[] = [kRecordTypeCodes.indexOf(record.type)];
+         writeVarUint(prefix, Math.max(0, record.tick - lastTick));
+         writeVarUint(prefix, record.data.length);
+         parts.push(Buffer.from(prefix), record.data);
+         lastTick = Math.max(lastTick, record.tick);
+      }
+      return Buffer.concat(parts);
+   }
+
+   static fromBuffer(buffer: Buffer): DeviceStreamCapture {
+      if (
+         buffer.toString('binary', 0, kCaptureMagic.length) !== kCaptureMagic
+      ) {
+         throw new Error('Not a device stream capture');
+      }
+      const version = buffer[kCaptureMagic.length];
+      if (version !== kCaptureVersion) {
+         throw new Error(
+            `Unsupported device stream capture version ${version}`
+         );
+      }
+      const metadataStart = kCaptureMagic.length + 5;
+      const metadataEnd =
+         metadataStart + buffer.readUInt32LE(kCaptureMagic.length + 1);
+      const metadata = JSON.parse(
+         buffer.toString('utf8', metadataStart, metadataEnd)
+      ) as ICaptureMetadata;
+
+      const capture = new DeviceStreamCapture(metadata, {
+         maxCaptureBytes: Infinity
+      });
+      capture.metadata.truncated = false; //so addRecord() accepts the records
+      let offset = metadataEnd;
+      let tick = metadata.startTick;
+      while (offset < buffer.length) {
+         const type = kRecordTypeCodes[buffer[offset++]];
+         if (!type) {
+            throw new Error(
+               `Unknown device stream capture record type ${buffer[offset - 1]}`
+            );
+         }
+         const delta = readVarUint(buffer, offset);
+         const length = readVarUint(buffer, delta.offset);
+         offset = length.offset + length.value;
+         if (offset > buffer.length) {
+            throw new Error('Device stream capture is truncated');
+         }
+         tick += delta.value;
+         capture.addRecord(type, tick, buffer.slice(length.offset, offset));
+      }
+      capture.metadata.truncated = metadata.truncated;
+      return capture;
+   }
+
+   saveToFile(filePath: string) {
+      fs.writeFileSync(filePath, this.toBuffer());
+   }
+
+   static loadFromFile(filePath: string) {
+      return DeviceStreamCapture.fromBuffer(fs.readFileSync(filePath));
+   }
+}
+
+/**
+ * Wraps a DuplexDeviceConnection, recording every chunk received, every write and every
+ * start()/stop() into a DeviceStreamCapture. Can be passed anywhere the wrapped connection
+ * would be, e.g. to DeviceClass.checkDeviceIsPresent() in a test. Pass the same capture to
+ * several recorders to record successive streams on one connection.
+ */
+export class RecordingDeviceConnection implements DuplexDeviceConnection {
+   capture: DeviceStreamCapture;
+
+   private readHandler:
+      | ((error: Error | null, buffer: Int8Array | null) => void)
+      | null = null;
+   private isRunning = false;
+   private tickNow = new Int32Array(2);
+
+   constructor(
+      public source: DuplexDeviceConnection,
+      capture?: DeviceStreamCapture
+   ) {
+      this.capture = capture ?? new DeviceStreamCapture();
+      if (!this.capture.records.length) {
+         this.capture.metadata.connection = {
+            devicePath: source.devicePath,
+            friendlyName: source.friendlyName,
+            pnpId: source.pnpId,
+            vendorId: source.vendorId,
+            productId: source.productId,
+            manufacturer: source.manufacturer,
+            serialNumber: source.serialNumber,
+            deviceInstanceId: source.deviceInstanceId
+         };
+         this.capture.metadata.startTick = this.currentTick();
+      }
+   }
+
+   get devicePath() {
+      return this.source.devicePath;
+   }
+   get friendlyName() {
+      return this.source.friendlyName;
+   }
+   get pnpId() {
+      return this.source.pnpId;
+   }
+   get vendorId() {
+      return this.source.vendorId;
+   }
+   get productId() {
+      return this.source.productId;
+   }
+   get manufacturer() {
+      return this.source.manufacturer;
+   }
+   get serialNumber() {
+      return this.source.serialNumber;
+   }
+   get deviceInstanceId() {
+      return this.source.deviceInstanceId;
+   }
+
+   start(): boolean {
+      const started = this.source.start();
+      if (started && !this.isRunning) {
+         this.capture.addRecord('start', this.currentTick());
+      }
+      this.isRunning = started;
+      return started;
+   }
+
+   stop(): void {
+      this.recordStop();
+      this.source.stop();
+   }
+
+   setReadHandler(
+      callback: (error: Error | null, buffer: Int8Array | null) => void
+   ): void {
+      this.readHandler = callback;
+      this.source.setReadHandler(this.onRead);
+   }
+
+   onStreamDestroy(): void {
+      this.recordStop();
+      this.readHandler = null;
+      this.source.onStreamDestroy();
+   }
+
+   release(): void {
+      this.recordStop();
+      this.source.release();
+   }
+
+   setOption(options: SerialPortOptions): void {
+      Object.assign(this.capture.metadata.options, options);
+      this.source.setOption(options);
+   }
+
+   getLocalSteadyClockTickNow(timeTick: TInt64): void {
+      this.source.getLocalSteadyClockTickNow(timeTick);
+   }
+
+   isOpen(): boolean {
+      return this.source.isOpen();
+   }
+
+   lastError(): string {
+      return this.source.lastError();
+   }
+
+   isReceivingData(): boolean {
+      return this.source.isReceivingData();
+   }
+
+   write(buffer: Buffer, callback: (error?: Error) => void): void {
+      this.capture.addRecord('out', this.currentTick(), buffer);
+      this.source.write(buffer, callback);
+   }
+
+   private onRead = (error: Error | null, buffer: Int8Array | null) => {
+      const tick = this.currentTick();
+      if (error) {
+         this.capture.addRecord('error', tick, Buffer.from(error.message));
+      }
+      if (buffer) {
+         this.capture.addRecord('in', tick, toBuffer(buffer));
+      }
+      if (this.readHandler) {
+         this.readHandler(error, buffer);
+      }
+   };
+
+   private recordStop() {
+      if (this.isRunning) {
+         this.isRunning = false;
+         this.capture.addRecord('stop', this.currentTick());
+      }
+   }
+
+   private currentTick() {
+      this.source.getLocalSteadyClockTickNow(this.tickNow);
+      return tickFromTInt64(this.tickNow);
+   }
+}
+
+/**
+ * A DuplexStream that records all the traffic on its connection. Use in place of
+ * DuplexStream while reproducing a parser problem, then save stream.capture to a file.
+ */
+export class RecordingDuplexStream extends DuplexStream {
+   recorder: RecordingDeviceConnection;
+
+   constructor(source: DuplexDeviceConnection, capture?: DeviceStreamCapture) {
+      super(new RecordingDeviceConnection(source, capture));
+      this.recorder = this.source as RecordingDeviceConnection;
+   }
+
+   get capture() {
+      return this.recorder.capture;
+   }
+}
+
+export interface IReplayDeviceConnectionOptions {
+   //Replay faster (> 1) or slower than the original timing
+   speed?: number;
+}
+
+/**
+ * Plays a DeviceStreamCapture back to a device script with the original chunking and
+ * timing so parser bugs can be reproduced deterministically (e.g. with jest fake timers).
+ *
+ * Received chunks are delivered while the connection is running. start() skips the gap
+ * before the next recorded start and playback pauses at each recorded stop until the host
+ * calls start() again. Writes from the host are compared against the recorded writes and
+ * any differences are listed in writeMismatches.
+ */
+export class ReplayDeviceConnection implements DuplexDeviceConnection {
+   devicePath = '';
+   friendlyName = '';
+   pnpId = '';
+   vendorId = '';
+   productId = '';
+   manufacturer = '';
+   serialNumber = '';
+   deviceInstanceId = '';
+
+   options: SerialPortOptions = {};
+   //Everything the host has written
+   written: Buffer[] = [];
+   writeMismatches: string[] = [];
+
+   private speed: number;
+   private readHandler:
+      | ((error: Error | null, buffer: Int8Array | null) => void)
+      | null = null;
+   private isRunning = false;
+   private nextRecord = 0;
+   private nextRecordedWrite = 0;
+   private timer: NodeJS.Timeout | undefined;
+   //The capture tick that corresponds to replayStartms
+   private replayStartTick: number;
+   private replayStartms = 0;
+   private lastErrorMessage = '';
+   private lastReceivedTick = -Infinity;
+
+   constructor(
+      public capture: DeviceStreamCapture,
+      options: IReplayDeviceConnectionOptions = {}
+   ) {
+      Object.assign(this, capture.metadata.connection);
+      this.speed = options.speed ?? 1;
+      this.replayStartTick = capture.metadata.startTick;
+   }
+
+   get isFinished() {
+      return this.nextRecord >= this.capture.records.length;
+   }
+
+   start(): boolean {
+      if (this.isRunning) {
+         return true;
+      }
+      const record = this.capture.records[this.nextRecord];
+      let tick = this.replayStartTick;
+      if (record && record.type === 'start') {
+         tick = record.tick;
+         ++this.nextRecord;
+      }
+      this.isRunning = true;
+      this.resumeAt(tick);
+      return true;
+   }
+
+   stop(): void {
+      if (this.isRunning) {
+         const tick = this.captureTickNow();
+         this.isRunning = false;
+         this.replayStartTick = tick;
+         this.cancelTimer();
+      }
+   }
+
+   setReadHandler(
+      callback: (error: Error | null, buffer: Int8Array | null) => void
+   ): void {
+      this.readHandler = callback;
+   }
+
+   onStreamDestroy(): void {
+      this.readHandler = null;
+      this.stop();
+   }
+
+   release(): void {
+      this.onStreamDestroy();
+   }
+
+   setOption(options: SerialPortOptions): void {
+      Object.assign(this.options, options);
+   }
+
+   getLocalSteadyClockTickNow(timeTick: TInt64): void {
+      const tick = Math.round(this.captureTickNow());
+      timeTick[0] = tick % kTwoTo32 | 0;
+      timeTick[1] = Math.floor(tick / kTwoTo32) | 0;
+   }
+
+   isOpen(): boolean {
+      return true;
+   }
+
+   lastError(): string {
+      return this.lastErrorMessage;
+   }
+
+   isReceivingData(): boolean {
+      const receivingDataTicks = 0.2 * this.capture.metadata.ticksPerSecond;
+      return (
+         this.isRunning &&
+         this.captureTickNow() - this.lastReceivedTick < receivingDataTicks
+      );
+   }
+
+   write(buffer: Buffer, callback: (error?: Error) => void): void {
+      const bytes = Buffer.from(buffer);
+      this.checkWrite(bytes);
+      this.written.push(bytes);
+      callback();
+   }
+
+   private checkWrite(bytes: Buffer) {
+      const { records } = this.capture;
+      while (
+         this.nextRecordedWrite < records.length &&
+         records[this.nextRecordedWrite].type !== 'out'
+      ) {
+         ++this.nextRecordedWrite;
+      }
+      const expected = records[this.nextRecordedWrite];
+      const description = (data: Buffer) =>
+         JSON.stringify(data.toString('binary'));
+      if (!expected) {
+         this.writeMismatches.push(
+            `write ${this.written.length}: unexpected ${description(bytes)}`
+         );
+         return;
+      }
+      ++this.nextRecordedWrite;
+      if (!expected.data.equals(bytes)) {
+         this.writeMismatches.push(
+            `write ${this.written.length}: expected ${description(
+               expected.data
+            )}, got ${description(bytes)}`
+         );
+      }
+   }
+
+   //The capture tick corresponding to the current time
+   private captureTickNow() {
+      if (!this.isRunning) {
+         return this.replayStartTick;
+      }
+      const elapsedms = (performance.now() - this.replayStartms) * this.speed;
+      return (
+         this.replayStartTick +
+         (elapsedms * this.capture.metadata.ticksPerSecond) / 1000
+      );
+   }
+
+   private resumeAt(tick: number) {
+      this.replayStartTick = tick;
+      this.replayStartms = performance.now();
+      this.scheduleNextRecord();
+   }
+
+   private scheduleNextRecord() {
+      this.cancelTimer();
+      const record = this.capture.records[this.nextRecord];
+      if (!this.isRunning || !record) {
+         return;
+      }
+      const delayTicks = record.tick - this.captureTickNow();
+      const delayms =
+         (delayTicks * 1000) /
+         this.capture.metadata.ticksPerSecond /
+         this.speed;
+      this.timer = setTimeout(this.onTimer, Math.max(0, delayms));
+   }
+
+   private cancelTimer() {
+      if (this.timer !== undefined) {
+         clearTimeout(this.timer);
+         this.timer = undefined;
+      }
+   }
+
+   private onTimer = () => {
+      this.timer = undefined;
+      const { records } = this.capture;
+      //Deliver everything that is due, one read handler call per recorded chunk
+      while (this.isRunning && this.nextRecord < records.length) {
+         const record = records[this.nextRecord];
+         if (record.tick > this.captureTickNow()) {
+            break;
+         }
+         ++this.nextRecord;
+         this.playRecord(record);
+      }
+      this.scheduleNextRecord();
+   };
+
+   private playRecord(record: ICaptureRecord) {
+      switch (record.type) {
+         case 'in':
+            this.lastReceivedTick = record.tick;
+            if (this.readHandler) {
+               //Quark delivers node Buffers despite the declared Int8Array type
+               this.readHandler(null, record.data as unknown as Int8Array);
+            }
+            break;
+         case 'error':
+            this.lastErrorMessage = record.data.toString('utf8');
+            if (this.readHandler) {
+               this.readHandler(new Error(this.lastErrorMessage), null);
+            }
+            break;
+         case 'stop':
+            //Wait for the host to start the connection again
+            this.stop();
+            this.replayStartTick = record.tick;
+            break;
+         default:
+            //Writes are checked in write()
+            break;
+      }
+   }
+}
@@ -4,6 +4,15 @@ type ErrorListener = (err: Error) => {};
 type DataListener = (chunk: Int8Array | null) => {};
 type DestroyListener = (error: Error | null) => void;
 
+/**
+ * Receives every chunk and error from a DuplexStream in addition to its 'data' and 'error'
+ * listeners, e.g. so a CommandChannel can wait for replies while a Parser consumes packets.
+ */
+export interface IStreamTap {
+   onData?(chunk: Int8Array): void;
+   onError?(error: Error): void;
+}
+
 type EmitFunc = (event: string | symbol, ...args: any[]) => boolean;
 
 export class DuplexStream implements IDuplexStream {
@@ -18,6 +27,8 @@ export class DuplexStream implements IDuplexStream {
    onData: DataListener;
    onDestroy = (error: Error | null) => {}; //DestroyListener
 
+   private taps: IStreamTap[] = [];
+
    defaultWriteCallback = (error: Error | null | undefined) => {
       return;
    };
@@ -41,7 +52,9 @@ export class DuplexStream implements IDuplexStream {
 
    emit(event: string | symbol, ...args: any[]): boolean {
       if (event === 'error') {
-         this.onError(new Error(args[0]));
+         const error = new Error(args[0]);
+         this.tapError(error);
+         this.onError(error);
          return true;
       }
       return false;
@@ -55,6 +68,20 @@ export class DuplexStream implements IDuplexStream {
       return this;
    }
 
+   addTap(tap: IStreamTap) {
+      this.taps.push(tap);
+   }
+
+   removeTap(tap: IStreamTap) {
+      this.taps = this.taps.filter((t) => t !== tap);
+   }
+
+   private tapError(error: Error) {
+      for (const tap of this.taps) {
+         if (tap.onError) tap.onError(error);
+      }
+   }
+
    destroy(error?: Error): void {
       this._destroy(error, this.onDestroy);
    }
@@ -81,12 +108,18 @@ export class DuplexStream implements IDuplexStream {
       if (error) {
          this.lastErr = error;
          this.isRunning = false;
+         this.tapError(error);
          this.onError(error);
       }
       // if (chunk && !this.push(chunk)) {
       //    this.source.stop();
       //    this.isRunning = false;
       // }
+      if (chunk) {
+         for (const tap of this.taps) {
+            if (tap.onData) tap.onData(chunk);
+         }
+      }
       if (chunk && this.onData) {
          this.onData(chunk);
          //this.source.stop();
@@ -23,6 +23,7 @@ export type DeviceUIElementTypes =
    | 'setting' // Persisted in settings. The most common element.
    | 'adjustable-value' // Non-persisted control over a hardware option.
    | 'read-only-value'
+   | 'indicator' // Read-only value that is polled while the UI is open.
    | 'device-name'
    | 'header'
    | 'message'
@@ -142,11 +143,67 @@ export interface IDeviceUIReadOnlyItem extends IDeviceUIElementBase {
 
    /**
     * If defined, the initial status will be obtained from Quark on first
-    * render of the UI.
+    * render of the UI. Use an 'indicator' element for values that need to
+    * keep updating.
     */
    retrieveValueFromHardware?: () => string;
 }
 
+/**
+ * 'good', 'warn' and 'bad' are coloured green, orange and red respectively.
+ * 'unknown' is shown uncoloured, e.g. before the first value is retrieved.
+ */
+export type DeviceUIIndicatorLevel = 'good' | 'warn' | 'bad' | 'unknown';
+
+export interface IDeviceUIIndicatorThresholds {
+   /**
+    * Values at or beyond warn are shown as 'warn', and values at or beyond bad
+    * are shown as 'bad'. Other values are 'good'.
+    */
+   warn: number;
+   bad: number;
+
+   /**
+    * If true, lower values are worse, e.g. battery level or Bluetooth RSSI.
+    * Defaults to false, i.e. higher values are worse, e.g. packet loss.
+    */
+   lowerIsWorse?: boolean;
+}
+
+export interface IDeviceUIIndicator extends IDeviceUIElementBase {
+   label: string;
+
+   /**
+    * Called on first render and then every refreshIntervalms until the UI is
+    * closed. Resolve null if the value is not currently available (e.g. not
+    * sampling), in which case the indicator is shown blank.
+    *
+    * Use IDeviceProxyAPI.callFunction() to obtain values from the proxy device.
+    */
+   retrieveValue: () => Promise<number | null>;
+
+   /**
+    * How often retrieveValue() is called. Defaults to 1000 ms. The next call is
+    * not made until the previous one has settled.
+    */
+   refreshIntervalms?: number;
+
+   /**
+    * Optional suffix to be displayed after the value.
+    *
+    * E.g. ' %'
+    */
+   suffix?: string;
+
+   // Defaults to 0
+   decimalPlaces?: number;
+
+   /**
+    * If not specified, the value is shown uncoloured.
+    */
+   thresholds?: IDeviceUIIndicatorThresholds;
+}
+
 export interface IDeviceUIAdjustableValueRange {
    min: number;
    max: number;
@@ -355,6 +412,7 @@ export type IUIElementApi =
    | ({ type: 'setting' } & IDeviceUISetting)
    | ({ type: 'adjustable-value' } & IDeviceUIAdjustableValue)
    | ({ type: 'read-only-value' } & IDeviceUIReadOnlyItem)
+   | ({ type: 'indicator' } & IDeviceUIIndicator)
    | ({ type: 'header' } & IDeviceUIHeader)
    | ({ type: 'device-name' } & IDeviceUIHeader)
    | ({ type: 'message' } & IDeviceUIMessage)
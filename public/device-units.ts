@@ -66,3 +66,31 @@ export class UnitsInfo16Bit extends UnitsInfoImpl {
       );
    }
 }
+
+/**
+ * Units for streams using k32BitBlockDataFormat. By default the full scale is the full
+ * 32 bit range. For ADCs with fewer bits, e.g. 24 bit, pass the ADC's full scale value
+ * (e.g. 0x7fffff) as maxInADCValues.
+ */
+export class UnitsInfo32Bit extends UnitsInfoImpl {
+   constructor(
+      unitName: string,
+      prefix: UnitPrefix,
+      defaultDecPlaces: number,
+      maxInPrefixedUnits: number,
+      minInPrefixedUnits: number,
+      maxInADCValues = 0x7fffffff
+   ) {
+      super(
+         unitName,
+         prefix,
+         defaultDecPlaces,
+         maxInPrefixedUnits,
+         maxInADCValues, // maxInADCValues
+         minInPrefixedUnits,
+         -maxInADCValues, //minInADCValues
+         maxInADCValues, //maxValidADCValue
+         -maxInADCValues //minValidADCValue
+      );
+   }
+}
@@ -0,0 +1,176 @@
+import { IDeviceVersionInfo } from './device-api';
+
+/**
+ * A parsed firmware version, e.g. '0.9.1' or '1.2.0-beta.2'. Leading 'v's are ignored and a
+ * missing minor or patch number is treated as 0, so 'V1.2' is the same as '1.2.0'.
+ */
+export interface ISemanticVersion {
+   major: number;
+   minor: number;
+   patch: number;
+   prerelease: string[]; //e.g. ['beta', '2']
+}
+
+const kVersionRegex =
+   /^\s*v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?\s*$/i;
+
+/**
+ * @returns null if version is not a semantic version
+ */
+export function parseVersion(version: string): ISemanticVersion | null {
+   const match = kVersionRegex.exec(version);
+   if (!match) {
+      return null;
+   }
+   return {
+      major: Number(match[1]),
+      minor: Number(match[2] ?? 0),
+      patch: Number(match[3] ?? 0),
+      prerelease: match[4] ? match[4].split('.') : []
+   };
+}
+
+function comparePrereleaseIds(a: string, b: string) {
+   const aIsNumber = /^\d+$/.test(a);
+   const bIsNumber = /^\d+$/.test(b);
+   if (aIsNumber && bIsNumber) return Number(a) - Number(b);
+   if (aIsNumber) return -1; //numeric identifiers sort before alphanumeric ones
+   if (bIsNumber) return 1;
+   return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function toSemanticVersion(version: string | ISemanticVersion) {
+   if (typeof version !== 'string') {
+      return version;
+   }
+   const parsed = parseVersion(version);
+   if (!parsed) {
+      throw new Error(`'${version}' is not a valid firmware version`);
+   }
+   return parsed;
+}
+
+/**
+ * Compares versions using semantic versioning precedence, so a pre-release such as
+ * '1.0.0-beta' is earlier than '1.0.0'.
+ *
+ * @returns a negative number if a < b, 0 if they are equal, otherwise a positive number.
+ * Throws if either string is not a valid version.
+ */
+export function compareVersions(
+   a: string | ISemanticVersion,
+   b: string | ISemanticVersion
+): number {
+   const va = toSemanticVersion(a);
+   const vb = toSemanticVersion(b);
+   const diff =
+      va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+   if (diff) {
+      return diff;
+   }
+   //A version without a pre-release is later than the same version with one
+   if (!va.prerelease.length || !vb.prerelease.length) {
+      return vb.prerelease.length - va.prerelease.length;
+   }
+   const n = Math.min(va.prerelease.length, vb.prerelease.length);
+   for (let i = 0; i < n; ++i) {
+      const idDiff = comparePrereleaseIds(va.prerelease[i], vb.prerelease[i]);
+      if (idDiff) {
+         return idDiff;
+      }
+   }
+   return va.prerelease.length - vb.prerelease.length;
+}
+
+//Returns false if version is not a valid version
+export function isVersionAtLeast(version: string, minimumVersion: string) {
+   const parsed = parseVersion(version);
+   return parsed !== null && compareVersions(parsed, minimumVersion) >= 0;
+}
+
+export interface IFirmwareFeature {
+   //First firmware version supporting the feature
+   since: string;
+   //Shown to the user if the firmware is too old, e.g. "USB frame time synchronization"
+   description: string;
+}
+
+/**
+ * Declares which firmware versions a device script supports and the version each optional
+ * feature (typically a command) was introduced in.
+ */
+export interface IFirmwareCapabilityTable<TFeature extends string = string> {
+   //Older firmware is rejected
+   minimumVersion?: string;
+   features: Record<TFeature, IFirmwareFeature>;
+}
+
+export interface IFirmwareCompatibility<TFeature extends string = string> {
+   //False if the firmware version is older than the table's minimumVersion or, if there is
+   //a minimumVersion, is not a valid version
+   isSupported: boolean;
+   features: Set<TFeature>;
+   missingFeatures: TFeature[];
+   //Explains why the firmware is not supported or which features are unavailable.
+   //Empty if the firmware supports everything in the table.
+   message: string;
+}
+
+/**
+ * Works out which features in the table the device's firmware supports. A feature is
+ * supported if the firmware version is at least the feature's 'since' version, or if the
+ * firmware lists it in versionInfo.features.
+ */
+export function checkFirmwareCompatibility<TFeature extends string>(
+   versionInfo: IDeviceVersionInfo,
+   table: IFirmwareCapabilityTable<TFeature>
+): IFirmwareCompatibility<TFeature> {
+   const name = versionInfo.deviceName || versionInfo.deviceClass;
+   const version = parseVersion(versionInfo.version ?? '');
+   const advertised = new Set(versionInfo.features ?? []);
+   const features = new Set<TFeature>();
+   const missingFeatures: TFeature[] = [];
+   for (const feature of Object.keys(table.features) as TFeature[]) {
+      const { since } = table.features[feature];
+      if (
+         advertised.has(feature) ||
+         (version && compareVersions(version, since) >= 0)
+      ) {
+         features.add(feature);
+      } else {
+         missingFeatures.push(feature);
+      }
+   }
+
+   const { minimumVersion } = table;
+   if (
+      minimumVersion &&
+      (!version || compareVersions(version, minimumVersion) < 0)
+   ) {
+      return {
+         isSupported: false,
+         features,
+         missingFeatures,
+         message:
+            `${name} firmware version '${versionInfo.version}' is not supported. ` +
+            `Please update it to version ${minimumVersion} or later.`
+      };
+   }
+
+   let message = '';
+   if (missingFeatures.length) {
+      const latestNeeded = missingFeatures
+         .map((feature) => table.features[feature].since)
+         .reduce((latest, since) =>
+            compareVersions(since, latest) > 0 ? since : latest
+         );
+      const descriptions = missingFeatures.map(
+         (feature) => table.features[feature].description
+      );
+      message =
+         `${name} firmware version '${versionInfo.version}' does not support ` +
+         `${descriptions.join(', ')}. ` +
+         `Please update it to version ${latestNeeded} or later.`;
+   }
+   return { isSupported: true, features, missingFeatures, message };
+}
@@ -0,0 +1,163 @@
+/**
+ * Checksums used by device firmwares to detect corrupted packets. See IPacketFormat.checksum.
+ *
+ * 'crc8': CRC-8/SMBUS, polynomial 0x07.
+ * 'crc8-maxim': CRC-8 Dallas/Maxim - x^8 + x^5 + x^4 + x^1, as used by the NIBP Nano.
+ * 'crc16-ccitt': CRC-16/CCITT-FALSE, polynomial 0x1021, initial value 0xffff.
+ * 'crc32': CRC-32 as used by zlib and Ethernet.
+ * 'fletcher16': Fletcher-16 over bytes.
+ * 'fletcher32': Fletcher-32 over little endian 16 bit words, zero padded to an even length.
+ * 'xor': all the bytes XORed together.
+ */
+export type ChecksumAlgorithm =
+   | 'crc8'
+   | 'crc8-maxim'
+   | 'crc16-ccitt'
+   | 'crc32'
+   | 'fletcher16'
+   | 'fletcher32'
+   | 'xor';
+
+/**
+ * Describes the checksum that follows the payload of each packet.
+ */
+export interface IPacketChecksum {
+   algorithm: ChecksumAlgorithm;
+   //If true, the checksum also covers the header bytes, type byte and packet counter.
+   //Otherwise it only covers the payload.
+   includeHeader?: boolean;
+   //Multi-byte checksums are little endian by default
+   bigEndian?: boolean;
+}
+
+export function checksumSizeBytes(algorithm: ChecksumAlgorithm): number {
+   switch (algorithm) {
+      case 'crc8':
+      case 'crc8-maxim':
+      case 'xor':
+         return 1;
+      case 'crc16-ccitt':
+      case 'fletcher16':
+         return 2;
+      case 'crc32':
+      case 'fletcher32':
+         return 4;
+   }
+   return 0;
+}
+
+export function crc8(data: Uint8Array, start = 0, end = data.length) {
+   let crc = 0;
+   for (let i = start; i < end; ++i) {
+      crc ^= data[i];
+      for (let bit = 0; bit < 8; ++bit) {
+         crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+      }
+   }
+   return crc;
+}
+
+export function crc8Maxim(data: Uint8Array, start = 0, end = data.length) {
+   let crc = 0;
+   for (let i = start; i < end; ++i) {
+      let chr = data[i];
+      for (let bit = 0; bit < 8; ++bit) {
+         const mix = (chr ^ crc) & 1;
+         crc >>= 1;
+         chr >>= 1;
+         if (mix) crc ^= 0x8c;
+      }
+   }
+   return crc;
+}
+
+export function crc16CCITT(data: Uint8Array, start = 0, end = data.length) {
+   let crc = 0xffff;
+   for (let i = start; i < end; ++i) {
+      crc ^= data[i] << 8;
+      for (let bit = 0; bit < 8; ++bit) {
+         crc =
+            crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+      }
+   }
+   return crc;
+}
+
+let crc32Table: Uint32Array | undefined;
+
+function getCRC32Table() {
+   if (!crc32Table) {
+      crc32Table = new Uint32Array(256);
+      for (let n = 0; n < 256; ++n) {
+         let c = n;
+         for (let bit = 0; bit < 8; ++bit) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+         }
+         crc32Table[n] = c >>> 0;
+      }
+   }
+   return crc32Table;
+}
+
+export function crc32(data: Uint8Array, start = 0, end = data.length) {
+   const table = getCRC32Table();
+   let crc = 0xffffffff;
+   for (let i = start; i < end; ++i) {
+      crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+   }
+   return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function fletcher16(data: Uint8Array, start = 0, end = data.length) {
+   let sum1 = 0;
+   let sum2 = 0;
+   for (let i = start; i < end; ++i) {
+      sum1 = (sum1 + data[i]) % 255;
+      sum2 = (sum2 + sum1) % 255;
+   }
+   return (sum2 << 8) | sum1;
+}
+
+export function fletcher32(data: Uint8Array, start = 0, end = data.length) {
+   let sum1 = 0;
+   let sum2 = 0;
+   for (let i = start; i < end; i += 2) {
+      const word = data[i] | (i + 1 < end ? data[i + 1] << 8 : 0);
+      sum1 = (sum1 + word) % 65535;
+      sum2 = (sum2 + sum1) % 65535;
+   }
+   return ((sum2 << 16) | sum1) >>> 0;
+}
+
+export function xorChecksum(data: Uint8Array, start = 0, end = data.length) {
+   let result = 0;
+   for (let i = start; i < end; ++i) {
+      result ^= data[i];
+   }
+   return result;
+}
+
+export function calcChecksum(
+   algorithm: ChecksumAlgorithm,
+   data: Uint8Array,
+   start = 0,
+   end = data.length
+): number {
+   switch (algorithm) {
+      case 'crc8':
+         return crc8(data, start, end);
+      case 'crc8-maxim':
+         return crc8Maxim(data, start, end);
+      case 'crc16-ccitt':
+         return crc16CCITT(data, start, end);
+      case 'crc32':
+         return crc32(data, start, end);
+      case 'fletcher16':
+         return fletcher16(data, start, end);
+      case 'fletcher32':
+         return fletcher32(data, start, end);
+      case 'xor':
+         return xorChecksum(data, start, end);
+   }
+   throw new Error(`Unknown checksum algorithm '${algorithm}'`);
+}
@@ -7,12 +7,23 @@
 import {
    IDuplexStream,
    IDataSink,
+   IStreamBuffer,
    TInt64,
    TimePoint,
    USBTimePoint,
    FirstSampleRemoteTime,
    isUSBTimePoint
 } from './device-api';
+import {
+   IPacketChecksum,
+   calcChecksum,
+   checksumSizeBytes
+} from './packet-checksums';
+import { ParserStats } from './parser-stats';
+import {
+   InterleavedStreamWriter,
+   StreamRingBufferImpl
+} from './stream-ring-buffer';
 //import { assert } from 'libs/utility/assert';
 
 export enum SamplingState {
@@ -20,7 +31,11 @@ export enum SamplingState {
    kSampling
 }
 
-const enum PacketType {
+/**
+ * Identifiers for the packet types understood by the built-in payload handlers.
+ * Device-specific packet formats can use these to reuse the Parser's time packet handling.
+ */
+export enum PacketType {
    kNotFound = 0 | 0,
    kData = 1 | 0,
    kTime = 2 | 0,
@@ -41,38 +56,203 @@ const kPointsPerMediumSizeDataPacket = 10;
 const kMinimumSamplingUpdatePeriodms = 50;
 const kGetRemoteTimeTimeoutms = 500;
 
-//not including the packet number. Invariant part of the packet header.
-const kPacketHeaderSizeBytes = 3;
-const kPacketHeaderWithNumber = 4; //including the packet number
-
-const kSampleSizeBytes = 2;
 const kADCChannels = 2;
 
-const kPacketStartByte = 0x50; //'P'
-const kPacket2ndByte = 0xa0;
+const kTwoTo32 = 0x100000000;
+
+//How far, in counter cycles, the device clock may be from a whole number of lost counter
+//cycles for them to be added. Chunk latency adds to the error, so this is well inside the
+//half a cycle that would add or drop a cycle.
+const kMaxLostCycleError = 0.25;
 
-function packetTypeToSize(type: PacketType, nADCChannels: number) {
+export type SampleType = 'int16' | 'int24' | 'int32';
+
+function sampleTypeToSize(type: SampleType) {
    switch (type) {
-      case PacketType.kData:
-         return (
-            kPacketHeaderWithNumber +
-            kPointsPerDataPacket * nADCChannels * kSampleSizeBytes
-         );
-      case PacketType.kTime:
-         return kPacketHeaderWithNumber + 1 + 4; //request number + 32 bit clock tick
-      case PacketType.kFirstSampleTime:
-         return kPacketHeaderWithNumber + 4; //32 bit clock tick
-      case PacketType.kMediumData:
-         return (
-            kPacketHeaderWithNumber +
-            kPointsPerMediumSizeDataPacket * nADCChannels * kSampleSizeBytes
-         );
-      case PacketType.kUSBFrameTIme:
-         return kPacketHeaderWithNumber + 1 + 4 + 2 + 4; //request number + 32 bit clock tick + 16 bit USB frame number + 32 bit clock tick at last frame
+      case 'int16':
+         return 2;
+      case 'int24':
+         return 3;
+      case 'int32':
+         return 4;
    }
    return 0;
 }
 
+/**
+ * Describes how a single ADC channel's samples are encoded within a data packet payload.
+ */
+export interface ISampleEncoding {
+   type: SampleType;
+   signed: boolean;
+   bigEndian?: boolean; //defaults to little endian
+
+   //If specified, decoded samples are multiplied by scale and written to the stream
+   //buffer using writeValue(), e.g. for Float32Array backed StreamRingBufferImpls. Otherwise
+   //the decoded integer is written using writeInt().
+   //N.B. values written to Int16Array backed buffers are truncated, so e.g. use a scale of
+   //1/256 to keep the most significant 16 bits of an int24 sample.
+   scale?: number;
+}
+
+//The example Arduino firmwares send unsigned little endian 16 bit samples.
+export const kArduinoSampleEncoding: ISampleEncoding = {
+   type: 'int16',
+   signed: false
+};
+
+export function decodeSample(
+   data: Buffer,
+   offset: number,
+   encoding: ISampleEncoding
+): number {
+   const size = sampleTypeToSize(encoding.type);
+   if (encoding.signed) {
+      return encoding.bigEndian
+         ? data.readIntBE(offset, size)
+         : data.readIntLE(offset, size);
+   }
+   return encoding.bigEndian
+      ? data.readUIntBE(offset, size)
+      : data.readUIntLE(offset, size);
+}
+
+/**
+ * Called once the complete payload of a packet has been received.
+ *
+ * @returns false if the packet is bad, in which case the parser starts searching for a new
+ * packet header from the start of the payload.
+ */
+export type PacketPayloadHandler = (parser: Parser, payload: Buffer) => boolean;
+
+/**
+ * Describes one type of packet within an IPacketFormat.
+ */
+export interface IPacketTypeFormat {
+   //Byte following the header bytes that identifies this type of packet, e.g. 0x44 ('D')
+   typeByte: number;
+
+   //Optional identifier passed back via Parser.packetType, e.g. PacketType.kTime
+   id?: number;
+
+   //Size of the payload, i.e. not including the header, type or packet counter bytes.
+   //Use a function if the size depends on the parser, e.g. the number of ADC channels.
+   payloadSizeBytes: number | ((parser: Parser) => number);
+
+   handler: PacketPayloadHandler;
+}
+
+/**
+ * Declarative description of the framing used by a device's firmware.
+ * Each packet is laid out as:
+ * [headerBytes...] [typeByte] [packet counter (counterBytes)] [payload] [checksum]
+ */
+export interface IPacketFormat {
+   //Fixed bytes at the start of every packet, e.g. [0x50, 0xa0]
+   headerBytes: number[];
+
+   //Width of the packet counter following the type byte. 0 if the firmware
+   //does not send a packet counter. A wider counter means more packets can be lost
+   //before the counter wraps around and the loss is undercounted.
+   counterBytes: 0 | 1 | 2 | 4;
+   //Multi-byte counters are little endian by default
+   counterBigEndian?: boolean;
+
+   //Optional checksum following the payload. Packets that fail the check are discarded
+   //and treated as lost.
+   checksum?: IPacketChecksum;
+
+   packetTypes: IPacketTypeFormat[];
+}
+
+/**
+ * Creates a packet type containing pointsPerPacket points, where each point is the
+ * set of samples across the parser's ADC channels, encoded using the parser's sample
+ * encodings.
+ */
+export function dataPacketType(
+   typeByte: number,
+   pointsPerPacket: number,
+   id = PacketType.kData
+): IPacketTypeFormat {
+   return {
+      typeByte,
+      id,
+      payloadSizeBytes: (parser: Parser) =>
+         pointsPerPacket * parser.bytesPerPoint,
+      handler: (parser: Parser, payload: Buffer) =>
+         parser.processDataPacketPayload(payload, pointsPerPacket)
+   };
+}
+
+/**
+ * Packet format sent by the example firmwares (e.g. DueLightning.ino and SAMD51Lightning.ino).
+ */
+export const kArduinoPacketFormat: IPacketFormat = {
+   headerBytes: [0x50, 0xa0], //'P' 0xA0
+   counterBytes: 1,
+   packetTypes: [
+      dataPacketType(0x44, kPointsPerDataPacket), //'D'
+      dataPacketType(
+         0x4d,
+         kPointsPerMediumSizeDataPacket,
+         PacketType.kMediumData
+      ), //'M'
+      {
+         typeByte: 0x4e, //'N'
+         id: PacketType.kTime,
+         payloadSizeBytes: 1 + 4, //request number + 32 bit clock tick
+         handler: (parser: Parser, payload: Buffer) =>
+            parser.processTimePacketPayload(payload)
+      },
+      {
+         typeByte: 0x46, //'F'
+         id: PacketType.kFirstSampleTime,
+         payloadSizeBytes: 4, //32 bit clock tick
+         handler: (parser: Parser, payload: Buffer) =>
+            parser.processFirstSampleTimePacketPayload(payload)
+      },
+      {
+         typeByte: 0x4c, //'L'
+         id: PacketType.kUSBFrameTIme,
+         payloadSizeBytes: 1 + 4 + 2 + 4, //request number + 32 bit clock tick + 16 bit USB frame number + 32 bit clock tick at last frame
+         handler: (parser: Parser, payload: Buffer) =>
+            parser.processTimePacketPayload(payload, true)
+      }
+   ]
+};
+
+/**
+ * Optional cross-check of lost packets against the time elapsed on the device's clock.
+ * A packet counter cannot tell the difference between losing n packets and losing n plus a
+ * whole number of counter cycles (e.g. 256 packets for an 8 bit counter). With this check,
+ * the number of points the device should have sent since its first sample is used to work
+ * out how many complete counter cycles were lost, so the gap is filled with the true number
+ * of samples and later data is not shifted in time.
+ *
+ * Requires the firmware to send a first sample time packet ('F'). The device clock is
+ * related to the local clock using the latest time packet or, if there has not been one
+ * yet, the local clock when sampling started. Each packet is timed by the local clock when
+ * its chunk arrived. Cycles are only added when the device clock is within
+ * kMaxLostCycleError of a whole number of them, as latency delivering the chunk could
+ * otherwise add or drop a cycle.
+ */
+export interface IElapsedTimeCheck {
+   //Rate of the device's 32 bit clock, e.g. 1e6 for Arduino micros()
+   remoteTicksPerSec: number;
+   //Points per second the device is currently sampling at
+   samplesPerSec: (parser: Parser) => number;
+}
+
+function tickToNumber(tick: TInt64) {
+   return (tick[0] >>> 0) + tick[1] * kTwoTo32;
+}
+
+function packetTypePayloadSize(parser: Parser, packetType: IPacketTypeFormat) {
+   const size = packetType.payloadSizeBytes;
+   return typeof size === 'number' ? size : size(parser);
+}
+
 class BufferWithLen {
    constructor(
       public buf: Buffer,
@@ -101,9 +281,9 @@ class BufferWithLen {
 
 export enum ParserState {
    kNoHeaderBytes,
-   k1HeaderByte,
-   k2HeaderBytes,
-   kHasHeader,
+   k1HeaderByte, //Some, but not all, of the packet format's header bytes found
+   k2HeaderBytes, //All header bytes found, looking for the packet type byte
+   kHasHeader, //Header and packet type found, reading the packet counter
    kHasExpectedPacket,
    kUnexpectedPacket,
    kError
@@ -131,27 +311,84 @@ export enum ParserState {
  * If the complete packet is present it will call the appropriate method to process that type of
  * packet, e.g. processDataPacketPayload() or processTimePacketPayload().
  *
+ * The header bytes, packet types, payload sizes and payload handlers are all taken from the
+ * IPacketFormat passed to the constructor (kArduinoPacketFormat by default), so devices with
+ * different framing can reuse this state machine by declaring their own IPacketFormat.
+ *
+ */
+
+//The value marking a lost sample in the buffer's own format, e.g. -0x80000000 for an
+//Int32Array backed buffer. 0x8000 is -0x8000 once truncated into an Int16Array.
+function outOfRangeValue(buffer: IStreamBuffer) {
+   return buffer instanceof StreamRingBufferImpl
+      ? buffer.outOfRangeValue
+      : 0x8000;
+}
+
+/**
+ * KMP prefix function of the header bytes: element n is the length of the longest proper
+ * prefix of the first n header bytes that is also a suffix of them, i.e. how many header
+ * bytes are still found when the byte after the first n does not match.
  */
+function headerPrefixFallbacks(headerBytes: number[]) {
+   const fallbacks = new Array<number>(headerBytes.length + 1).fill(0);
+   let found = 0;
+   for (let n = 1; n < headerBytes.length; ++n) {
+      while (found && headerBytes[n] !== headerBytes[found]) {
+         found = fallbacks[found];
+      }
+      if (headerBytes[n] === headerBytes[found]) ++found;
+      fallbacks[n + 1] = found;
+   }
+   return fallbacks;
+}
 
 export class Parser {
    parserState: ParserState;
-   packetType: PacketType;
+   packetType: number; //IPacketTypeFormat.id of the current packet
+   packetTypeFormat: IPacketTypeFormat | undefined;
    packetPayloadSize = 0 | 0;
    samplingState: SamplingState = SamplingState.kIdle;
 
-   expectedPacketCount: number; // is one byte (0 - 255)
+   expectedPacketCount: number; // 0 to counterModulus - 1
    unexpectedPacketCount: number; //store the last unexpected count so we can resynch
+   //Number of distinct packet counter values, e.g. 256 for a 1 byte counter
+   counterModulus: number;
+   //Packet counter bytes read so far
+   counterBytesFound = 0;
+   packetCounter = 0;
 
    nADCChannels: number;
 
+   //Encoding of the samples for each ADC channel within data packets
+   sampleEncodings: ISampleEncoding[];
+   bytesPerPoint: number;
+
+   packetFormat: IPacketFormat;
+   headerBytesFound = 0;
+   //See headerPrefixFallbacks()
+   headerFallbacks: number[];
+   //Size of the checksum following each payload, 0 if there isn't one
+   checksumBytes: number;
+   //Lookup from type byte to packet type
+   packetTypesByTypeByte: (IPacketTypeFormat | undefined)[];
+
    //We use a buffer containing the last partial packet to handle cases where a packet spans more that one chunk
    lastBuf: BufferWithLen;
 
    proxyDevice: IDataSink | null = null;
+   //Writes the decoded points of each data packet into the proxy's outStreamBuffers, if
+   //they are StreamRingBufferImpls. See streamWriterFor().
+   streamWriter: InterleavedStreamWriter | null = null;
+   //Decoded (and scaled) samples from the latest data packet, interleaved by channel
+   decodedPoints = new Float64Array(0);
 
    lastError = '';
    lastUpdateTimems: number;
 
+   //Link quality statistics, reset when sampling starts
+   stats = new ParserStats();
+
    //Round-trip time synchronization support (optional but recommended)
    timePoint: TimePoint | undefined;
    remoteTimeTimeoutId: NodeJS.Timeout;
@@ -160,14 +397,46 @@ export class Parser {
 
    localClockAtSamplingStart: TInt64 | undefined;
 
-   constructor(public inStream: IDuplexStream, nADCChannels: number) {
+   //See IElapsedTimeCheck
+   elapsedTimeCheck: IElapsedTimeCheck | undefined;
+   //Points written to the stream buffers since sampling started, including lost points
+   pointsSinceSamplingStart = 0;
+   remoteFirstSampleTick: number | undefined;
+   //Local clock (microsecond) tick when the chunk being processed arrived, if there is an
+   //elapsedTimeCheck
+   chunkArrivalus: number | undefined;
+   //Device clock ticks since the first sample, including any wraps of the 32 bit device
+   //clock, at the local (microsecond) clock tick of the latest time packet
+   latestTimeAnchor: { remoteElapsed: number; localus: number } | undefined;
+
+   constructor(
+      public inStream: IDuplexStream,
+      nADCChannels: number,
+      packetFormat: IPacketFormat = kArduinoPacketFormat,
+      sampleEncodings:
+         | ISampleEncoding
+         | ISampleEncoding[] = kArduinoSampleEncoding
+   ) {
       this.parserState = ParserState.kNoHeaderBytes;
       this.packetType = PacketType.kNotFound;
+      this.packetTypeFormat = undefined;
       this.packetPayloadSize = 0 | 0;
       this.expectedPacketCount = 0;
       this.unexpectedPacketCount = 0;
 
       this.nADCChannels = nADCChannels;
+      this.setSampleEncodingsOnly(sampleEncodings);
+
+      this.packetFormat = packetFormat;
+      this.headerFallbacks = headerPrefixFallbacks(packetFormat.headerBytes);
+      this.counterModulus = 2 ** (8 * packetFormat.counterBytes);
+      this.checksumBytes = packetFormat.checksum
+         ? checksumSizeBytes(packetFormat.checksum.algorithm)
+         : 0;
+      this.packetTypesByTypeByte = new Array(256).fill(undefined);
+      for (const packetType of packetFormat.packetTypes) {
+         this.packetTypesByTypeByte[packetType.typeByte & 0xff] = packetType;
+      }
 
       /** getRemoteTime() support (optional but recommended).
        * The 'now' coommand is 'n' char followed by time request number to avoid potentially matching
@@ -180,11 +449,7 @@ export class Parser {
       ]);
       this.expectedTimeRequestNumber = this.getRemoteTimeCommand[1];
 
-      const maxPacketSizeBytes = Math.max(
-         packetTypeToSize(PacketType.kMediumData, this.nADCChannels),
-         packetTypeToSize(PacketType.kUSBFrameTIme, this.nADCChannels)
-      );
-      this.lastBuf = new BufferWithLen(Buffer.alloc(maxPacketSizeBytes));
+      this.allocateLastBuf();
 
       //node streams default to 'utf8' encoding, which most devices won't understand.
       //With 'utf8' encoding, non-ascii chars, such as:
@@ -199,6 +464,63 @@ export class Parser {
       this.lastUpdateTimems = performance.now();
    }
 
+   /**
+    * Sets the encoding of the samples in data packets. Pass an array to specify the encoding
+    * for each ADC channel, or a single encoding to use for all of them.
+    */
+   setSampleEncodings(sampleEncodings: ISampleEncoding | ISampleEncoding[]) {
+      this.setSampleEncodingsOnly(sampleEncodings);
+      //Data packets may now be larger
+      this.allocateLastBuf();
+   }
+
+   private setSampleEncodingsOnly(
+      sampleEncodings: ISampleEncoding | ISampleEncoding[]
+   ) {
+      this.sampleEncodings = Array.isArray(sampleEncodings)
+         ? sampleEncodings.slice(0, this.nADCChannels)
+         : new Array(this.nADCChannels).fill(sampleEncodings);
+      if (this.sampleEncodings.length < this.nADCChannels) {
+         throw Error('Expected a sample encoding for each ADC channel');
+      }
+      this.bytesPerPoint = this.sampleEncodings.reduce(
+         (total, encoding) => total + sampleTypeToSize(encoding.type),
+         0
+      );
+   }
+
+   private allocateLastBuf() {
+      const maxPacketSizeBytes =
+         this.packetHeaderSizeBytes() +
+         this.checksumBytes +
+         Math.max(
+            0,
+            ...this.packetFormat.packetTypes.map((packetType) =>
+               packetTypePayloadSize(this, packetType)
+            )
+         );
+      if (this.lastBuf && this.lastBuf.buf.length >= maxPacketSizeBytes) {
+         return;
+      }
+      const buf = Buffer.alloc(maxPacketSizeBytes);
+      if (this.lastBuf) {
+         //Keep any partial packet
+         this.lastBuf.buf.copy(buf, 0, 0, this.lastBuf.len);
+         this.lastBuf.buf = buf;
+      } else {
+         this.lastBuf = new BufferWithLen(buf);
+      }
+   }
+
+   //Invariant part of the packet header including the type byte and the packet counter
+   packetHeaderSizeBytes() {
+      return (
+         this.packetFormat.headerBytes.length +
+         1 +
+         this.packetFormat.counterBytes
+      );
+   }
+
    incrementTimeRequestNumber() {
       this.expectedTimeRequestNumber = this.getRemoteTimeCommand[1];
       this.getRemoteTimeCommand[1]++;
@@ -209,11 +531,18 @@ export class Parser {
    }
 
    incrementExpectedPacketCount() {
-      this.expectedPacketCount++;
-      this.expectedPacketCount &= 255;
+      this.expectedPacketCount =
+         (this.expectedPacketCount + 1) % this.counterModulus;
       //++gSampleCountForTesting;
    }
 
+   //Number of packets from the expected packet count to packetCount, modulo the counter range
+   packetCountDifference(packetCount: number) {
+      const diff =
+         (packetCount - this.expectedPacketCount) % this.counterModulus;
+      return diff < 0 ? diff + this.counterModulus : diff;
+   }
+
    isSampling(): boolean {
       return (
          SamplingState.kIdle < this.samplingState &&
@@ -229,15 +558,37 @@ export class Parser {
 
    setProxyDevice(proxyDevice: IDataSink | null) {
       this.proxyDevice = proxyDevice;
+      this.streamWriter = null;
+   }
+
+   //Returns a writer for outStreamBuffers, or null if any of them is not a
+   //StreamRingBufferImpl, in which case samples are written one at a time.
+   streamWriterFor(outStreamBuffers: IStreamBuffer[]) {
+      if (this.streamWriter?.outStreamBuffers !== outStreamBuffers) {
+         this.streamWriter = outStreamBuffers.every(
+            (buffer) => !buffer || buffer instanceof StreamRingBufferImpl
+         )
+            ? new InterleavedStreamWriter(
+                 outStreamBuffers as StreamRingBufferImpl[],
+                 this.nADCChannels
+              )
+            : null;
+      }
+      return this.streamWriter;
    }
 
    startSampling(startOnUSBFrame?: number): boolean {
       this.localClockAtSamplingStart = undefined;
+      this.pointsSinceSamplingStart = 0;
+      this.remoteFirstSampleTick = undefined;
+      this.latestTimeAnchor = undefined;
 
       if (!this.inStream || !this.proxyDevice) {
          return false;
       }
 
+      this.stats.reset();
+
       if (startOnUSBFrame && startOnUSBFrame >= 0) {
          const startFrameBytes = new Uint8Array([
             'b'.charCodeAt(0),
@@ -280,6 +631,51 @@ export class Parser {
       return true;
    }
 
+   /**
+    * Restarts sampling once the connection to the device has been re-established, e.g. by a
+    * ReconnectionSupervisor. Unlike startSampling(), the proxy is not notified and no first
+    * sample time is requested because, as far as Quark is concerned, sampling never stopped.
+    */
+   resumeSampling(): boolean {
+      if (!this.inStream || !this.proxyDevice) {
+         return false;
+      }
+      this.resetPacketSync();
+      //The device has probably rebooted, resetting its clock, and no first sample time is
+      //requested, so the elapsed time check can't be used until sampling is restarted.
+      this.remoteFirstSampleTick = undefined;
+      this.latestTimeAnchor = undefined;
+      this.inStream.write('b\n');
+      this.samplingState = SamplingState.kSampling;
+      this.lastUpdateTimems = performance.now();
+      return true;
+   }
+
+   //Discards any partial packet, e.g. one cut short by a disconnection, and expects the next
+   //packet count to be 0, as sent by the firmware after it replies to 'v'.
+   resetPacketSync() {
+      this.lastBuf.len = 0;
+      this.headerBytesFound = 0;
+      this.counterBytesFound = 0;
+      this.packetCounter = 0;
+      this.parserState = ParserState.kNoHeaderBytes;
+      this.packetType = PacketType.kNotFound;
+      this.packetTypeFormat = undefined;
+      this.expectedPacketCount = 0;
+   }
+
+   //Called when a byte does not continue the header bytes found so far. The end of those
+   //bytes may still be the start of a header, e.g. the last 2 bytes of 50 50 50 for a
+   //50 50 A0 header, so only the bytes before that are junk.
+   private fallBackInHeader() {
+      const stillFound = this.headerFallbacks[this.headerBytesFound];
+      this.stats.onJunk(this.headerBytesFound - stillFound);
+      this.headerBytesFound = stillFound;
+      this.parserState = stillFound
+         ? ParserState.k1HeaderByte
+         : ParserState.kNoHeaderBytes;
+   }
+
    //returns the number of bytes processed from start of buffer, i.e. not from offset.
    processBuffer(buffer: Buffer, start: number, end: number) {
       let i = start;
@@ -287,75 +683,96 @@ export class Parser {
          const byte = buffer[i];
          switch (this.parserState) {
             case ParserState.kNoHeaderBytes:
-               if (byte === kPacketStartByte) {
-                  this.parserState = ParserState.k1HeaderByte;
-               }
-               break;
-            case ParserState.k1HeaderByte:
-               if (byte === kPacket2ndByte) {
-                  this.parserState = ParserState.k2HeaderBytes;
-               } else {
-                  this.parserState = ParserState.kNoHeaderBytes;
+            case ParserState.k1HeaderByte: {
+               const { headerBytes } = this.packetFormat;
+               if (byte === headerBytes[this.headerBytesFound]) {
+                  ++this.headerBytesFound;
+                  this.parserState =
+                     this.headerBytesFound < headerBytes.length
+                        ? ParserState.k1HeaderByte
+                        : ParserState.k2HeaderBytes;
+               } else if (this.parserState !== ParserState.kNoHeaderBytes) {
+                  this.fallBackInHeader();
                   --i; //retry this byte
+               } else {
+                  this.stats.onJunk(1);
                }
                break;
-            case ParserState.k2HeaderBytes:
-               if ((byte & 0xf0) === 0x40) {
-                  this.parserState = ParserState.kHasHeader;
-                  switch (byte) {
-                     case 0x44: //'D'
-                        this.packetType = PacketType.kData;
-                        break;
-                     case 0x4d: //'M'
-                        this.packetType = PacketType.kMediumData;
-                        break;
-                     case 0x4e: //'N'
-                        this.packetType = PacketType.kTime;
-                        break;
-                     case 0x46: //'F'
-                        this.packetType = PacketType.kFirstSampleTime;
-                        break;
-                     case 0x4c: //'L'
-                        this.packetType = PacketType.kUSBFrameTIme;
-                        break;
-                     default:
-                        this.packetType = PacketType.kNotFound;
-                        this.parserState = ParserState.kNoHeaderBytes;
-                        break;
-                  }
+            }
+            case ParserState.k2HeaderBytes: {
+               const packetTypeFormat = this.packetTypesByTypeByte[byte];
+               if (packetTypeFormat) {
+                  this.headerBytesFound = 0;
+                  this.packetTypeFormat = packetTypeFormat;
+                  this.packetType =
+                     packetTypeFormat.id !== undefined
+                        ? packetTypeFormat.id
+                        : PacketType.kNotFound;
+                  this.counterBytesFound = 0;
+                  this.packetCounter = 0;
+                  this.parserState = this.packetFormat.counterBytes
+                     ? ParserState.kHasHeader
+                     : ParserState.kHasExpectedPacket;
                } else {
-                  this.parserState = ParserState.kNoHeaderBytes;
+                  this.fallBackInHeader();
                   --i; //retry this byte
                }
                break;
-            case ParserState.kHasHeader:
-               if (byte === this.expectedPacketCount) {
+            }
+            case ParserState.kHasHeader: {
+               const { counterBytes, counterBigEndian } = this.packetFormat;
+               this.packetCounter = counterBigEndian
+                  ? this.packetCounter * 256 + byte
+                  : this.packetCounter +
+                    byte * 2 ** (8 * this.counterBytesFound);
+               if (++this.counterBytesFound < counterBytes) {
+                  break; //more counter bytes to come
+               }
+               const packetCount = this.packetCounter;
+               if (packetCount === this.expectedPacketCount) {
                   this.parserState = ParserState.kHasExpectedPacket;
                } else {
                   this.parserState = ParserState.kUnexpectedPacket;
-                  this.unexpectedPacketCount = byte;
-                  const lostSamples = (byte - this.expectedPacketCount) & 255;
-                  console.warn('Device lost packets:', lostSamples);
+                  this.unexpectedPacketCount = packetCount;
+                  const lostPackets = this.packetCountDifference(packetCount);
+                  this.stats.onLostPackets(lostPackets);
+                  console.warn('Device lost packets:', lostPackets);
                }
                break;
+            }
             case ParserState.kUnexpectedPacket:
             case ParserState.kHasExpectedPacket: {
-               this.packetPayloadSize =
-                  packetTypeToSize(this.packetType, this.nADCChannels) -
-                  kPacketHeaderSizeBytes -
-                  1; //don't include packet count byte
+               const payloadSize = this.packetTypeFormat
+                  ? packetTypePayloadSize(this, this.packetTypeFormat)
+                  : 0;
+               //Includes the checksum so partial packets are buffered until it arrives
+               this.packetPayloadSize = payloadSize + this.checksumBytes;
                if (end - i < this.packetPayloadSize) {
                   //need more data before we can process the packet
                   return i;
                }
                const payloadStart = i;
-               const payloadEnd = i + this.packetPayloadSize;
-               if (!this.processPacketPayload(buffer.slice(i, payloadEnd))) {
+               const payloadEnd = i + payloadSize;
+               if (!this.isChecksumValid(buffer, payloadStart, payloadEnd)) {
+                  //The next good packet will be unexpected, so this one is filled in
+                  //as lost.
+                  this.stats.onChecksumFailure();
+                  this.stats.onJunk(this.packetHeaderSizeBytes());
+                  console.warn('Device packet failed its checksum');
+                  i = payloadStart; //Start searching for a good packet!
+               } else if (
+                  !this.processPacketPayload(buffer.slice(i, payloadEnd))
+               ) {
+                  this.stats.onJunk(this.packetHeaderSizeBytes());
                   i = payloadStart; //Start searching for a good packet!
                } else {
-                  i = payloadEnd; //Finished this packet
+                  if (this.packetTypeFormat) {
+                     this.stats.onPacket(this.packetTypeFormat.typeByte);
+                  }
+                  i = payloadEnd + this.checksumBytes; //Finished this packet
                }
                this.packetType = PacketType.kNotFound;
+               this.packetTypeFormat = undefined;
                this.parserState = ParserState.kNoHeaderBytes;
                --i; //compensate for the for loop ++i that is about to happen before we go around again!
             }
@@ -368,6 +785,14 @@ export class Parser {
       if (!newBytes.length) {
          return;
       }
+      this.stats.onChunk(newBytes.length);
+      this.chunkArrivalus = undefined;
+      if (this.elapsedTimeCheck && this.inStream.source) {
+         //Before processing the chunk, which may take a while
+         const localNow = new Int32Array(2);
+         this.inStream.source.getLocalSteadyClockTickNow(localNow);
+         this.chunkArrivalus = tickToNumber(localNow);
+      }
 
       let offsetInNew = 0;
 
@@ -422,6 +847,63 @@ export class Parser {
       }
    };
 
+   isChecksumValid(buffer: Buffer, payloadStart: number, payloadEnd: number) {
+      const { checksum } = this.packetFormat;
+      if (!checksum) {
+         return true;
+      }
+      let expected: number;
+      if (checksum.includeHeader) {
+         const packet = Buffer.concat([
+            this.currentPacketHeader(),
+            buffer.slice(payloadStart, payloadEnd)
+         ]);
+         expected = calcChecksum(checksum.algorithm, packet);
+      } else {
+         expected = calcChecksum(
+            checksum.algorithm,
+            buffer,
+            payloadStart,
+            payloadEnd
+         );
+      }
+      const received = checksum.bigEndian
+         ? buffer.readUIntBE(payloadEnd, this.checksumBytes)
+         : buffer.readUIntLE(payloadEnd, this.checksumBytes);
+      return received === expected;
+   }
+
+   //Reconstructs the header bytes, type byte and packet counter of the current packet,
+   //which have already been consumed by the state machine.
+   private currentPacketHeader() {
+      const { headerBytes, counterBytes, counterBigEndian } = this.packetFormat;
+      const header = Buffer.alloc(this.packetHeaderSizeBytes());
+      header.set(headerBytes);
+      header[headerBytes.length] = this.packetTypeFormat
+         ? this.packetTypeFormat.typeByte
+         : 0;
+      if (counterBytes) {
+         const packetCount =
+            this.parserState === ParserState.kUnexpectedPacket
+               ? this.unexpectedPacketCount
+               : this.expectedPacketCount;
+         if (counterBigEndian) {
+            header.writeUIntBE(
+               packetCount,
+               headerBytes.length + 1,
+               counterBytes
+            );
+         } else {
+            header.writeUIntLE(
+               packetCount,
+               headerBytes.length + 1,
+               counterBytes
+            );
+         }
+      }
+      return header;
+   }
+
    processPacketPayload(data: Buffer) {
       if (!this.proxyDevice) {
          this.lastError =
@@ -431,32 +913,14 @@ export class Parser {
       }
 
       let ok = false;
-      switch (this.packetType) {
-         case PacketType.kData:
-            ok = this.processDataPacketPayload(data, 1);
-            break;
-         case PacketType.kTime:
-            ok = this.processTimePacketPayload(data);
-            break;
-         case PacketType.kFirstSampleTime:
-            ok = this.processFirstSampleTimePacketPayload(data);
-            break;
-         case PacketType.kMediumData:
-            ok = this.processDataPacketPayload(
-               data,
-               kPointsPerMediumSizeDataPacket
-            );
-            break;
-         case PacketType.kUSBFrameTIme:
-            ok = this.processTimePacketPayload(data);
-            break;
-         default:
-            console.error(
-               'processPacketPayLoad: unknown packet type: ',
-               this.packetType
-            );
-            ok = false; //start searching for a new packet header
-            break;
+      if (this.packetTypeFormat) {
+         ok = this.packetTypeFormat.handler(this, data);
+      } else {
+         console.error(
+            'processPacketPayLoad: unknown packet type: ',
+            this.packetType
+         );
+         ok = false; //start searching for a new packet header
       }
       if (this.parserState === ParserState.kUnexpectedPacket) {
          this.expectedPacketCount = this.unexpectedPacketCount; //attempt to resynch
@@ -501,7 +965,7 @@ export class Parser {
       return true;
    }
 
-   processTimePacketPayload(data: Buffer) {
+   processTimePacketPayload(data: Buffer, isUSB = false) {
       if (this.parserState === ParserState.kUnexpectedPacket) {
          return false;
       }
@@ -515,8 +979,6 @@ export class Parser {
 
       global.clearTimeout(this.remoteTimeTimeoutId);
 
-      const isUSB = this.packetType == PacketType.kUSBFrameTIme;
-
       const timePoint = isUSB
          ? new USBTimePoint(this.timePoint)
          : new TimePoint(this.timePoint);
@@ -535,6 +997,13 @@ export class Parser {
          timePoint.remoteTimeTick[0] =
             data[1] + (data[2] << 8) + (data[3] << 16) + (data[4] << 24);
 
+         this.updateTimeAnchor(
+            timePoint.remoteTimeTick[0] >>> 0,
+            (tickToNumber(timePoint.localPreTimeTick) +
+               tickToNumber(timePoint.localPostTimeTick)) /
+               2
+         );
+
          if (isUSBTimePoint(timePoint)) {
             timePoint.latestUSBFrame = data[5] + (data[6] << 8);
             timePoint.remoteUSBSOFTimeTick[1] = 0;
@@ -562,6 +1031,9 @@ export class Parser {
 
       remoteFirstSampleTime.remoteFirstSampleTick[0] =
          data[0] + (data[1] << 8) + (data[2] << 16) + (data[3] << 24);
+      this.remoteFirstSampleTick =
+         remoteFirstSampleTime.remoteFirstSampleTick[0] >>> 0;
+      this.latestTimeAnchor = undefined;
 
       if (this.proxyDevice && this.proxyDevice.onRemoteTimeEvent) {
          this.proxyDevice.onRemoteTimeEvent(null, remoteFirstSampleTime);
@@ -594,11 +1066,16 @@ export class Parser {
 
       //Insert invalid samples if packets missing
       if (this.parserState === ParserState.kUnexpectedPacket) {
-         const lostPackets =
-            (this.unexpectedPacketCount - this.expectedPacketCount) & 255;
+         const lostPackets = this.packetCountDifference(
+            this.unexpectedPacketCount
+         );
          if (lostPackets) {
             if (this.isSampling()) {
-               const lostSamples = lostPackets * pointsPerPacket;
+               const lostSamples = this.countLostPoints(
+                  lostPackets,
+                  pointsPerPacket
+               );
+               this.pointsSinceSamplingStart += lostSamples;
                for (let i = 0; i < lostSamples; ++i) {
                   for (
                      let streamIndex = 0;
@@ -610,7 +1087,7 @@ export class Parser {
                         continue;
                      } // Don't produce data for disabled streams.
 
-                     outStreamBuffers[streamIndex].writeInt(0x8000); //Insert 'out of range' values
+                     outStreamBuffer.writeInt(outOfRangeValue(outStreamBuffer)); //Insert 'out of range' values
                   }
                }
             }
@@ -618,26 +1095,144 @@ export class Parser {
       }
 
       //Now add the data from the latest packet
-      if (this.isSampling()) {
+      const streamWriter = this.streamWriterFor(outStreamBuffers);
+      if (this.isSampling() && streamWriter) {
+         this.pointsSinceSamplingStart += pointsPerPacket;
+         const nSamples = pointsPerPacket * this.nADCChannels;
+         if (this.decodedPoints.length < nSamples) {
+            this.decodedPoints = new Float64Array(nSamples);
+         }
+         let byteIndex = 0;
+         for (let sample = 0; sample < nSamples; ++sample) {
+            const encoding = this.sampleEncodings[sample % this.nADCChannels];
+            const value = decodeSample(data, byteIndex, encoding);
+            byteIndex += sampleTypeToSize(encoding.type);
+            this.decodedPoints[sample] =
+               encoding.scale !== undefined ? value * encoding.scale : value;
+         }
+         streamWriter.write(this.decodedPoints, pointsPerPacket);
+      } else if (this.isSampling()) {
+         this.pointsSinceSamplingStart += pointsPerPacket;
          let byteIndex = 0; //kStartOfDataIndex;
          for (let pt = 0; pt < pointsPerPacket; ++pt) {
             for (
                let streamIndex = 0;
                streamIndex < this.nADCChannels;
-               ++streamIndex, byteIndex += 2
+               ++streamIndex
             ) {
+               const encoding = this.sampleEncodings[streamIndex];
+               const sampleIndex = byteIndex;
+               byteIndex += sampleTypeToSize(encoding.type);
+
                const outStreamBuffer = outStreamBuffers[streamIndex];
                if (!outStreamBuffer) {
                   continue;
                } // Don't produce data for disabled streams.
 
-               // The Arduino format is little endian 16 bit.
-               const value = data[byteIndex] + (data[byteIndex + 1] << 8);
+               const value = decodeSample(data, sampleIndex, encoding);
 
-               outStreamBuffers[streamIndex].writeInt(value);
+               if (encoding.scale !== undefined) {
+                  outStreamBuffer.writeValue(value * encoding.scale);
+               } else {
+                  outStreamBuffer.writeInt(value);
+               }
             }
          }
       }
       return true;
    }
+
+   /**
+    * @returns the number of points lost given the packet counter skipped lostPackets packets,
+    * adding any whole counter cycles the elapsedTimeCheck shows were also lost.
+    */
+   countLostPoints(lostPackets: number, pointsPerPacket: number): number {
+      const lostPoints = lostPackets * pointsPerPacket;
+      const expectedPoints = this.pointsExpectedFromDeviceClock();
+      if (expectedPoints === undefined) {
+         return lostPoints;
+      }
+      //Points the device has sent that we have not accounted for, not including this packet
+      const unaccounted =
+         expectedPoints - this.pointsSinceSamplingStart - pointsPerPacket;
+      const pointsPerCycle = this.counterModulus * pointsPerPacket;
+      const cycles = (unaccounted - lostPoints) / pointsPerCycle;
+      const lostCycles = Math.round(cycles);
+      if (Math.abs(cycles - lostCycles) > kMaxLostCycleError) {
+         const shown = cycles.toFixed(2);
+         console.warn(
+            `Device clock shows ${shown} lost packet counter cycles, too far from a whole number to use`
+         );
+         return lostPoints;
+      }
+      if (lostCycles > 0) {
+         console.warn(
+            `Device lost ${lostCycles} more packet counter cycles than the counter shows`
+         );
+         return lostPoints + lostCycles * pointsPerCycle;
+      }
+      return lostPoints;
+   }
+
+   //The 32 bit device clock wraps around, e.g. every 71.6 minutes at 1 MHz, so the number
+   //of wraps since the first sample is the one that best matches the local clock.
+   private updateTimeAnchor(remoteTick: number, localus: number) {
+      if (this.remoteFirstSampleTick === undefined) {
+         return;
+      }
+      const wrappedElapsed =
+         (remoteTick - this.remoteFirstSampleTick + kTwoTo32) % kTwoTo32;
+      const expectedElapsed = this.remoteElapsedAt(localus);
+      const wraps =
+         expectedElapsed === undefined
+            ? 0
+            : Math.round((expectedElapsed - wrappedElapsed) / kTwoTo32);
+      this.latestTimeAnchor = {
+         remoteElapsed: wrappedElapsed + wraps * kTwoTo32,
+         localus
+      };
+   }
+
+   //Estimates the device clock ticks since the first sample at the local clock tick localus,
+   //from the latest time packet or, if there has not been one, the local clock when sampling
+   //started.
+   private remoteElapsedAt(localus: number): number | undefined {
+      const check = this.elapsedTimeCheck;
+      if (!check || this.remoteFirstSampleTick === undefined) {
+         return undefined;
+      }
+      let anchor = this.latestTimeAnchor;
+      if (!anchor && this.localClockAtSamplingStart) {
+         anchor = {
+            remoteElapsed: 0,
+            localus: tickToNumber(this.localClockAtSamplingStart)
+         };
+      }
+      if (!anchor) {
+         return undefined;
+      }
+      return (
+         anchor.remoteElapsed +
+         ((localus - anchor.localus) * check.remoteTicksPerSec) / 1e6
+      );
+   }
+
+   //Estimates the number of points the device had sampled since its first sample when the
+   //current chunk arrived
+   private pointsExpectedFromDeviceClock(): number | undefined {
+      const check = this.elapsedTimeCheck;
+      if (!check || this.chunkArrivalus === undefined) {
+         return undefined;
+      }
+      const remoteElapsed = this.remoteElapsedAt(this.chunkArrivalus);
+      if (remoteElapsed === undefined) {
+         return undefined;
+      }
+      return (
+         Math.floor(
+            (remoteElapsed * check.samplesPerSec(this)) /
+               check.remoteTicksPerSec
+         ) + 1
+      );
+   }
 }
@@ -0,0 +1,171 @@
+import { DeviceEvent, ProxyDeviceSys, TMessageSeverity } from './device-api';
+
+/**
+ * A copy of the statistics that can be returned to the UI thread, e.g. from a
+ * ProxyDevice.getParserStats() function called via IDeviceProxyAPI.callFunction().
+ */
+export interface IParserStatsSnapshot {
+   bytesReceived: number;
+   //Number of onData() calls, i.e. chunks delivered by the connection
+   chunksReceived: number;
+   meanChunkSize: number;
+   packetsReceived: number;
+   //Keyed by the packet's type byte
+   packetsByType: Record<number, number>;
+   //Number of times the parser lost sync with the packets and then found a packet again
+   resyncs: number;
+   //Bytes skipped while looking for the start of a packet
+   junkBytes: number;
+   lostPackets: number;
+   checksumFailures: number;
+   //Time since the statistics were reset, normally when sampling started
+   elapsedms: number;
+}
+
+export type ParserStatsThresholdName =
+   | 'resyncs'
+   | 'junkBytes'
+   | 'lostPackets'
+   | 'checksumFailures';
+
+/**
+ * Counts above which a kDeviceEvent info message is sent. Each threshold is reported at most
+ * once between resets.
+ */
+export type IParserStatsThresholds = Partial<
+   Record<ParserStatsThresholdName, number>
+>;
+
+const kThresholdMessages: Record<
+   ParserStatsThresholdName,
+   (count: number) => string
+> = {
+   resyncs: (count) => `lost sync with the data ${count} times`,
+   junkBytes: (count) => `skipped ${count} unrecognized bytes`,
+   lostPackets: (count) => `lost ${count} packets`,
+   checksumFailures: (count) => `received ${count} corrupted packets`
+};
+
+/**
+ * Link quality statistics kept by device parsers. Parsers call the on*() methods as they
+ * process data and call reset() when sampling starts.
+ */
+export class ParserStats {
+   bytesReceived = 0;
+   chunksReceived = 0;
+   packetsReceived = 0;
+   packetsByType: Record<number, number> = {};
+   resyncs = 0;
+   junkBytes = 0;
+   lostPackets = 0;
+   checksumFailures = 0;
+   startTimems = performance.now();
+
+   private lostSync = false;
+   private thresholds: IParserStatsThresholds = {};
+   private reported = new Set<ParserStatsThresholdName>();
+   private proxyDeviceSys: ProxyDeviceSys | null = null;
+   private deviceName = '';
+
+   get meanChunkSize() {
+      return this.chunksReceived ? this.bytesReceived / this.chunksReceived : 0;
+   }
+
+   reset() {
+      this.bytesReceived = 0;
+      this.chunksReceived = 0;
+      this.packetsReceived = 0;
+      this.packetsByType = {};
+      this.resyncs = 0;
+      this.junkBytes = 0;
+      this.lostPackets = 0;
+      this.checksumFailures = 0;
+      this.startTimems = performance.now();
+      this.lostSync = false;
+      this.reported.clear();
+   }
+
+   /**
+    * Opts in to sending a kDeviceEvent info message, e.g. 'Arduino lost 120 packets since
+    * sampling started.', when a count exceeds its threshold. Pass null to stop reporting.
+    */
+   reportThresholdsTo(
+      proxyDeviceSys: ProxyDeviceSys | null,
+      deviceName: string,
+      thresholds: IParserStatsThresholds
+   ) {
+      this.proxyDeviceSys = proxyDeviceSys;
+      this.deviceName = deviceName;
+      this.thresholds = thresholds;
+   }
+
+   onChunk(nBytes: number) {
+      this.bytesReceived += nBytes;
+      ++this.chunksReceived;
+   }
+
+   onPacket(typeByte: number) {
+      ++this.packetsReceived;
+      this.packetsByType[typeByte] = (this.packetsByType[typeByte] ?? 0) + 1;
+      if (this.lostSync) {
+         this.lostSync = false;
+         ++this.resyncs;
+         this.checkThreshold('resyncs', this.resyncs);
+      }
+   }
+
+   onJunk(nBytes: number) {
+      if (nBytes <= 0) {
+         return;
+      }
+      this.junkBytes += nBytes;
+      this.lostSync = true;
+      this.checkThreshold('junkBytes', this.junkBytes);
+   }
+
+   onLostPackets(nPackets: number) {
+      this.lostPackets += nPackets;
+      this.checkThreshold('lostPackets', this.lostPackets);
+   }
+
+   onChecksumFailure() {
+      ++this.checksumFailures;
+      this.checkThreshold('checksumFailures', this.checksumFailures);
+   }
+
+   snapshot(): IParserStatsSnapshot {
+      return {
+         bytesReceived: this.bytesReceived,
+         chunksReceived: this.chunksReceived,
+         meanChunkSize: this.meanChunkSize,
+         packetsReceived: this.packetsReceived,
+         packetsByType: { ...this.packetsByType },
+         resyncs: this.resyncs,
+         junkBytes: this.junkBytes,
+         lostPackets: this.lostPackets,
+         checksumFailures: this.checksumFailures,
+         elapsedms: performance.now() - this.startTimems
+      };
+   }
+
+   private checkThreshold(name: ParserStatsThresholdName, count: number) {
+      const threshold = this.thresholds[name];
+      if (
+         threshold === undefined ||
+         count <= threshold ||
+         this.reported.has(name) ||
+         !this.proxyDeviceSys
+      ) {
+         return;
+      }
+      this.reported.add(name);
+      this.proxyDeviceSys.onDeviceEvent(
+         DeviceEvent.kDeviceEvent,
+         this.deviceName,
+         `${this.deviceName} ${kThresholdMessages[name](
+            count
+         )} since sampling started.`,
+         { severity: TMessageSeverity.kMessageInfo }
+      );
+   }
+}
@@ -0,0 +1,223 @@
+import { DuplexStream, IStreamTap } from './device-streams';
+
+/**
+ * 'idle': not supervising, e.g. not sampling.
+ * 'monitoring': sampling with data arriving.
+ * 'reconnecting': the connection was lost and is being reopened.
+ * 'failed': maxAttempts reconnection attempts failed.
+ */
+export type ReconnectionState =
+   | 'idle'
+   | 'monitoring'
+   | 'reconnecting'
+   | 'failed';
+
+/**
+ * Implemented by the proxy (or physical device) being supervised.
+ */
+export interface IReconnectable {
+   //Re-runs the device's version handshake once the connection has been reopened.
+   //Rejects if the device does not respond or a different device is now connected.
+   verifyDevice(): Promise<void>;
+   //Re-applies the settings to the hardware and restarts sampling. gapms is the time since
+   //data was last received, so the missing samples can be filled in.
+   //Returns false if sampling could not be restarted, in which case another attempt is made.
+   resumeSampling(gapms: number): boolean;
+   onConnectionLost?(error: Error): void;
+   //Called once maxAttempts reconnection attempts have failed
+   onReconnectFailed?(error: Error): void;
+}
+
+export interface IReconnectionOptions {
+   //How often isReceivingData() is checked while sampling. Default 250 ms.
+   checkPeriodms?: number;
+   //The connection is considered lost if no data is received for this long. Default 1000 ms.
+   dataTimeoutms?: number;
+   //Delay before the first reconnection attempt. Doubled after each failed attempt,
+   //up to maxRetryDelayms. Defaults 500 and 8000 ms.
+   initialRetryDelayms?: number;
+   maxRetryDelayms?: number;
+   //0 means keep trying until stop() is called. Default 10.
+   maxAttempts?: number;
+}
+
+/**
+ * Keeps a sampling device going when its connection drops, e.g. a Bluetooth device going out
+ * of range or a USB cable being bumped.
+ *
+ * While started, the supervisor taps the device stream. If the stream reports an error, or no
+ * data arrives for dataTimeoutms (and the connection's isReceivingData() agrees), it:
+ * 1. stops and restarts the stream's source connection, with exponential backoff between attempts.
+ * 2. calls target.verifyDevice() to repeat the version handshake.
+ * 3. calls target.resumeSampling() with the length of the gap in the data.
+ *
+ * See ProxyDevice in examples/devices/ArduinoExample/ArduinoExample.ts.
+ */
+export class ReconnectionSupervisor implements IStreamTap {
+   state: ReconnectionState = 'idle';
+   //Failed attempts since the connection was lost
+   attempts = 0;
+   //Number of times the connection has been successfully restored
+   reconnectCount = 0;
+   lastError: Error | null = null;
+
+   private checkPeriodms: number;
+   private dataTimeoutms: number;
+   private initialRetryDelayms: number;
+   private maxRetryDelayms: number;
+   private maxAttempts: number;
+
+   private lastDataTimems = 0;
+   //Time of the last data received before the connection was lost
+   private dataStoppedAtms = 0;
+   private checkTimer: NodeJS.Timeout | undefined;
+   private retryTimer: NodeJS.Timeout | undefined;
+
+   constructor(
+      public stream: DuplexStream,
+      private target: IReconnectable,
+      options: IReconnectionOptions = {}
+   ) {
+      this.checkPeriodms = options.checkPeriodms ?? 250;
+      this.dataTimeoutms = options.dataTimeoutms ?? 1000;
+      this.initialRetryDelayms = options.initialRetryDelayms ?? 500;
+      this.maxRetryDelayms = options.maxRetryDelayms ?? 8000;
+      this.maxAttempts = options.maxAttempts ?? 10;
+   }
+
+   get isSupervising() {
+      return this.state === 'monitoring' || this.state === 'reconnecting';
+   }
+
+   //Call when sampling starts
+   start() {
+      if (this.isSupervising) {
+         return;
+      }
+      this.stream.addTap(this);
+      this.attempts = 0;
+      this.lastError = null;
+      this.monitor();
+   }
+
+   //Call when sampling stops. Any reconnection in progress is abandoned.
+   stop() {
+      this.stream.removeTap(this);
+      this.clearTimers();
+      this.state = 'idle';
+   }
+
+   onData() {
+      this.lastDataTimems = performance.now();
+   }
+
+   onError(error: Error) {
+      if (this.state === 'monitoring') {
+         this.onConnectionLost(error);
+      }
+   }
+
+   private monitor() {
+      this.state = 'monitoring';
+      this.lastDataTimems = performance.now();
+      this.checkTimer = global.setInterval(this.check, this.checkPeriodms);
+   }
+
+   private check = () => {
+      if (
+         performance.now() - this.lastDataTimems >= this.dataTimeoutms &&
+         !this.stream.source.isReceivingData()
+      ) {
+         const error = new Error(
+            `No data received for ${this.dataTimeoutms} ms`
+         );
+         error.name = 'Timeout';
+         this.onConnectionLost(error);
+      }
+   };
+
+   private onConnectionLost(error: Error) {
+      this.clearTimers();
+      this.state = 'reconnecting';
+      this.lastError = error;
+      this.dataStoppedAtms = this.lastDataTimems;
+      console.warn('Device connection lost:', error.message);
+      if (this.target.onConnectionLost) {
+         this.target.onConnectionLost(error);
+      }
+      this.retryTimer = global.setTimeout(
+         this.attemptReconnect,
+         this.initialRetryDelayms
+      );
+   }
+
+   private attemptReconnect = () => {
+      this.retryTimer = undefined;
+      const { stream } = this;
+      stream.source.stop();
+      stream.isRunning = stream.source.start();
+      if (!stream.isRunning) {
+         this.onAttemptFailed(
+            new Error(
+               stream.source.lastError() || 'Failed to reopen the connection'
+            )
+         );
+         return;
+      }
+      this.target
+         .verifyDevice()
+         .then(this.onDeviceVerified, (err: Error) =>
+            this.onAttemptFailed(err)
+         );
+   };
+
+   private onDeviceVerified = () => {
+      if (this.state !== 'reconnecting') {
+         return; //stopped while verifying
+      }
+      //N.B. lastDataTimems now includes the reply to the version handshake
+      const gapms = performance.now() - this.dataStoppedAtms;
+      if (!this.target.resumeSampling(gapms)) {
+         this.onAttemptFailed(new Error('Failed to resume sampling'));
+         return;
+      }
+      ++this.reconnectCount;
+      this.attempts = 0;
+      this.monitor();
+   };
+
+   private onAttemptFailed(error: Error) {
+      if (this.state !== 'reconnecting') {
+         return;
+      }
+      this.lastError = error;
+      ++this.attempts;
+      if (this.maxAttempts > 0 && this.attempts >= this.maxAttempts) {
+         this.stream.removeTap(this);
+         this.state = 'failed';
+         if (this.target.onReconnectFailed) {
+            this.target.onReconnectFailed(error);
+         }
+         return;
+      }
+      const delayms = Math.min(
+         this.initialRetryDelayms * 2 ** this.attempts,
+         this.maxRetryDelayms
+      );
+      console.warn(
+         `Reconnection attempt ${this.attempts} failed (${error.message}), retrying in ${delayms} ms`
+      );
+      this.retryTimer = global.setTimeout(this.attemptReconnect, delayms);
+   }
+
+   private clearTimers() {
+      if (this.checkTimer !== undefined) {
+         clearInterval(this.checkTimer);
+         this.checkTimer = undefined;
+      }
+      if (this.retryTimer !== undefined) {
+         clearTimeout(this.retryTimer);
+         this.retryTimer = undefined;
+      }
+   }
+}
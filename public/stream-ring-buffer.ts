@@ -1,4 +1,39 @@
-import { StreamRingBuffer, BlockDataFormat } from './device-api'; //'libs/quark-sys';
+import {
+   StreamRingBuffer,
+   StreamRingBufferArray,
+   BlockDataFormat,
+   ProxyDeviceSys,
+   DeviceEvent,
+   TMessageSeverity,
+   TMessageFlags
+} from './device-api'; //'libs/quark-sys';
+
+/**
+ * What a StreamRingBufferImpl does with new samples when it is full:
+ * 'drop-newest': the new samples are discarded (the default).
+ * 'out-of-range-marker': the new samples are discarded and, once there is room again, the first
+ *    sample after them is replaced with outOfRangeValue so the gap is visible in the recorded
+ *    data. Samples already in the buffer are not changed, as Quark may be reading them.
+ * In all cases the number of samples lost is added to overflowCount.
+ * The oldest samples can't be dropped instead because only Quark moves outIndex.
+ */
+export type StreamOverflowPolicy = 'drop-newest' | 'out-of-range-marker';
+
+function getDefaultOutOfRangeValue(dataFormat: BlockDataFormat): number {
+   switch (dataFormat) {
+      case BlockDataFormat.k32BitBlockDataFormat:
+         return -0x80000000;
+
+      case BlockDataFormat.kFloatBlockDataFormat:
+         return -3.4028234663852886e38; //most negative float32
+
+      case BlockDataFormat.kDoubleBlockDataFormat:
+         return -Number.MAX_VALUE;
+
+      default:
+         return -0x8000;
+   }
+}
 
 function getDefaultBytesFromFormat(dataFormat: BlockDataFormat): number {
    switch (dataFormat) {
@@ -6,12 +41,12 @@ function getDefaultBytesFromFormat(dataFormat: BlockDataFormat): number {
       case BlockDataFormat.k16BitBlockDataFormat:
          return 2;
 
+      case BlockDataFormat.k32BitBlockDataFormat:
       case BlockDataFormat.kFloatBlockDataFormat:
          return 4;
 
-      case BlockDataFormat.k32BitBlockDataFormat:
       case BlockDataFormat.kDoubleBlockDataFormat:
-         throw 'kDoubleBlockDataFormat, not supported currently';
+         return 8;
 
       default:
          return 2;
@@ -23,6 +58,17 @@ export class StreamRingBufferImpl implements StreamRingBuffer {
    indexInDevice: number;
    lenMask: number;
 
+   overflowPolicy: StreamOverflowPolicy = 'drop-newest';
+   //Value written by the 'out-of-range-marker' overflow policy
+   outOfRangeValue: number;
+
+   //Total number of samples lost because the buffer was full
+   overflowCount = 0;
+   //Value of overflowCount when last reported by reportStreamOverflows()
+   overflowCountReported = 0;
+   //Set by the 'out-of-range-marker' policy until the marker has been written
+   private markerPending = false;
+
    calcPow2n(minLength: number): number {
       let pow2n = 2;
       while (pow2n && pow2n < minLength) pow2n <<= 1;
@@ -38,6 +84,7 @@ export class StreamRingBufferImpl implements StreamRingBuffer {
       this.indexInDevice = indexInDevice;
       this.inIndex = 0;
       this.outIndex = 0;
+      this.outOfRangeValue = getDefaultOutOfRangeValue(this.blockDataFormat);
 
       const bytesPerSample = getDefaultBytesFromFormat(this.blockDataFormat);
 
@@ -69,14 +116,20 @@ export class StreamRingBufferImpl implements StreamRingBuffer {
             break;
          }
 
+         case BlockDataFormat.k32BitBlockDataFormat: {
+            this.ringBuffer = new Int32Array(this.ringBufferBuffer);
+            break;
+         }
+
          case BlockDataFormat.kFloatBlockDataFormat: {
             this.ringBuffer = new Float32Array(this.ringBufferBuffer);
             break;
          }
 
-         case BlockDataFormat.k32BitBlockDataFormat:
-         case BlockDataFormat.kDoubleBlockDataFormat:
-            throw 'kDoubleBlockDataFormat, not supported currently';
+         case BlockDataFormat.kDoubleBlockDataFormat: {
+            this.ringBuffer = new Float64Array(this.ringBufferBuffer);
+            break;
+         }
 
          default: {
             this.ringBuffer = new Int16Array(this.ringBufferBuffer);
@@ -106,17 +159,46 @@ export class StreamRingBufferImpl implements StreamRingBuffer {
    }
 
    writeValue(value: number): boolean {
-      if (!this.freeSpace()) return false;
+      if (!this.freeSpace()) {
+         this.onOverflow(1);
+         return false;
+      }
+      if (this.markerPending) {
+         //The marker takes the place of this sample
+         this.markerPending = false;
+         ++this.overflowCount;
+         value = this.outOfRangeValue;
+      }
       this.ringBuffer[this.inIndex++] = value;
       if (this.inIndex >= this.ringBuffer.length) this.inIndex = 0;
       return true;
    }
 
-   writeAll(chunk: Int16Array): boolean {
+   //chunk should be the same type as ringBuffer, e.g. Float64Array for kDoubleBlockDataFormat,
+   //otherwise the values are converted, e.g. truncated, when copied into ringBuffer.
+   writeAll(chunk: StreamRingBufferArray): boolean {
+      const space = this.freeSpace();
+      if (chunk.length > space) {
+         this.onOverflow(chunk.length);
+         return false;
+      }
+      this.writeSome(chunk);
+      return true;
+   }
+
+   //Writes as much of chunk as will fit, using at most two TypedArray.set() calls.
+   //Returns the number of samples written.
+   writeSome(chunk: StreamRingBufferArray): number {
+      let nMarked = 0;
+      if (this.markerPending && chunk.length && this.freeSpace()) {
+         this.writeValue(chunk[0]); //writes the marker instead
+         chunk = chunk.subarray(1);
+         nMarked = 1;
+      }
       const space = this.freeSpace();
-      if (chunk.length > space) return false;
       const bufLen = this.ringBuffer.length;
-      let remaining = chunk.length;
+      const nToWrite = Math.min(chunk.length, space);
+      let remaining = nToWrite;
       if (remaining) {
          let copyLen1 = bufLen - this.inIndex;
          if (copyLen1 > remaining) copyLen1 = remaining;
@@ -149,18 +231,245 @@ export class StreamRingBufferImpl implements StreamRingBuffer {
             // );
 
             //New ShareArrayBuffer based code
-            this.ringBuffer.set(chunk.subarray(copyLen1), 0);
+            this.ringBuffer.set(
+               chunk.subarray(copyLen1, copyLen1 + remaining),
+               0
+            );
 
             this.inIndex += remaining;
             if (this.inIndex >= bufLen) this.inIndex -= bufLen;
          }
       }
-      return true;
+      if (nToWrite < chunk.length) {
+         this.onOverflow(chunk.length - nToWrite);
+      }
+      return nToWrite + nMarked;
+   }
+
+   private onOverflow(nLost: number) {
+      this.overflowCount += nLost;
+      if (this.overflowPolicy === 'out-of-range-marker') {
+         this.markerPending = true;
+      }
    }
 
    //Internal implementation
-   ringBuffer: Int16Array | Float32Array; //View onto ringBufferBuffer
+   ringBuffer: StreamRingBufferArray; //View onto ringBufferBuffer
    ringBufferBuffer: SharedArrayBuffer; //Buffer; //Memory under ringBuffer (shared with Quark)
    inIndex: number; //read by Quark to see if data is available
    outIndex: number; //written by Quark when data is read from buffer.
 }
+
+interface TypedArrayConstructor {
+   new (length: number): StreamRingBufferArray;
+}
+
+/**
+ * Writes blocks of interleaved samples, e.g. as received in a multi-channel data packet,
+ * into the stream buffers, de-interleaving them on the way.
+ * Each stream's samples are first gathered into a scratch array of the same type as the
+ * stream's ring buffer, then written using at most two TypedArray.set() calls, which is much
+ * faster at high sample rates than calling writeInt() for every sample.
+ *
+ * Typically created in prepareForSampling() once the outStreamBuffers have been created.
+ */
+export class InterleavedStreamWriter {
+   //Number of samples that did not fit into each stream's buffer during the last write(),
+   //indexed by position in outStreamBuffers.
+   droppedSamples: Int32Array;
+
+   //Channel within each point of the interleaved block written to each stream, or -1 if
+   //the stream is not written.
+   streamChannels: Int32Array;
+
+   private scratch: (StreamRingBufferArray | undefined)[];
+
+   /**
+    * @param outStreamBuffers the buffers to write into, e.g. the proxy's outStreamBuffers.
+    * @param nChannels number of channels (samples) in each point of an interleaved block.
+    * @param channelToStream index into outStreamBuffers for each channel, or -1 if the channel
+    * is not recorded. Defaults to channel n being written to outStreamBuffers[n].
+    * @param skipStreams optional mask, indexed by position in outStreamBuffers, of streams
+    * that should not be written, e.g. because they are disabled.
+    */
+   constructor(
+      public outStreamBuffers: StreamRingBufferImpl[],
+      public nChannels: number,
+      channelToStream?: ArrayLike<number>,
+      skipStreams?: ArrayLike<boolean>
+   ) {
+      this.droppedSamples = new Int32Array(outStreamBuffers.length);
+      this.streamChannels = new Int32Array(outStreamBuffers.length);
+      this.scratch = new Array(outStreamBuffers.length).fill(undefined);
+      this.setMapping(channelToStream, skipStreams);
+   }
+
+   setMapping(
+      channelToStream?: ArrayLike<number>,
+      skipStreams?: ArrayLike<boolean>
+   ) {
+      this.streamChannels.fill(-1);
+      for (let channel = 0; channel < this.nChannels; ++channel) {
+         const streamIndex = channelToStream
+            ? channelToStream[channel]
+            : channel;
+         if (
+            streamIndex === undefined ||
+            streamIndex < 0 ||
+            streamIndex >= this.streamChannels.length
+         ) {
+            continue;
+         }
+         if (skipStreams && skipStreams[streamIndex]) {
+            continue;
+         }
+         this.streamChannels[streamIndex] = channel;
+      }
+   }
+
+   /**
+    * @param interleaved block of points: [ch0, ch1, ... chN-1, ch0, ch1, ...]
+    * @param nPoints number of points to write. Defaults to all the complete points in
+    * interleaved.
+    * @returns the number of samples that did not fit into each stream's buffer
+    * (this.droppedSamples).
+    */
+   write(
+      interleaved: ArrayLike<number>,
+      nPoints = Math.floor(interleaved.length / this.nChannels)
+   ): Int32Array {
+      const { nChannels } = this;
+      this.droppedSamples.fill(0);
+      for (
+         let streamIndex = 0;
+         streamIndex < this.outStreamBuffers.length;
+         ++streamIndex
+      ) {
+         const channel = this.streamChannels[streamIndex];
+         const outStreamBuffer = this.outStreamBuffers[streamIndex];
+         if (channel < 0 || !outStreamBuffer) {
+            continue;
+         }
+
+         const scratch = this.scratchFor(streamIndex, nPoints);
+         for (
+            let pt = 0, index = channel;
+            pt < nPoints;
+            ++pt, index += nChannels
+         ) {
+            scratch[pt] = interleaved[index];
+         }
+
+         const written = outStreamBuffer.writeSome(
+            scratch.subarray(0, nPoints)
+         );
+         this.droppedSamples[streamIndex] = nPoints - written;
+      }
+      return this.droppedSamples;
+   }
+
+   private scratchFor(streamIndex: number, nPoints: number) {
+      const { ringBuffer } = this.outStreamBuffers[streamIndex];
+      let scratch = this.scratch[streamIndex];
+      if (
+         !scratch ||
+         scratch.length < nPoints ||
+         scratch.constructor !== ringBuffer.constructor
+      ) {
+         scratch = new (ringBuffer.constructor as TypedArrayConstructor)(
+            nPoints
+         );
+         this.scratch[streamIndex] = scratch;
+      }
+      return scratch;
+   }
+}
+
+/**
+ * Reports any samples lost since the last call because stream buffers were full (see
+ * StreamRingBufferImpl.overflowCount) to Quark as kDeviceDataLoss events, one per stream.
+ * Typically called from the proxy's onSamplingUpdate().
+ *
+ * @returns the total number of newly lost samples across all the streams.
+ */
+export function reportStreamOverflows(
+   proxyDeviceSys: ProxyDeviceSys | null,
+   deviceName: string,
+   outStreamBuffers: StreamRingBuffer[]
+): number {
+   let totalLost = 0;
+   for (const buffer of outStreamBuffers) {
+      if (!(buffer instanceof StreamRingBufferImpl)) continue;
+
+      const lost = buffer.overflowCount - buffer.overflowCountReported;
+      if (lost <= 0) continue;
+
+      buffer.overflowCountReported = buffer.overflowCount;
+      totalLost += lost;
+      if (proxyDeviceSys) {
+         proxyDeviceSys.onDeviceEvent(
+            DeviceEvent.kDeviceDataLoss,
+            deviceName,
+            `${lost} samples lost from stream ${
+               buffer.indexInDevice + 1
+            } because its buffer was full (${
+               buffer.overflowCount
+            } lost in total).`,
+            {
+               severity: TMessageSeverity.kMessageWarn,
+               streamIndex: buffer.indexInDevice
+            }
+         );
+      }
+   }
+   return totalLost;
+}
+
+/**
+ * Writes outOfRangeValue samples into each stream to fill a gap in the data, e.g. while the
+ * connection to the device was lost, so the data after the gap stays aligned in time. The
+ * gap is annotated with a kDeviceDataLoss event. Gap samples that do not fit in a buffer
+ * are added to its overflowCount.
+ *
+ * @param samplesPerSec returns the sample rate of the stream with the given indexInDevice.
+ * @param cause completes the message "No data for x s because ...".
+ * @returns the total number of samples in the gap across all the streams.
+ */
+export function fillStreamGap(
+   proxyDeviceSys: ProxyDeviceSys | null,
+   deviceName: string,
+   outStreamBuffers: StreamRingBuffer[],
+   gapms: number,
+   samplesPerSec: (indexInDevice: number) => number,
+   cause: string
+): number {
+   let totalSamples = 0;
+   for (const buffer of outStreamBuffers) {
+      if (!(buffer instanceof StreamRingBufferImpl)) continue;
+
+      const nSamples = Math.round(
+         (gapms * samplesPerSec(buffer.indexInDevice)) / 1000
+      );
+      if (nSamples <= 0) continue;
+
+      totalSamples += nSamples;
+      const nToWrite = Math.min(nSamples, buffer.freeSpace());
+      const fill = new (buffer.ringBuffer.constructor as TypedArrayConstructor)(
+         nToWrite
+      ).fill(buffer.outOfRangeValue);
+      buffer.writeSome(fill);
+      buffer.overflowCount += nSamples - nToWrite;
+   }
+   if (proxyDeviceSys && totalSamples) {
+      proxyDeviceSys.onDeviceEvent(
+         DeviceEvent.kDeviceDataLoss,
+         deviceName,
+         `No data for ${(gapms / 1000).toFixed(1)} s because ${cause}.`,
+         {
+            severity: TMessageSeverity.kMessageWarn,
+            flags: TMessageFlags.kMessageAddAnotation
+         }
+      );
+   }
+   return totalSamples;
+}
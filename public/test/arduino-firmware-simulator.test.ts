@@ -0,0 +1,241 @@
+import {
+   DeviceClass,
+   PhysicalDevice
+} from '../../examples/devices/ArduinoExample/ArduinoExample';
+
+import {
+   DeviceEvent,
+   FirstSampleRemoteTime,
+   OpenPhysicalDevice,
+   TimePoint
+} from '../../public/device-api';
+
+import { ArduinoFirmwareSimulator } from './arduino-firmware-simulator';
+import { MockDuplexDeviceConnection } from './mock-device-connection';
+import { QuarkHarness } from './quark-harness';
+
+const kSparkfunSAMD51 = { vendorId: '1B4F', productId: 'F016' };
+
+//Time for checkDeviceIsPresent() to wait for the Arduino to reboot and respond
+const kDiscoveryTimems = 2100;
+
+async function findDevice(connection: MockDuplexDeviceConnection) {
+   const callback = jest.fn();
+   new DeviceClass().checkDeviceIsPresent(connection, callback);
+   await jest.advanceTimersByTimeAsync(kDiscoveryTimems);
+   return callback;
+}
+
+async function openSimulatedDevice(simulator: ArduinoFirmwareSimulator) {
+   const connection = new MockDuplexDeviceConnection(
+      simulator,
+      kSparkfunSAMD51
+   );
+   const harness = new QuarkHarness(new DeviceClass());
+   const result = harness.checkDeviceIsPresent(connection);
+   await jest.advanceTimersByTimeAsync(kDiscoveryTimems);
+   expect(result.callbackCount).toBe(1);
+   expect(result.device).toBeInstanceOf(PhysicalDevice);
+
+   const proxy = harness.createProxy(result.device) as ReturnType<
+      DeviceClass['createProxyDevice']
+   >;
+   expect(harness.connectToPhysicalDevice()).toBe(true);
+   expect(harness.prepareForSampling()).toBe(true);
+   return { connection, harness, proxy, proxySys: harness.proxySys };
+}
+
+describe('ArduinoFirmwareSimulator discovery', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('checkDeviceIsPresent() finds the simulated device', async () => {
+      const simulator = new ArduinoFirmwareSimulator({ rebootDelayms: 1500 });
+      const connection = new MockDuplexDeviceConnection(
+         simulator,
+         kSparkfunSAMD51
+      );
+      const callback = await findDevice(connection);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      const [error, device] = callback.mock.calls[0];
+      expect(error).toBeNull();
+      expect((device as OpenPhysicalDevice).getDescriptor()).toEqual({
+         deviceType: 'SparkFun SAMD51 Thing Plus',
+         numInputs: 2,
+         deviceId: '0001 [COM99]'
+      });
+      expect(connection.options.baud_rate).toBe(115200);
+      //The 's' command was sent while the Arduino was rebooting
+      expect(simulator.commands).toEqual(['v\n']);
+   });
+
+   test('checkDeviceIsPresent() ignores other USB devices', async () => {
+      const simulator = new ArduinoFirmwareSimulator();
+      const connection = new MockDuplexDeviceConnection(simulator, {
+         vendorId: '0403',
+         productId: '6001'
+      });
+      const callback = await findDevice(connection);
+
+      expect(callback).toHaveBeenCalledWith(null, null);
+      expect(connection.written).toHaveLength(0);
+   });
+
+   test('checkDeviceIsPresent() times out if the device does not respond', async () => {
+      const simulator = new ArduinoFirmwareSimulator({ rebootDelayms: 10000 });
+      const connection = new MockDuplexDeviceConnection(
+         simulator,
+         kSparkfunSAMD51
+      );
+      const callback = await findDevice(connection);
+      expect(callback).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0]).toBeInstanceOf(Error);
+      expect(callback.mock.calls[0][1]).toBeNull();
+   });
+});
+
+describe('ArduinoFirmwareSimulator sampling', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('samples at the default rate and reports the first sample time', async () => {
+      const simulator = new ArduinoFirmwareSimulator({ clockOffsetus: 12345 });
+      const { connection, harness, proxySys } = await openSimulatedDevice(
+         simulator
+      );
+      connection.maxChunkBytes = 7; //Packets are split across chunks
+
+      expect(harness.startSampling()).toBe(true);
+      jest.advanceTimersByTime(1000);
+      expect(harness.stopSampling()).toBe(true);
+      jest.advanceTimersByTime(100);
+
+      expect(simulator.samplesPerSec).toBe(100);
+      const [stream1, stream2] = proxySys.samples;
+      //Samples parsed after the last samplingUpdate() are not collected
+      expect(stream1.length).toBeGreaterThanOrEqual(90);
+      expect(stream1.length).toBeLessThanOrEqual(100);
+      expect(stream1).toEqual(stream1.map((value, i) => i));
+      expect(stream2).toEqual(stream1.map((value, i) => i + 0x1000));
+
+      const events = proxySys.deviceEvents.map((e) => e.event);
+      expect(events).toEqual([
+         DeviceEvent.kDeviceStarted,
+         DeviceEvent.kDeviceStopped
+      ]);
+
+      const firstSampleTime = proxySys.remoteTimeEvents
+         .map((e) => e.timePoint)
+         .find(
+            (t) => t instanceof FirstSampleRemoteTime
+         ) as FirstSampleRemoteTime;
+      expect(firstSampleTime).toBeDefined();
+      expect(firstSampleTime.remoteFirstSampleTick[0]).toBeGreaterThan(12345);
+      harness.assertNoViolations();
+   });
+
+   test('answers time requests using the drifting device clock', async () => {
+      const kDriftppm = 200;
+      const simulator = new ArduinoFirmwareSimulator({
+         clockDriftppm: kDriftppm
+      });
+      const { proxy, proxySys } = await openSimulatedDevice(simulator);
+      jest.advanceTimersByTime(10000);
+
+      expect(proxy.getRemoteTime()).toBe(true);
+      jest.advanceTimersByTime(10);
+
+      expect(proxySys.remoteTimeEvents).toHaveLength(1);
+      const timePoint = proxySys.remoteTimeEvents[0].timePoint as TimePoint;
+      const preus = timePoint.localPreTimeTick[0];
+      const postus = timePoint.localPostTimeTick[0];
+      const remoteus = timePoint.remoteTimeTick[0];
+      const kRate = 1 + kDriftppm * 1e-6;
+      expect(postus).toBeGreaterThan(preus);
+      expect(remoteus).toBeGreaterThanOrEqual(Math.floor(preus * kRate));
+      expect(remoteus).toBeLessThanOrEqual(Math.ceil(postus * kRate));
+      //The device clock is running fast by kDriftppm
+      expect(remoteus - postus).toBeGreaterThan(preus * kDriftppm * 1e-6 - 1);
+   });
+
+   test('fills dropped packets with out of range samples and skips junk', async () => {
+      const simulator = new ArduinoFirmwareSimulator();
+      const { connection, harness, proxySys } = await openSimulatedDevice(
+         simulator
+      );
+
+      expect(harness.startSampling()).toBe(true);
+      jest.advanceTimersByTime(200);
+      connection.dropBytes(2 * 8); //Two 'D' packets with 2 channels
+      jest.advanceTimersByTime(200);
+      connection.injectJunk([0x50, 0x00, 0xff, 0x50, 0xa0, 0x01]);
+      jest.advanceTimersByTime(200);
+      harness.stopSampling();
+
+      const [stream1] = proxySys.samples;
+      const lost = stream1.filter((value) => value === -0x8000);
+      expect(lost).toHaveLength(2);
+      //Apart from the lost samples, every sample the simulator sent arrived in order
+      stream1.forEach((value, i) => {
+         if (value !== -0x8000) expect(value).toBe(i);
+      });
+   });
+
+   test('fills losses longer than the packet counter range', async () => {
+      const simulator = new ArduinoFirmwareSimulator();
+      const { connection, harness, proxySys } = await openSimulatedDevice(
+         simulator
+      );
+
+      expect(harness.startSampling()).toBe(true);
+      jest.advanceTimersByTime(200);
+      connection.dropBytes(300 * 8); //300 'D' packets, more than the 8 bit counter range
+      for (let i = 0; i < 8; ++i) {
+         jest.advanceTimersByTime(500);
+         connection.injectJunk([0x00]); //Keep the connection alive
+      }
+      harness.stopSampling();
+
+      const [stream1] = proxySys.samples;
+      const lost = stream1.filter((value) => value === -0x8000);
+      expect(lost).toHaveLength(300);
+      stream1.forEach((value, i) => {
+         if (value !== -0x8000) expect(value).toBe(i);
+      });
+   });
+
+   test('reports an error when the device is unplugged', async () => {
+      const simulator = new ArduinoFirmwareSimulator();
+      const { connection, harness, proxy } = await openSimulatedDevice(
+         simulator
+      );
+
+      expect(harness.startSampling()).toBe(true);
+      jest.advanceTimersByTime(100);
+      connection.disconnect('USB device removed');
+
+      expect(proxy.getLastError()).toBe('USB device removed');
+      expect(connection.isOpen()).toBe(false);
+      jest.advanceTimersByTime(300);
+      expect(connection.isReceivingData()).toBe(false);
+   });
+});
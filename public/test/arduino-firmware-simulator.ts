@@ -0,0 +1,312 @@
+import { IDeviceVersionInfo } from '../../public/device-api';
+
+import {
+   IMockDeviceFirmware,
+   MockDuplexDeviceConnection,
+   localSteadyClockTickNowus
+} from './mock-device-connection';
+
+//Keep in sync with examples/firmware/SAMD51Lightning/SAMD51Lightning.ino
+export const kSimulatorSampleRates = [10000, 4000, 2000, 1000, 400, 200, 100];
+const kDefaultSampleRateIndex = 6;
+const kPointsPerPacket = 1;
+const kPointsPerMediumSizePacket = 10;
+const kUSBFramePeriodus = 1000;
+const kUSBFrameCountMask = (1 << 11) - 1;
+const kHeader = [0x50, 0xa0]; //'P', 0xA0
+const kNewLine = '\n'.charCodeAt(0);
+
+export interface IArduinoFirmwareSimulatorOptions {
+   //Merged into the JSON returned by the 'v' command
+   versionInfo?: Partial<IDeviceVersionInfo>;
+   //Time after the connection is opened during which commands are ignored, as if the
+   //Arduino were rebooting.
+   rebootDelayms?: number;
+   //Delay between a command being written and the firmware acting on it
+   commandLatencyms?: number;
+   //How often sampled data is sent to the host while sampling
+   updatePeriodms?: number;
+   //Remote (device) clock error relative to the local steady clock, in parts per million.
+   //This affects both the time packets and the sample rate.
+   clockDriftppm?: number;
+   //Remote clock value (in microseconds) when the local steady clock was 0
+   clockOffsetus?: number;
+   //Returns the 16 bit value sent in data packets for a channel
+   sampleGenerator?: (channel: number, pointIndex: number) => number;
+}
+
+/**
+ * Simulates the SAMD51Lightning / DueLightning Arduino firmware so device scripts such as the
+ * ArduinoExample can be tested end-to-end against a MockDuplexDeviceConnection.
+ *
+ * Supported commands:
+ * 'v' JSON version info terminated by '$$$'. Resets the packet count.
+ * 'b' begin sampling on the next USB frame, 'bo' + int16 begin sampling on the specified frame.
+ * 's' stop sampling.
+ * 'n' + request number: 'N' time packet with the current remote tick.
+ * 'u' + request number: 'L' time packet with the latest USB frame number and time.
+ * 'f' request an 'F' first sample time packet.
+ * '~' + rate index: set the sample rate. Rates above 100 Hz use 'M' (10 point) data packets.
+ */
+export class ArduinoFirmwareSimulator implements IMockDeviceFirmware {
+   connection: MockDuplexDeviceConnection | null = null;
+   versionInfo: IDeviceVersionInfo;
+   rebootDelayms: number;
+   commandLatencyms: number;
+   updatePeriodms: number;
+   clockDriftppm: number;
+   clockOffsetus: number;
+   sampleGenerator: (channel: number, pointIndex: number) => number;
+
+   samplesPerSec = kSimulatorSampleRates[kDefaultSampleRateIndex];
+   pointsPerPacket = kPointsPerPacket;
+   isSampling = false;
+   //Every command received, for test assertions
+   commands: string[] = [];
+
+   private packetCount = 0;
+   private bootedAtms = 0;
+   private rxBytes: number[] = [];
+   private timers = new Set<NodeJS.Timeout>();
+   private updateTimer: NodeJS.Timeout | undefined;
+   private firstSampleRemoteus = 0;
+   private startLocalus = 0;
+   private pointsSent = 0;
+   private firstSampleTimeRequested = false;
+
+   constructor(options: IArduinoFirmwareSimulatorOptions = {}) {
+      this.versionInfo = {
+         deviceClass: 'Arduino_Example',
+         deviceName: 'SparkFun SAMD51 Thing Plus',
+         version: '0.9.1',
+         numberOfChannels: 2,
+         deviceSynchModes: 15,
+         serialNumber: '0001',
+         ...options.versionInfo
+      };
+      this.rebootDelayms = options.rebootDelayms ?? 0;
+      this.commandLatencyms = options.commandLatencyms ?? 1;
+      this.updatePeriodms = options.updatePeriodms ?? 10;
+      this.clockDriftppm = options.clockDriftppm ?? 0;
+      this.clockOffsetus = options.clockOffsetus ?? 0;
+      this.sampleGenerator =
+         options.sampleGenerator ??
+         ((channel, pointIndex) => (pointIndex + channel * 0x1000) & 0xffff);
+   }
+
+   get nChannels() {
+      return this.versionInfo.numberOfChannels ?? 1;
+   }
+
+   //Current value of the device's 32 bit micros() clock
+   remoteTickNowus() {
+      return this.localToRemoteus(localSteadyClockTickNowus());
+   }
+
+   localToRemoteus(localus: number) {
+      return Math.round(
+         this.clockOffsetus + localus * (1 + this.clockDriftppm * 1e-6)
+      );
+   }
+
+   onConnectionStart(connection: MockDuplexDeviceConnection) {
+      this.connection = connection;
+      this.bootedAtms = performance.now() + this.rebootDelayms;
+      this.rxBytes = [];
+      this.stopSampling();
+   }
+
+   onConnectionStop() {
+      this.stopSampling();
+      for (const timer of this.timers) {
+         clearTimeout(timer);
+      }
+      this.timers.clear();
+   }
+
+   onWrite(bytes: Buffer) {
+      if (performance.now() < this.bootedAtms) {
+         return; //Still rebooting
+      }
+      this.rxBytes.push(...bytes);
+      let command: number[] | undefined;
+      while ((command = this.nextCommand())) {
+         const commandBytes = command;
+         const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            this.processCommand(commandBytes);
+         }, this.commandLatencyms);
+         this.timers.add(timer);
+      }
+   }
+
+   private nextCommand(): number[] | undefined {
+      const rx = this.rxBytes;
+      //'bo' is followed by a binary int16 frame number which may contain a '\n'
+      const commandLen =
+         rx[0] === 'b'.charCodeAt(0) && rx[1] === 'o'.charCodeAt(0)
+            ? rx.length >= 5
+               ? 5
+               : -1
+            : rx.indexOf(kNewLine) + 1;
+      if (commandLen <= 0) {
+         return undefined;
+      }
+      return rx.splice(0, commandLen);
+   }
+
+   private processCommand(command: number[]) {
+      this.commands.push(Buffer.from(command).toString('binary'));
+      switch (String.fromCharCode(command[0])) {
+         case 'v':
+            this.send(
+               Buffer.from(JSON.stringify(this.versionInfo) + '$$$', 'binary')
+            );
+            this.packetCount = 0; //new session
+            break;
+         case 'b': {
+            const startOnFrame =
+               command[1] === 'o'.charCodeAt(0)
+                  ? command[2] + (command[3] << 8)
+                  : -1;
+            this.startSampling(startOnFrame);
+            break;
+         }
+         case 's':
+            this.stopSampling();
+            break;
+         case 'n':
+            this.sendTimePacket('N', command[1]);
+            break;
+         case 'u':
+            this.sendTimePacket('L', command[1]);
+            break;
+         case 'f':
+            this.firstSampleTimeRequested = true;
+            this.sendFirstSampleTimeIfNeeded();
+            break;
+         case '~': {
+            const index = command[1] - '0'.charCodeAt(0);
+            if (0 <= index && index < kSimulatorSampleRates.length) {
+               this.samplesPerSec = kSimulatorSampleRates[index];
+            }
+            this.pointsPerPacket =
+               this.samplesPerSec > 100
+                  ? kPointsPerMediumSizePacket
+                  : kPointsPerPacket;
+            break;
+         }
+         default:
+            break;
+      }
+   }
+
+   private startSampling(startOnFrame: number) {
+      this.stopSampling();
+      //Sampling starts at the beginning of the next (or specified) USB frame
+      const nowus = localSteadyClockTickNowus();
+      let startLocalus =
+         (Math.floor(nowus / kUSBFramePeriodus) + 1) * kUSBFramePeriodus;
+      if (startOnFrame >= 0) {
+         const frame = (startLocalus / kUSBFramePeriodus) & kUSBFrameCountMask;
+         const framesToWait = (startOnFrame - frame) & kUSBFrameCountMask;
+         startLocalus += framesToWait * kUSBFramePeriodus;
+      }
+      this.startLocalus = startLocalus;
+      this.firstSampleRemoteus = this.localToRemoteus(startLocalus);
+      this.pointsSent = 0;
+      this.isSampling = true;
+      this.updateTimer = setInterval(this.onUpdate, this.updatePeriodms);
+   }
+
+   private stopSampling() {
+      this.isSampling = false;
+      this.firstSampleTimeRequested = false;
+      if (this.updateTimer) {
+         clearInterval(this.updateTimer);
+         this.updateTimer = undefined;
+      }
+   }
+
+   private hasFirstSample() {
+      return (
+         this.isSampling && localSteadyClockTickNowus() >= this.startLocalus
+      );
+   }
+
+   private onUpdate = () => {
+      if (!this.hasFirstSample()) {
+         return;
+      }
+      this.sendFirstSampleTimeIfNeeded();
+
+      //The ADC is clocked by the device's clock, so drift affects the sample rate.
+      const elapsedus = this.remoteTickNowus() - this.firstSampleRemoteus;
+      const pointsAvailable =
+         Math.floor((elapsedus * this.samplesPerSec) / 1e6) + 1;
+
+      const packets: Buffer[] = [];
+      while (pointsAvailable - this.pointsSent >= this.pointsPerPacket) {
+         packets.push(this.dataPacket());
+      }
+      if (packets.length) {
+         this.send(Buffer.concat(packets));
+      }
+   };
+
+   private dataPacket() {
+      const nPoints = this.pointsPerPacket;
+      const payload = Buffer.alloc(nPoints * this.nChannels * 2);
+      let offset = 0;
+      for (let point = 0; point < nPoints; ++point) {
+         for (let chan = 0; chan < this.nChannels; ++chan) {
+            const value = this.sampleGenerator(chan, this.pointsSent);
+            offset = payload.writeUInt16LE(value & 0xffff, offset);
+         }
+         ++this.pointsSent;
+      }
+      return this.packet(nPoints === 1 ? 'D' : 'M', payload);
+   }
+
+   private sendFirstSampleTimeIfNeeded() {
+      if (!this.firstSampleTimeRequested || !this.hasFirstSample()) {
+         return;
+      }
+      this.firstSampleTimeRequested = false;
+      const payload = Buffer.alloc(4);
+      payload.writeInt32LE(this.firstSampleRemoteus | 0, 0);
+      this.send(this.packet('F', payload));
+   }
+
+   private sendTimePacket(type: 'N' | 'L', timeRequestNumber: number) {
+      const nowLocalus = localSteadyClockTickNowus();
+      const payload = Buffer.alloc(type === 'N' ? 5 : 11);
+      payload[0] = timeRequestNumber;
+      payload.writeInt32LE(this.localToRemoteus(nowLocalus) | 0, 1);
+      if (type === 'L') {
+         const frameLocalus =
+            Math.floor(nowLocalus / kUSBFramePeriodus) * kUSBFramePeriodus;
+         const frameNumber =
+            (frameLocalus / kUSBFramePeriodus) & kUSBFrameCountMask;
+         payload.writeUInt16LE(frameNumber, 5);
+         payload.writeInt32LE(this.localToRemoteus(frameLocalus) | 0, 7);
+      }
+      this.send(this.packet(type, payload));
+   }
+
+   private packet(type: string, payload: Buffer) {
+      const header = Buffer.from([
+         ...kHeader,
+         type.charCodeAt(0),
+         this.packetCount
+      ]);
+      this.packetCount = (this.packetCount + 1) & 0xff;
+      return Buffer.concat([header, payload]);
+   }
+
+   private send(bytes: Buffer) {
+      if (this.connection) {
+         this.connection.receive(bytes);
+      }
+   }
+}
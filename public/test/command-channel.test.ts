@@ -0,0 +1,145 @@
+import { CommandChannel } from '../../public/command-channel';
+import { DuplexStream } from '../../public/device-streams';
+import { Parser } from '../../public/packet-parser';
+
+import { ArduinoFirmwareSimulator } from './arduino-firmware-simulator';
+import { MockDuplexDeviceConnection } from './mock-device-connection';
+
+function openChannel(simulator = new ArduinoFirmwareSimulator()) {
+   const connection = new MockDuplexDeviceConnection(simulator);
+   const stream = new DuplexStream(connection);
+   stream.on('error', () => {});
+   const channel = new CommandChannel(stream);
+   return { connection, stream, channel, simulator };
+}
+
+function versionInfo(response: Buffer) {
+   return JSON.parse(response.toString());
+}
+
+describe('CommandChannel', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+   });
+
+   test('resolves with the bytes before the delimiter', async () => {
+      const { channel } = openChannel();
+      const response = channel.sendCommand('v\n', { expect: '$$$' });
+      jest.advanceTimersByTime(10);
+
+      expect(versionInfo(await response).deviceClass).toBe('Arduino_Example');
+      expect(channel.pendingCount).toBe(0);
+   });
+
+   test('resolves when the predicate matches', async () => {
+      const { channel } = openChannel();
+      //An 'N' time packet: header, type, counter, request number and 4 byte time
+      const response = channel.sendCommand([0x6e, 7, 0x0a], {
+         expect: (received) => received.length >= 9
+      });
+      jest.advanceTimersByTime(10);
+
+      const packet = await response;
+      expect(packet.slice(0, 3).toString('binary')).toBe('P\xa0N');
+      expect(packet[4]).toBe(7);
+   });
+
+   test('sends queued commands one at a time', async () => {
+      const { connection, channel } = openChannel();
+      const written = () =>
+         connection.written.map((bytes) => bytes.toString('binary'));
+
+      const first = channel.sendCommand('v\n', { expect: '$$$' });
+      const second = channel.sendCommand('~3\n');
+      const third = channel.sendCommand('v\n', { expect: '$$$' });
+      expect(written()).toEqual(['v\n']);
+      expect(channel.pendingCount).toBe(3);
+
+      jest.advanceTimersByTime(10);
+      await first;
+      jest.advanceTimersByTime(10);
+      await second;
+      jest.advanceTimersByTime(10);
+      await third;
+      expect(written()).toEqual(['v\n', '~3\n', 'v\n']);
+   });
+
+   test('retries commands that time out', async () => {
+      //The first 'v' is ignored while the device reboots
+      const { connection, channel } = openChannel(
+         new ArduinoFirmwareSimulator({ rebootDelayms: 300 })
+      );
+      const response = channel.sendCommand('v\n', {
+         expect: '$$$',
+         timeoutMs: 500,
+         retries: 2
+      });
+      jest.advanceTimersByTime(600);
+
+      expect(versionInfo(await response).serialNumber).toBe('0001');
+      expect(connection.written).toHaveLength(2);
+   });
+
+   test('rejects when retries are exhausted', async () => {
+      const { channel } = openChannel(
+         new ArduinoFirmwareSimulator({ rebootDelayms: 10000 })
+      );
+      const response = channel.sendCommand('v\n', {
+         expect: '$$$',
+         timeoutMs: 100,
+         retries: 1
+      });
+      const next = channel.sendCommand('v\n', { expect: '$$$' });
+      jest.advanceTimersByTime(250);
+
+      await expect(response).rejects.toThrow(
+         'Timed out waiting for a response to command "v\\n"'
+      );
+      //The queue moves on to the next command
+      expect(channel.pendingCount).toBe(1);
+      channel.close();
+      await expect(next).rejects.toThrow('Command channel is closed');
+   });
+
+   test('rejects outstanding commands when the stream errors', async () => {
+      const { connection, channel } = openChannel(
+         new ArduinoFirmwareSimulator({ rebootDelayms: 10000 })
+      );
+      const first = channel.sendCommand('v\n', { expect: '$$$' });
+      const second = channel.sendCommand('s\n');
+      connection.disconnect('USB device removed');
+
+      await expect(first).rejects.toThrow('USB device removed');
+      await expect(second).rejects.toThrow('USB device removed');
+      await expect(channel.sendCommand('s\n')).rejects.toThrow(
+         'USB device removed'
+      );
+   });
+
+   test('coexists with a Parser consuming the stream', async () => {
+      const { stream, channel, simulator } = openChannel();
+      const parser = new Parser(stream, simulator.nChannels);
+      const onRemoteTimeEvent = jest.fn();
+      parser.setProxyDevice({
+         outStreamBuffers: [],
+         onSamplingStarted: () => {},
+         onSamplingUpdate: () => {},
+         onSamplingStopped: () => {},
+         onRemoteTimeEvent,
+         onError: () => {}
+      });
+
+      const response = channel.sendCommand('v\n', { expect: '$$$' });
+      expect(parser.getRemoteTime()).toBe(true);
+      jest.advanceTimersByTime(10);
+
+      expect(versionInfo(await response).numberOfChannels).toBe(2);
+      //The parser found its time packet following the version reply
+      expect(onRemoteTimeEvent).toHaveBeenCalledTimes(1);
+      expect(onRemoteTimeEvent.mock.calls[0][0]).toBeNull();
+   });
+});
@@ -0,0 +1,159 @@
+import { OpenPhysicalDevice } from '../../public/device-api';
+import { createCheckDeviceIsPresent } from '../../public/device-discovery';
+
+import {
+   IMockDeviceFirmware,
+   MockDuplexDeviceConnection
+} from './mock-device-connection';
+
+const kTestDevice = {
+   vendorId: '1B4F',
+   productId: 'F016',
+   deviceName: 'Test Device'
+};
+
+//Replies to 'v\n' with a fixed response
+class VersionFirmware implements IMockDeviceFirmware {
+   connection: MockDuplexDeviceConnection | null = null;
+   isRunning = false;
+
+   constructor(public response: string | null) {}
+
+   onConnectionStart(connection: MockDuplexDeviceConnection) {
+      this.connection = connection;
+      this.isRunning = true;
+   }
+
+   onConnectionStop() {
+      this.isRunning = false;
+   }
+
+   onWrite(bytes: Buffer) {
+      if (bytes.toString() === 'v\n' && this.response !== null) {
+         const response = Buffer.from(this.response);
+         setTimeout(() => this.connection?.receive(response), 1);
+      }
+   }
+}
+
+const kDevice = { getDescriptor: jest.fn() } as unknown as OpenPhysicalDevice;
+
+function discover(
+   response: string | null,
+   createPhysicalDevice: () => OpenPhysicalDevice = () => kDevice
+) {
+   const firmware = new VersionFirmware(response);
+   const connection = new MockDuplexDeviceConnection(firmware, kTestDevice);
+   const callback = jest.fn();
+   const checkDeviceIsPresent = createCheckDeviceIsPresent({
+      devices: [kTestDevice],
+      baudRate: 9600,
+      rebootDelayms: 500,
+      timeoutms: 1000,
+      validateVersionInfo: (versionInfo) =>
+         versionInfo.deviceClass === 'TestClass',
+      createPhysicalDevice
+   });
+   checkDeviceIsPresent(connection, callback);
+   return { firmware, connection, callback };
+}
+
+describe('createCheckDeviceIsPresent', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('calls back with the physical device', async () => {
+      const createPhysicalDevice = jest.fn(() => kDevice);
+      const { connection, callback, firmware } = discover(
+         'junk{"deviceClass": "TestClass", "version": "1.0"}$$$',
+         createPhysicalDevice
+      );
+      expect(connection.options.baud_rate).toBe(9600);
+      expect(connection.written.map(String)).toEqual(['s\n']);
+
+      await jest.advanceTimersByTimeAsync(510);
+      expect(connection.written.map(String)).toEqual(['s\n', 'v\n']);
+      expect(callback.mock.calls).toEqual([[null, kDevice]]);
+      const [, versionInfo, device] = createPhysicalDevice.mock
+         .calls[0] as unknown[];
+      expect(versionInfo).toEqual({ deviceClass: 'TestClass', version: '1.0' });
+      expect(device).toMatchObject({ deviceName: 'Test Device', connection });
+      //The physical device now owns the stream
+      expect(firmware.isRunning).toBe(true);
+   });
+
+   test('ignores connections to other devices', () => {
+      const firmware = new VersionFirmware('');
+      const connection = new MockDuplexDeviceConnection(firmware, {
+         vendorId: '0403',
+         productId: '6001'
+      });
+      const callback = jest.fn();
+      createCheckDeviceIsPresent({
+         devices: [kTestDevice],
+         createPhysicalDevice: () => kDevice
+      })(connection, callback);
+
+      expect(callback.mock.calls).toEqual([[null, null]]);
+      expect(connection.written).toHaveLength(0);
+   });
+
+   test.each([
+      ['no JSON', 'Some other device$$$'],
+      ['bad JSON', '{"deviceClass": $$$'],
+      ['another device class', '{"deviceClass": "OtherClass"}$$$']
+   ])(
+      'calls back once with no device if the response has %s',
+      async (description, response) => {
+         const { callback, firmware } = discover(response);
+         await jest.advanceTimersByTimeAsync(5000);
+
+         expect(callback.mock.calls).toEqual([[null, null]]);
+         expect(firmware.isRunning).toBe(false);
+      }
+   );
+
+   test('times out if the device does not respond', async () => {
+      const { callback, firmware } = discover(null);
+      await jest.advanceTimersByTimeAsync(1400);
+      expect(callback).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(200);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0].message).toBe(
+         'Timed out: device Test Device did not respond to version request.'
+      );
+      expect(callback.mock.calls[0][1]).toBeNull();
+      expect(firmware.isRunning).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(callback).toHaveBeenCalledTimes(1);
+   });
+
+   test('calls back once with the error if the connection fails', async () => {
+      const { connection, callback } = discover(null);
+      await jest.advanceTimersByTimeAsync(100);
+      connection.disconnect('USB device removed');
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0].message).toBe('USB device removed');
+   });
+
+   test('calls back with the error if the physical device cannot be created', async () => {
+      const { callback } = discover('{"deviceClass": "TestClass"}$$$', () => {
+         throw new Error('Unsupported firmware');
+      });
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][0].message).toBe('Unsupported firmware');
+   });
+});
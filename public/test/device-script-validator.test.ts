@@ -0,0 +1,180 @@
+import * as ArduinoExample from '../../examples/devices/ArduinoExample/ArduinoExample';
+
+import {
+   IDeviceClass,
+   IDeviceStreamApi,
+   IProxyDevice,
+   ProxyDeviceSys,
+   TDeviceConnectionType
+} from '../../public/device-api';
+
+import { Setting } from '../../public/device-settings';
+import { DeviceScriptValidator } from '../../public/device-script-validator';
+
+const kGuid = 'f6791dd0-2f67-11eb-adc1-0242ac120002';
+
+const kRateOptions = [
+   { value: 100, display: '100 Hz' },
+   { value: 200, display: '200 Hz' }
+];
+
+//A device script with the mistakes the validator should catch.
+class SloppyProxy {
+   isSampling = false;
+   outStreamBuffers = [];
+   settings = {
+      dataInStreams: [
+         {
+            enabled: { settingName: 'Enabled', value: true, options: [] },
+            samplesPerSec: new Setting(
+               { settingName: 'Rate', value: 150, options: kRateOptions },
+               (setting, value) => value
+            )
+         },
+         {
+            enabled: { settingName: 'Enabled', value: false, options: [] },
+            samplesPerSec: {
+               settingName: 'Rate',
+               value: 100,
+               options: kRateOptions
+            }
+         }
+      ]
+   };
+
+   constructor(proxyDeviceSys: ProxyDeviceSys | null) {
+      //Only the enabled stream is set up. Its settings are deliberately malformed
+      //(no inputSettings and a rate that is not one of its options) for the validator
+      //to catch.
+      proxyDeviceSys?.setupDataInStream(
+         0,
+         this.settings.dataInStreams[0] as unknown as IDeviceStreamApi
+      );
+   }
+
+   getDeviceName = () => 'Sloppy';
+   getNumberOfAnalogStreams = () => 1;
+   getLastError = () => '';
+   setPhysicalDevice = () => true;
+   connectToPhysicalDevice = () => true;
+   disconnectFromPhysicalDevice = () => {};
+   prepareForSampling = () => true;
+   startSampling = () => true;
+   onSamplingStarted = () => {};
+   onSamplingUpdate = () => {};
+   onSamplingStopped = () => {};
+   stopSampling = () => true;
+   cleanupAfterSampling = () => true;
+}
+
+function sloppyDeviceClass(name: string): IDeviceClass {
+   return {
+      getDeviceClassName: () => name,
+      getClassId: () => kGuid,
+      getDeviceConnectionType: () =>
+         TDeviceConnectionType.kDevConTypeSerialPort,
+      checkDeviceIsPresent: (connection, callback) => callback(null, null),
+      createProxyDevice: (quarkProxy) =>
+         new SloppyProxy(quarkProxy) as unknown as IProxyDevice,
+      indexOfBestMatchingDevice: () => -1
+   };
+}
+
+describe('DeviceScriptValidator', () => {
+   beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.restoreAllMocks();
+   });
+
+   test('accepts the example device scripts', () => {
+      const validator = new DeviceScriptValidator();
+      validator.validateModule(ArduinoExample, 'ArduinoExample');
+      validator.validateModuleAtPath(
+         'examples/devices/SerialSettingsUI/SerialSettingsUI'
+      );
+      validator.validateModuleAtPath(
+         'examples/devices/MentalabExplore/MentalabExplore'
+      );
+
+      expect(validator.violations).toEqual([]);
+      expect(validator.report()).toBe('No contract violations found.');
+   });
+
+   test('reports proxy and settings contract violations', () => {
+      const validator = new DeviceScriptValidator();
+      validator.validateModule(
+         { getDeviceClasses: () => [sloppyDeviceClass('Sloppy')] },
+         'Sloppy'
+      );
+
+      const subject = "DeviceClass 'Sloppy' ProxyDevice";
+      expect(validator.violations).toEqual([
+         { subject, message: 'getOutBufferInputIndices() is missing' },
+         {
+            subject,
+            message:
+               'settings.version must be a number so saved settings can be upgraded'
+         },
+         {
+            subject,
+            message:
+               'getNumberOfAnalogStreams() returned 1 but settings.dataInStreams has 2 streams'
+         },
+         {
+            subject,
+            message:
+               'setupDataInStream() was not called for stream 1 (disabled streams must be set up too)'
+         },
+         {
+            subject: subject + ' settings',
+            message:
+               "settings.dataInStreams[0].samplesPerSec ('Rate') has value 150 which is not one of its options (100, 200)"
+         }
+      ]);
+   });
+
+   test('reports GUIDs shared between device classes', () => {
+      const validator = new DeviceScriptValidator();
+      validator.validateModule({
+         getDeviceClasses: () => [sloppyDeviceClass('First')]
+      });
+      validator.violations = [];
+      validator.validateModule({
+         getDeviceClasses: () => [sloppyDeviceClass('Second')]
+      });
+
+      expect(validator.violations).toContainEqual({
+         subject: "DeviceClass 'Second'",
+         message: `getClassId() GUID ${kGuid} is also used by DeviceClass 'First'`
+      });
+   });
+
+   test('reports modules without device or UI classes', () => {
+      const validator = new DeviceScriptValidator();
+      validator.validateModule({ getDeviceClass: () => [] }, 'Typo');
+      validator.validateModule(
+         {
+            getDeviceUIClasses: () => [
+               { name: 'No type', matchesDevice: () => false },
+               {
+                  name: 'Calculation',
+                  type: 'Channel Calculation Function',
+                  matchesDevice: () => true
+               }
+            ]
+         },
+         'UI'
+      );
+
+      expect(validator.report()).toBe(
+         [
+            'Typo: exports neither getDeviceClasses() nor getDeviceUIClasses()',
+            'DeviceUI: is not a plugin module feature (it needs a string name and a type)',
+            "DeviceUI 'Calculation': type is 'Channel Calculation Function' but should be 'Device UI'"
+         ].join('\n')
+      );
+   });
+});
@@ -0,0 +1,216 @@
+import {
+   DeviceClass,
+   PhysicalDevice
+} from '../../examples/devices/ArduinoExample/ArduinoExample';
+
+import {
+   DeviceStreamCapture,
+   RecordingDeviceConnection,
+   RecordingDuplexStream,
+   ReplayDeviceConnection
+} from '../../public/device-stream-capture';
+import { DuplexStream } from '../../public/device-streams';
+
+import { ArduinoFirmwareSimulator } from './arduino-firmware-simulator';
+import { MockDuplexDeviceConnection } from './mock-device-connection';
+import { QuarkHarness } from './quark-harness';
+
+const kSparkfunSAMD51 = { vendorId: '1B4F', productId: 'F016' };
+const kDiscoveryTimems = 2100;
+
+interface IReceivedChunk {
+   timems: number;
+   bytes: number[];
+}
+
+function collectChunks(stream: DuplexStream) {
+   const chunks: IReceivedChunk[] = [];
+   stream.on('data', (chunk: Int8Array) => {
+      chunks.push({ timems: performance.now(), bytes: [...chunk] });
+   });
+   return chunks;
+}
+
+//Records a short session with the simulator: version request then 300 ms of sampling
+function recordSession(maxChunkBytes = 7) {
+   const connection = new MockDuplexDeviceConnection(
+      new ArduinoFirmwareSimulator(),
+      kSparkfunSAMD51
+   );
+   connection.maxChunkBytes = maxChunkBytes;
+   const startms = performance.now();
+   const stream = new RecordingDuplexStream(connection);
+   const chunks = collectChunks(stream);
+   stream.write('v\n');
+   jest.advanceTimersByTime(50);
+   stream.write('b\n');
+   jest.advanceTimersByTime(300);
+   stream.write('s\n');
+   jest.advanceTimersByTime(50);
+   stream.destroy();
+   return { capture: stream.capture, chunks, startms };
+}
+
+describe('Device stream capture', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('records chunks, writes and start/stop with timestamps', () => {
+      const { capture } = recordSession();
+
+      const types = capture.records.map((record) => record.type);
+      //on('data') starts the connection
+      expect(types.slice(0, 2)).toEqual(['start', 'out']);
+      expect(types[types.length - 1]).toBe('stop');
+      expect(
+         capture.records
+            .filter((record) => record.type === 'out')
+            .map((record) => record.data.toString('binary'))
+      ).toEqual(['v\n', 'b\n', 's\n']);
+
+      const received = capture.records.filter((record) => record.type === 'in');
+      expect(received.length).toBeGreaterThan(30);
+      expect(received.every((record) => record.data.length <= 7)).toBe(true);
+      const ticks = capture.records.map((record) => record.tick);
+      expect(ticks).toEqual([...ticks].sort((a, b) => a - b));
+      expect(capture.metadata.connection.vendorId).toBe('1B4F');
+   });
+
+   test('round trips through the binary format', () => {
+      const { capture } = recordSession();
+      const buffer = capture.toBuffer();
+      const loaded = DeviceStreamCapture.fromBuffer(buffer);
+
+      expect(buffer.toString('binary', 0, 4)).toBe('LDSC');
+      expect(loaded.metadata).toEqual(capture.metadata);
+      expect(loaded.records).toEqual(capture.records);
+      //Each chunk has a one byte type, a tick delta of at most two bytes (16 ms) and a
+      //one byte length
+      const payloadBytes = capture.records.reduce(
+         (sum, record) => sum + record.data.length,
+         0
+      );
+      const headerBytes = 9 + JSON.stringify(capture.metadata).length;
+      expect(buffer.length - headerBytes).toBeLessThanOrEqual(
+         payloadBytes + 4 * capture.records.length
+      );
+
+      expect(() => DeviceStreamCapture.fromBuffer(Buffer.from('XXXX'))).toThrow(
+         /Not a device stream capture/
+      );
+      expect(() =>
+         DeviceStreamCapture.fromBuffer(buffer.slice(0, buffer.length - 3))
+      ).toThrow(/truncated/);
+   });
+
+   test('stops recording when the capture is full', () => {
+      const capture = new DeviceStreamCapture({}, { maxCaptureBytes: 10 });
+      expect(capture.addRecord('in', 0, Buffer.alloc(8))).toBe(true);
+      expect(capture.addRecord('in', 1, Buffer.alloc(8))).toBe(false);
+      expect(capture.addRecord('in', 2, Buffer.alloc(1))).toBe(false);
+      expect(capture.records).toHaveLength(1);
+      expect(capture.metadata.truncated).toBe(true);
+   });
+
+   test('replays with the original chunking and timing', () => {
+      const recorded = recordSession();
+      const replay = new ReplayDeviceConnection(
+         DeviceStreamCapture.fromBuffer(recorded.capture.toBuffer())
+      );
+      expect(replay.vendorId).toBe('1B4F');
+
+      const startms = performance.now();
+      const stream = new DuplexStream(replay);
+      const chunks = collectChunks(stream);
+      stream.write('v\n');
+      jest.advanceTimersByTime(50);
+      stream.write('b\n');
+      jest.advanceTimersByTime(300);
+      stream.write('s\n');
+      jest.advanceTimersByTime(50);
+
+      expect(replay.isFinished).toBe(true);
+      expect(replay.writeMismatches).toEqual([]);
+      expect(chunks.map((chunk) => chunk.bytes)).toEqual(
+         recorded.chunks.map((chunk) => chunk.bytes)
+      );
+      expect(chunks.map((chunk) => chunk.timems - startms)).toEqual(
+         recorded.chunks.map((chunk) => chunk.timems - recorded.startms)
+      );
+   });
+
+   test('reports writes that differ from the recording', () => {
+      const { capture } = recordSession();
+      const replay = new ReplayDeviceConnection(capture);
+      const stream = new DuplexStream(replay);
+      collectChunks(stream);
+      stream.write('v\n');
+      stream.write('~3\n');
+
+      expect(replay.writeMismatches).toEqual([
+         'write 1: expected "b\\n", got "~3\\n"'
+      ]);
+   });
+
+   test('replays read errors', () => {
+      const connection = new MockDuplexDeviceConnection(
+         new ArduinoFirmwareSimulator()
+      );
+      const recorder = new RecordingDeviceConnection(connection);
+      const stream = new DuplexStream(recorder);
+      const onError = jest.fn();
+      stream.on('error', onError);
+      collectChunks(stream);
+      jest.advanceTimersByTime(10);
+      connection.disconnect('USB device removed');
+
+      const replay = new ReplayDeviceConnection(recorder.capture);
+      const replayStream = new DuplexStream(replay);
+      const onReplayError = jest.fn();
+      replayStream.on('error', onReplayError);
+      collectChunks(replayStream);
+      jest.advanceTimersByTime(10);
+
+      expect(onReplayError).toHaveBeenCalledTimes(1);
+      expect(onReplayError.mock.calls[0][0].message).toBe('USB device removed');
+      expect(replay.lastError()).toBe('USB device removed');
+   });
+
+   test('reproduces a device script session from a recording', async () => {
+      //Record discovery and sampling, which use separate streams on the same connection
+      const recorder = new RecordingDeviceConnection(
+         new MockDuplexDeviceConnection(
+            new ArduinoFirmwareSimulator({ rebootDelayms: 1500 }),
+            kSparkfunSAMD51
+         )
+      );
+      const runSession = async (
+         connection: RecordingDeviceConnection | ReplayDeviceConnection
+      ) => {
+         const harness = new QuarkHarness(new DeviceClass());
+         const result = harness.checkDeviceIsPresent(connection);
+         await jest.advanceTimersByTimeAsync(kDiscoveryTimems);
+         expect(result.device).toBeInstanceOf(PhysicalDevice);
+         harness.createProxy(result.device);
+         harness.runSamplingSession(() => jest.advanceTimersByTime(500));
+         harness.assertNoViolations();
+         return harness.proxySys.samples;
+      };
+
+      const recordedSamples = await runSession(recorder);
+      const replay = new ReplayDeviceConnection(recorder.capture);
+      const replayedSamples = await runSession(replay);
+
+      expect(replayedSamples[0].length).toBeGreaterThan(40);
+      expect(replayedSamples).toEqual(recordedSamples);
+      expect(replay.writeMismatches).toEqual([]);
+   });
+});
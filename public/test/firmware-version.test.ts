@@ -0,0 +1,192 @@
+import {
+   DeviceClass,
+   PhysicalDevice
+} from '../../examples/devices/ArduinoExample/ArduinoExample';
+
+import {
+   ADITimePointInfoFlags,
+   DeviceEvent,
+   IDeviceVersionInfo
+} from '../../public/device-api';
+import {
+   IFirmwareCapabilityTable,
+   checkFirmwareCompatibility,
+   compareVersions,
+   isVersionAtLeast,
+   parseVersion
+} from '../../public/firmware-version';
+
+import { ArduinoFirmwareSimulator } from './arduino-firmware-simulator';
+import { MockDuplexDeviceConnection } from './mock-device-connection';
+import { QuarkHarness } from './quark-harness';
+
+describe('Firmware versions', () => {
+   test('parses semantic versions', () => {
+      expect(parseVersion('0.9.1')).toEqual({
+         major: 0,
+         minor: 9,
+         patch: 1,
+         prerelease: []
+      });
+      expect(parseVersion('V1.2')).toEqual({
+         major: 1,
+         minor: 2,
+         patch: 0,
+         prerelease: []
+      });
+      expect(parseVersion('2.0.0-beta.3+build7')?.prerelease).toEqual([
+         'beta',
+         '3'
+      ]);
+      expect(parseVersion('ArduinoRT Example')).toBeNull();
+      expect(parseVersion('')).toBeNull();
+   });
+
+   test('orders versions by semantic version precedence', () => {
+      const ordered = [
+         '0.8.9',
+         '0.9.0',
+         '0.9.1-alpha',
+         '0.9.1-alpha.1',
+         '0.9.1-alpha.beta',
+         '0.9.1-beta.2',
+         '0.9.1-beta.11',
+         '0.9.1',
+         '0.10.0',
+         '1.0.0'
+      ];
+      const shuffled = [...ordered].reverse();
+      expect(shuffled.sort(compareVersions)).toEqual(ordered);
+      expect(compareVersions('v1.2', '1.2.0')).toBe(0);
+      expect(() => compareVersions('1.0', 'latest')).toThrow(
+         "'latest' is not a valid firmware version"
+      );
+
+      expect(isVersionAtLeast('0.10.0', '0.9.1')).toBe(true);
+      expect(isVersionAtLeast('0.9.0', '0.9.1')).toBe(false);
+      expect(isVersionAtLeast('unknown', '0.9.1')).toBe(false);
+   });
+});
+
+describe('checkFirmwareCompatibility', () => {
+   const kTable: IFirmwareCapabilityTable<'fastMode' | 'triggers'> = {
+      minimumVersion: '1.0.0',
+      features: {
+         fastMode: { since: '1.1.0', description: 'fast mode' },
+         triggers: { since: '1.2.0', description: 'triggers' }
+      }
+   };
+
+   function versionInfo(
+      version: string,
+      info: Partial<IDeviceVersionInfo> = {}
+   ): IDeviceVersionInfo {
+      return { deviceClass: 'Test', deviceName: 'Widget', version, ...info };
+   }
+
+   test('supports every feature in current firmware', () => {
+      const result = checkFirmwareCompatibility(versionInfo('1.2.0'), kTable);
+      expect(result.isSupported).toBe(true);
+      expect([...result.features]).toEqual(['fastMode', 'triggers']);
+      expect(result.message).toBe('');
+   });
+
+   test('lists the features older firmware lacks', () => {
+      const result = checkFirmwareCompatibility(versionInfo('1.0.5'), kTable);
+      expect(result.isSupported).toBe(true);
+      expect(result.missingFeatures).toEqual(['fastMode', 'triggers']);
+      expect(result.message).toBe(
+         "Widget firmware version '1.0.5' does not support fast mode, triggers. " +
+            'Please update it to version 1.2.0 or later.'
+      );
+   });
+
+   test('accepts features advertised by the firmware', () => {
+      const result = checkFirmwareCompatibility(
+         versionInfo('1.0.5', { features: ['triggers'] }),
+         kTable
+      );
+      expect([...result.features]).toEqual(['triggers']);
+      expect(result.missingFeatures).toEqual(['fastMode']);
+   });
+
+   test('rejects firmware older than the minimum version', () => {
+      expect(
+         checkFirmwareCompatibility(versionInfo('0.9.9'), kTable)
+      ).toMatchObject({
+         isSupported: false,
+         message:
+            "Widget firmware version '0.9.9' is not supported. " +
+            'Please update it to version 1.0.0 or later.'
+      });
+      expect(
+         checkFirmwareCompatibility(versionInfo('custom build'), kTable)
+            .isSupported
+      ).toBe(false);
+   });
+});
+
+describe('ArduinoExample firmware version checks', () => {
+   const kSparkfunSAMD51 = { vendorId: '1B4F', productId: 'F016' };
+
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   async function discover(version: string) {
+      const harness = new QuarkHarness(new DeviceClass());
+      const result = harness.checkDeviceIsPresent(
+         new MockDuplexDeviceConnection(
+            new ArduinoFirmwareSimulator({ versionInfo: { version } }),
+            kSparkfunSAMD51
+         )
+      );
+      await jest.advanceTimersByTimeAsync(2100);
+      return { harness, result };
+   }
+
+   test('disables synchronization modes older firmware lacks', async () => {
+      const { harness, result } = await discover('0.9.0');
+      const device = result.device as PhysicalDevice;
+      expect(device).toBeInstanceOf(PhysicalDevice);
+      expect(device.timePointInfo?.flags).toBe(
+         ADITimePointInfoFlags.kDeviceSyncRoundTrip |
+            ADITimePointInfoFlags.kDeviceSynchUSBLocked
+      );
+
+      harness.createProxy(device);
+      expect(harness.connectToPhysicalDevice()).toBe(true);
+      expect(harness.prepareForSampling()).toBe(true);
+      const warnings = harness.proxySys.deviceEvents.filter(
+         (e) => e.event === DeviceEvent.kDeviceStartSamplingWarning
+      );
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].message).toMatch(
+         /firmware version '0\.9\.0' does not support USB frame time synchronization/
+      );
+   });
+
+   test('does not warn about current firmware', async () => {
+      const { harness, result } = await discover('0.9.1');
+      harness.createProxy(result.device);
+      expect(harness.connectToPhysicalDevice()).toBe(true);
+      expect(harness.prepareForSampling()).toBe(true);
+      expect(harness.proxySys.deviceEvents).toEqual([]);
+   });
+
+   test('rejects firmware older than the minimum version', async () => {
+      const { result } = await discover('0.8.2');
+      expect(result.device).toBeNull();
+      expect(result.error?.message).toBe(
+         "SparkFun SAMD51 Thing Plus firmware version '0.8.2' is not supported. " +
+            'Please update it to version 0.9.0 or later.'
+      );
+   });
+});
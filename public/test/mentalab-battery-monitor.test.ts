@@ -0,0 +1,86 @@
+import { TMessageSeverity } from '../../public/device-api';
+import {
+   BatteryMonitor,
+   IBatteryAlert,
+   IBatteryThresholds
+} from '../../examples/devices/MentalabExplore/batteryMonitor';
+
+const kThresholds: IBatteryThresholds = {
+   lowPercentage: 20,
+   criticalPercentage: 10,
+   minTemperatureC: 0,
+   maxTemperatureC: 45
+};
+
+describe('Mentalab BatteryMonitor', () => {
+   test('estimates the runtime from the discharge rate', () => {
+      const monitor = new BatteryMonitor();
+      const alerts: IBatteryAlert[] = [];
+      //1% per minute
+      for (let minute = 0; minute <= 5; ++minute) {
+         alerts.push(
+            ...monitor.update(
+               { temperatureC: 30, batteryPercentage: 25 - minute },
+               kThresholds,
+               minute * 60000
+            )
+         );
+      }
+
+      expect(monitor.dischargeRatePerMin()).toBeCloseTo(1);
+      expect(monitor.remainingRuntimeMins(kThresholds)).toBeCloseTo(10);
+      expect(alerts).toEqual([
+         {
+            type: 'battery-low',
+            severity: TMessageSeverity.kMessageWarn,
+            message: 'Battery low (20%, about 10 minutes remaining).'
+         }
+      ]);
+   });
+
+   test('raises each battery alert once until reset', () => {
+      const monitor = new BatteryMonitor();
+      const reading = { temperatureC: 30, batteryPercentage: 9 };
+      const [critical] = monitor.update(reading, kThresholds, 0);
+      expect(critical.type).toBe('battery-critical');
+      expect(critical.severity).toBe(TMessageSeverity.kMessageError);
+      expect(monitor.update(reading, kThresholds, 1000)).toEqual([]);
+      //Not a low battery alert either
+      expect(
+         monitor.update(
+            { ...reading, batteryPercentage: 15 },
+            kThresholds,
+            2000
+         )
+      ).toEqual([]);
+
+      monitor.reset();
+      expect(monitor.update(reading, kThresholds, 3000)).toHaveLength(1);
+   });
+
+   test('flags each temperature excursion', () => {
+      const monitor = new BatteryMonitor();
+      const update = (temperatureC: number) =>
+         monitor
+            .update({ temperatureC, batteryPercentage: 80 }, kThresholds)
+            .map((alert) => alert.message);
+
+      expect(update(46)).toEqual(['Headset temperature is high (46 °C).']);
+      expect(update(47)).toEqual([]);
+      expect(update(40)).toEqual([]);
+      expect(update(48)).toEqual(['Headset temperature is high (48 °C).']);
+   });
+
+   test('checks the battery will last the planned session', () => {
+      const monitor = new BatteryMonitor();
+      expect(monitor.checkPlannedSession(60, kThresholds)).toBeUndefined();
+
+      //40% above the critical level lasts 192 minutes at the nominal discharge rate
+      monitor.update({ temperatureC: 30, batteryPercentage: 50 }, kThresholds);
+      expect(monitor.checkPlannedSession(120, kThresholds)).toBeUndefined();
+      expect(monitor.checkPlannedSession(240, kThresholds)).toBe(
+         'The headset battery (50%) is expected to last about 192 minutes, ' +
+            'less than the planned session of 240 minutes. Charge the headset before recording.'
+      );
+   });
+});
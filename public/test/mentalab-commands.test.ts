@@ -0,0 +1,135 @@
+import {
+   CommandPacketOp,
+   ExploreModule,
+   Parser
+} from '../../examples/devices/MentalabExplore/parser';
+import { DuplexStream } from '../../public/device-streams';
+
+import {
+   IMockDeviceFirmware,
+   MockDuplexDeviceConnection
+} from './mock-device-connection';
+
+const kFletcher = [0xaf, 0xbe, 0xad, 0xde];
+const kAck = 0xc0;
+const kCommandStatus = 0xc1;
+
+type CommandResponse = 'completed' | 'failed' | 'ack only' | 'none';
+
+/**
+ * Responds to command packets like an Explore headset: a kAck packet followed by a
+ * kCommandStatus packet.
+ */
+class ExploreCommandSimulator implements IMockDeviceFirmware {
+   commands: { opCode: number; param: number }[] = [];
+   respond: (opCode: number) => CommandResponse = () => 'completed';
+   private connection: MockDuplexDeviceConnection | undefined;
+
+   onConnectionStart(connection: MockDuplexDeviceConnection) {
+      this.connection = connection;
+      //The end of the previous packet
+      connection.receive(kFletcher);
+   }
+
+   onConnectionStop() {
+      this.connection = undefined;
+   }
+
+   onWrite(bytes: Buffer) {
+      const opCode = bytes[8];
+      this.commands.push({ opCode, param: bytes[9] });
+      const response = this.respond(opCode);
+      if (response === 'none' || !this.connection) {
+         return;
+      }
+      //pid, cnt, length, timestamp, op code, host timestamp
+      const ack = [kAck, 0, 13, 0, 0, 0, 0, 0, opCode, 0, 0, 0, 0];
+      this.connection.receive([...ack, ...kFletcher]);
+      if (response === 'ack only') {
+         return;
+      }
+      //pid, cnt, length, timestamp, op code, host timestamp, status
+      const status = [kCommandStatus, 0, 14, 0, 0, 0, 0, 0, opCode, 0, 0, 0, 0];
+      status.push(response === 'completed' ? 1 : 0);
+      this.connection.receive([...status, ...kFletcher]);
+   }
+}
+
+function createParser() {
+   const simulator = new ExploreCommandSimulator();
+   const connection = new MockDuplexDeviceConnection(simulator);
+   const stream = new DuplexStream(connection);
+   stream.on('error', () => {});
+   const parser = new Parser(stream, null);
+   return { simulator, parser };
+}
+
+describe('Mentalab commands', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+   });
+
+   test('sends the commands one at a time', async () => {
+      const { simulator, parser } = createParser();
+      const done = jest.fn();
+      await Promise.all([
+         parser.setSampleRate(1000).then(done),
+         parser.setChannelMask(0x0f).then(done),
+         parser.setModuleEnabled(ExploreModule.kOrientation, false).then(done),
+         parser.setModuleEnabled(ExploreModule.kExG, true).then(done),
+         parser.formatMemory().then(done),
+         parser.softReset().then(done)
+      ]);
+
+      expect(done).toHaveBeenCalledTimes(6);
+      expect(simulator.commands).toEqual([
+         { opCode: CommandPacketOp.setSampleRate, param: 3 },
+         { opCode: CommandPacketOp.setChannelMask, param: 0x0f },
+         { opCode: CommandPacketOp.disableModule, param: 2 },
+         { opCode: CommandPacketOp.enabledModule, param: 3 },
+         { opCode: CommandPacketOp.formatMemory, param: 0 },
+         { opCode: CommandPacketOp.softReset, param: 0 }
+      ]);
+   });
+
+   test('rejects if the headset reports an error', async () => {
+      const { simulator, parser } = createParser();
+      simulator.respond = (opCode) =>
+         opCode === CommandPacketOp.setChannelMask ? 'failed' : 'completed';
+
+      const mask = parser.setChannelMask(0);
+      const rate = parser.setSampleRate(500);
+      await expect(mask).rejects.toThrow(
+         'Mentalab command setChannelMask failed'
+      );
+      await expect(rate).resolves.toBeUndefined();
+   });
+
+   test('waits for the command status after the acknowledgement', async () => {
+      const { simulator, parser } = createParser();
+      simulator.respond = () => 'ack only';
+
+      const result = parser.softReset();
+      result.catch(() => {});
+      await jest.advanceTimersByTimeAsync(5000);
+      await expect(result).rejects.toMatchObject({
+         name: 'Timeout',
+         message: 'Mentalab command softReset timed out waiting for its status'
+      });
+
+      simulator.respond = () => 'completed';
+      await expect(parser.formatMemory()).resolves.toBeUndefined();
+   });
+
+   test('rejects unsupported sample rates', async () => {
+      const { simulator, parser } = createParser();
+      await expect(parser.setSampleRate(400)).rejects.toThrow(
+         'Mentalab Explore does not support 400 Hz'
+      );
+      expect(simulator.commands).toHaveLength(0);
+   });
+});
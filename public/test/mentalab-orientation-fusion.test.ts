@@ -0,0 +1,115 @@
+import {
+   FusionAlgorithm,
+   IOrientationReading,
+   OrientationCalibrator,
+   OrientationFusion,
+   Vector3
+} from '../../examples/devices/MentalabExplore/orientationFusion';
+
+const kDtSec = 1 / 20;
+
+// Earth's field pointing north and down, in gauss
+const kEarthField: Vector3 = [0.2, 0, -0.4];
+
+// Readings for a headset rolled by rollDegrees about its X axis
+function rolledReading(rollDegrees: number, gyro: Vector3 = [0, 0, 0]) {
+   const roll = (rollDegrees * Math.PI) / 180;
+   const [bx, , bz] = kEarthField;
+   const reading: IOrientationReading = {
+      acc: [0, Math.sin(roll), Math.cos(roll)],
+      gyro,
+      mag: [bx, bz * Math.sin(roll), bz * Math.cos(roll)]
+   };
+   return reading;
+}
+
+describe('Mentalab OrientationFusion', () => {
+   test.each<FusionAlgorithm>(['madgwick', 'mahony'])(
+      '%s starts from the measured orientation and holds it',
+      (algorithm) => {
+         const fusion = new OrientationFusion(algorithm);
+         let orientation = fusion.update(rolledReading(30), kDtSec);
+         expect(orientation.roll).toBeCloseTo(30);
+         expect(orientation.tilt).toBeCloseTo(30);
+
+         //Madgwick's normalized gradient step jitters by up to beta * dt radians
+         for (let i = 0; i < 100; ++i) {
+            orientation = fusion.update(rolledReading(30), kDtSec);
+         }
+         expect(orientation.roll).toBeCloseTo(30, 0);
+         expect(orientation.pitch).toBeCloseTo(0, 0);
+         expect(orientation.yaw).toBeCloseTo(0, 0);
+         const [w, x, y, z] = orientation.quaternion;
+         expect(Math.hypot(w, x, y, z)).toBeCloseTo(1);
+      }
+   );
+
+   test.each<FusionAlgorithm>(['madgwick', 'mahony'])(
+      '%s converges to a new orientation',
+      (algorithm) => {
+         const fusion = new OrientationFusion(algorithm);
+         fusion.update(rolledReading(0), kDtSec);
+         //Rolls by 60 degrees over 1 second
+         for (let i = 1; i <= 20; ++i) {
+            fusion.update(rolledReading(i * 3, [60, 0, 0]), kDtSec);
+         }
+         for (let i = 0; i < 200; ++i) {
+            fusion.update(rolledReading(60), kDtSec);
+         }
+         const orientation = fusion.orientation();
+         expect(orientation.roll).toBeCloseTo(60, 0);
+         expect(orientation.tilt).toBeCloseTo(60, 0);
+      }
+   );
+
+   test('integrates the gyroscope for yaw without a magnetometer', () => {
+      const fusion = new OrientationFusion('madgwick');
+      const reading: IOrientationReading = {
+         acc: [0, 0, 1],
+         gyro: [0, 0, 90],
+         mag: [0, 0, 0]
+      };
+      fusion.update(reading, kDtSec);
+      for (let i = 0; i < 20; ++i) {
+         fusion.update(reading, kDtSec);
+      }
+      expect(fusion.orientation().yaw).toBeCloseTo(90, 1);
+      expect(fusion.orientation().tilt).toBeCloseTo(0, 1);
+   });
+});
+
+describe('Mentalab OrientationCalibrator', () => {
+   test('measures the gyroscope bias and magnetometer offset', () => {
+      const calibrator = new OrientationCalibrator(40);
+      const gyroBias: Vector3 = [1, -2, 0.5];
+      const magOffset: Vector3 = [0.1, -0.05, 0.2];
+      for (let i = 0; i < 40; ++i) {
+         calibrator.add({
+            acc: [0, 0, 1],
+            gyro: gyroBias,
+            mag: [0.1 + magOffset[0], magOffset[1], magOffset[2] - 0.4]
+         });
+      }
+      expect(calibrator.result()).toBeUndefined();
+
+      //Rotate so each magnetometer axis sees +-0.5 gauss
+      for (const sign of [1, -1]) {
+         for (let axis = 0; axis < 3; ++axis) {
+            const mag: Vector3 = [...magOffset];
+            mag[axis] += sign * 0.5;
+            calibrator.add({ acc: [0, 0, 1], gyro: [0, 0, 0], mag });
+         }
+      }
+
+      const calibration = calibrator.result();
+      expect(calibration?.gyroBias).toEqual(
+         gyroBias.map((value) => expect.closeTo(value))
+      );
+      expect(calibration?.magOffset).toEqual(
+         magOffset.map((value) => expect.closeTo(value))
+      );
+      expect(calibration?.magScale).toEqual(
+         [1, 1, 1].map((value) => expect.closeTo(value))
+      );
+   });
+});
@@ -0,0 +1,209 @@
+import {
+   DeviceConnectionInfo,
+   DuplexDeviceConnection,
+   SerialPortOptions,
+   TInt64
+} from '../../public/device-api';
+
+//Matches the Quark definition of DeviceConnection.isReceivingData()
+const kReceivingDataTimeoutms = 200;
+
+const kTwoTo32 = 0x100000000;
+
+/**
+ * The device end of a MockDuplexDeviceConnection, e.g. a firmware simulator.
+ * Implementations send bytes to the host by calling connection.receive().
+ */
+export interface IMockDeviceFirmware {
+   //Called when the host opens (starts) the connection, e.g. so the firmware can simulate a reboot.
+   onConnectionStart(connection: MockDuplexDeviceConnection): void;
+   //Called when the connection is stopped or released. Any timers should be cleared here.
+   onConnectionStop(): void;
+   //Bytes written by the host
+   onWrite(bytes: Buffer): void;
+}
+
+/**
+ * Returns the local steady clock tick in microseconds, based on performance.now() so that
+ * tests using jest fake timers get a deterministic clock.
+ */
+export function localSteadyClockTickNowus() {
+   return Math.round(performance.now() * 1000);
+}
+
+export function setTInt64(result: TInt64, value: number) {
+   result[0] = value % kTwoTo32 | 0;
+   result[1] = Math.floor(value / kTwoTo32) | 0;
+}
+
+/**
+ * In-process stand-in for Quark's serial port connection, for end-to-end tests of
+ * DeviceClass.checkDeviceIsPresent() and ProxyDevice sampling without hardware.
+ *
+ * Bytes written by the host are passed to the IMockDeviceFirmware. Bytes sent by the
+ * firmware are passed to the read handler, optionally split into chunks of at most
+ * maxChunkBytes to exercise the parsers' handling of partial packets.
+ *
+ * Faults can be injected with dropBytes(), injectJunk() and disconnect().
+ */
+export class MockDuplexDeviceConnection implements DuplexDeviceConnection {
+   devicePath = 'COM99';
+   friendlyName = 'Mock Serial Port (COM99)';
+   pnpId = '';
+   vendorId = '';
+   productId = '';
+   manufacturer = 'Mock';
+   serialNumber = '';
+   deviceInstanceId = '';
+
+   options: SerialPortOptions = {};
+   //Everything the host has written, for test assertions
+   written: Buffer[] = [];
+   maxChunkBytes = 0; //0 means deliver each firmware write as a single chunk
+
+   private readHandler:
+      | ((error: Error | null, buffer: Int8Array | null) => void)
+      | null = null;
+   private isRunning = false;
+   private isConnected = true;
+   private lastErrorMessage = '';
+   private lastReceivedTimems = -Infinity;
+   private bytesToDrop = 0;
+
+   constructor(
+      public firmware: IMockDeviceFirmware,
+      info: Partial<DeviceConnectionInfo> = {}
+   ) {
+      Object.assign(this, info);
+   }
+
+   start(): boolean {
+      if (!this.isConnected) {
+         return false;
+      }
+      if (!this.isRunning) {
+         this.isRunning = true;
+         this.firmware.onConnectionStart(this);
+      }
+      return true;
+   }
+
+   stop(): void {
+      if (this.isRunning) {
+         this.isRunning = false;
+         this.firmware.onConnectionStop();
+      }
+   }
+
+   setReadHandler(
+      callback: (error: Error | null, buffer: Int8Array | null) => void
+   ): void {
+      this.readHandler = callback;
+   }
+
+   onStreamDestroy(): void {
+      this.readHandler = null;
+      this.stop();
+   }
+
+   release(): void {
+      this.onStreamDestroy();
+   }
+
+   setOption(options: SerialPortOptions): void {
+      Object.assign(this.options, options);
+   }
+
+   getLocalSteadyClockTickNow(timeTick: TInt64): void {
+      setTInt64(timeTick, localSteadyClockTickNowus());
+   }
+
+   write(buffer: Buffer, callback: (error?: Error) => void): void {
+      if (!this.isConnected) {
+         callback(new Error(this.lastErrorMessage));
+         return;
+      }
+      const bytes = Buffer.from(buffer);
+      this.written.push(bytes);
+      if (this.isRunning) {
+         this.firmware.onWrite(bytes);
+      }
+      callback();
+   }
+
+   isOpen(): boolean {
+      return this.isConnected;
+   }
+
+   lastError(): string {
+      return this.lastErrorMessage;
+   }
+
+   isReceivingData(): boolean {
+      return (
+         performance.now() - this.lastReceivedTimems < kReceivingDataTimeoutms
+      );
+   }
+
+   /**
+    * Called by the firmware to send bytes to the host. Bytes are discarded if the connection
+    * is not running.
+    */
+   receive(bytes: Buffer | number[]) {
+      if (!this.isRunning || !this.isConnected) {
+         return;
+      }
+      let data = Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes);
+      if (this.bytesToDrop > 0) {
+         const nDropped = Math.min(this.bytesToDrop, data.length);
+         this.bytesToDrop -= nDropped;
+         data = data.slice(nDropped);
+      }
+      if (!data.length) {
+         return;
+      }
+      this.lastReceivedTimems = performance.now();
+      const chunkSize =
+         this.maxChunkBytes > 0 ? this.maxChunkBytes : data.length;
+      for (let start = 0; start < data.length; start += chunkSize) {
+         //Quark delivers node Buffers despite the declared Int8Array type
+         const chunk = data.slice(start, start + chunkSize);
+         if (this.readHandler) {
+            this.readHandler(null, chunk as unknown as Int8Array);
+         }
+      }
+   }
+
+   //Fault injection
+
+   //Silently discard the next nBytes sent by the firmware
+   dropBytes(nBytes: number) {
+      this.bytesToDrop += nBytes;
+   }
+
+   //Deliver bytes that did not come from the firmware, e.g. line noise
+   injectJunk(bytes: Buffer | number[]) {
+      const bytesToDrop = this.bytesToDrop;
+      this.bytesToDrop = 0;
+      this.receive(bytes);
+      this.bytesToDrop = bytesToDrop;
+   }
+
+   //Simulate the device being unplugged. The read handler receives the error and
+   //subsequent writes fail until reconnect() is called.
+   disconnect(message = 'Device disconnected') {
+      this.lastErrorMessage = message;
+      this.isConnected = false;
+      const wasRunning = this.isRunning;
+      this.stop();
+      if (wasRunning && this.readHandler) {
+         this.readHandler(new Error(message), null);
+      }
+   }
+
+   //Simulate the device being plugged back in. The host needs to call start() again.
+   reconnect() {
+      this.isConnected = true;
+      this.lastErrorMessage = '';
+   }
+}
@@ -0,0 +1,71 @@
+import { DeviceEvent, TMessageFlags } from '../../public/device-api';
+
+import { beatPacket, startNanoSampling } from './nibp-nano-packets';
+import { RecordingProxyDeviceSys } from './quark-harness';
+
+function beatAnnotations(proxySys: RecordingProxyDeviceSys) {
+   return proxySys.deviceEvents.filter(
+      (event) =>
+         event.event === DeviceEvent.kDeviceEvent &&
+         event.options?.flags === TMessageFlags.kMessageAddAnotation
+   );
+}
+
+describe('NIBP Nano beat events', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('annotates each beat with its values', async () => {
+      const { proxySys, proxy, connection, parser } = startNanoSampling();
+      proxy.settings.beatAnnotations.value = true;
+
+      // 1 s after sampling started at 200 Hz
+      connection.receive(
+         beatPacket({
+            timestamp: 200,
+            sys: 1205,
+            dia: 802,
+            map: 950,
+            hrBper10min: 720,
+            ibims: 833
+         })
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      const annotations = beatAnnotations(proxySys);
+      expect(annotations).toHaveLength(1);
+      expect(annotations[0].message).toBe(
+         'Beat 1 at 1.000 s: SYS 120.5, MAP 95.0, DIA 80.2 mmHg; ' +
+            'HC SYS 120.5, MAP 95.0, DIA 80.2 mmHg; HR 72.0 bpm; IBI 833 ms'
+      );
+      expect(annotations[0].options?.metadata?.tags).toEqual([
+         { name: '', type: 'beat' }
+      ]);
+      parser.stopSampling();
+   });
+
+   test('does not annotate beats unless enabled', async () => {
+      const { proxySys, connection, parser } = startNanoSampling();
+      connection.receive(
+         beatPacket({
+            timestamp: 200,
+            sys: 1200,
+            dia: 800,
+            map: 950,
+            hrBper10min: 720,
+            ibims: 833
+         })
+      );
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(beatAnnotations(proxySys)).toHaveLength(0);
+      parser.stopSampling();
+   });
+});
@@ -0,0 +1,123 @@
+import {
+   NanoChannels,
+   NanoTxSampCmds
+} from '../../examples/devices/NIBPNano/constants';
+import { INIBPCuffStatus } from '../../examples/devices/NIBPNano/nanoParser';
+
+import { TMessageSeverity } from '../../public/device-api';
+import { StreamRingBufferImpl } from '../../public/stream-ring-buffer';
+
+import { beatPacket, dataPacket, startNanoSampling } from './nibp-nano-packets';
+
+function statusOf(
+   call: (
+      callback: (error: Error | null, result: INIBPCuffStatus | null) => void
+   ) => void
+) {
+   let status: INIBPCuffStatus | null = null;
+   let error: Error | null = null;
+   call((e, result) => {
+      error = e;
+      status = result;
+   });
+   if (error) throw error;
+   return status as INIBPCuffStatus | null;
+}
+
+describe('NIBP Nano cuff control', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('defers auto-calibration for a number of beats', async () => {
+      const { proxy, firmware, connection, parser } = startNanoSampling();
+
+      const deferred = statusOf((callback) =>
+         proxy.deferAutocalibration({ beats: 2 }, callback)
+      );
+      expect(deferred?.autoCalDeferredBeats).toBe(2);
+      expect(firmware.wasWritten(NanoTxSampCmds.kDisablePhysioCal)).toBe(true);
+
+      const beat = { sys: 1200, dia: 800, map: 950, hrBper10min: 720 };
+      connection.receive(beatPacket({ ...beat, timestamp: 10, ibims: 800 }));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(firmware.wasWritten(NanoTxSampCmds.kEnablePhysioCal)).toBe(false);
+
+      connection.receive(beatPacket({ ...beat, timestamp: 20, ibims: 800 }));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(firmware.wasWritten(NanoTxSampCmds.kEnablePhysioCal)).toBe(true);
+      expect(parser.cuffStatus().autoCalDeferredBeats).toBe(0);
+      parser.stopSampling();
+   });
+
+   test('can not defer auto-calibration when it is off', () => {
+      const { proxy, parser } = startNanoSampling();
+      proxy.settings.autoCalibrate.value = false;
+      expect(() =>
+         statusOf((callback) =>
+            proxy.deferAutocalibration({ beats: 10 }, callback)
+         )
+      ).toThrow('Auto-calibration can only be deferred');
+      parser.stopSampling();
+   });
+
+   test('fills the streams with out of range samples while measurement is suspended', async () => {
+      const { proxy, proxySys, firmware, connection, parser } =
+         startNanoSampling();
+      // The fake clock starts at 0, which the parser reads as no data received yet
+      await jest.advanceTimersByTimeAsync(5);
+      connection.receive(dataPacket(1, 1000));
+      await jest.advanceTimersByTimeAsync(0);
+
+      const suspended = statusOf((callback) =>
+         proxy.setMeasurementSuspended({ suspended: true }, callback)
+      );
+      expect(suspended?.measurementSuspended).toBe(true);
+      expect(firmware.wasWritten(NanoTxSampCmds.kStopMeasure)).toBe(true);
+
+      // The Nano sends nothing while suspended
+      await jest.advanceTimersByTimeAsync(2000);
+      // Each sampling update consumes the buffers, so count what was written
+      const bp = proxy.outStreamBuffers[
+         NanoChannels.kBP
+      ] as StreamRingBufferImpl;
+      const sys = proxy.outStreamBuffers[
+         NanoChannels.kSYS
+      ] as StreamRingBufferImpl;
+      // Padded on each watch dog check, so up to a check period behind
+      expect(bp.inIndex).toBeGreaterThan(1.9 * 200);
+      expect(sys.inIndex).toBeGreaterThanOrEqual(bp.inIndex - 1);
+      // Not zero pressure, which would look like a measurement
+      expect(bp.ringBuffer[(bp.inIndex - 1) & bp.lenMask]).toBe(
+         bp.outOfRangeValue
+      );
+      expect(sys.ringBuffer[(sys.inIndex - 1) & sys.lenMask]).toBe(
+         sys.outOfRangeValue
+      );
+      expect(
+         proxySys.deviceEvents.filter(
+            (event) =>
+               event.options?.severity === TMessageSeverity.kMessageError
+         )
+      ).toHaveLength(0);
+
+      const resumed = statusOf((callback) =>
+         proxy.setMeasurementSuspended({ suspended: false }, callback)
+      );
+      expect(resumed?.measurementSuspended).toBe(false);
+      expect(firmware.wasWritten(NanoTxSampCmds.kStartMeasure)).toBe(true);
+      expect(proxySys.deviceEvents.map((event) => event.message)).toEqual(
+         expect.arrayContaining([
+            'Data gap start: Measurement suspended',
+            'Data gap end after 2.0 s'
+         ])
+      );
+      parser.stopSampling();
+   });
+});
@@ -0,0 +1,151 @@
+import {
+   NanoModes,
+   kWarningAnnotationTimeoutms
+} from '../../examples/devices/NIBPNano/constants';
+import {
+   NIBPErrorCodes,
+   WarningFlags,
+   describeIssue,
+   kHandleWarningFlag,
+   getErrorIssue,
+   setIssueTranslations
+} from '../../examples/devices/NIBPNano/errorMessages';
+
+import {
+   DeviceEvent,
+   MetaDataColors,
+   TMessageFlags
+} from '../../public/device-api';
+
+import { startNanoSampling, statusPacket } from './nibp-nano-packets';
+import { RecordingProxyDeviceSys } from './quark-harness';
+
+function annotations(proxySys: RecordingProxyDeviceSys) {
+   return proxySys.deviceEvents.filter(
+      (event) =>
+         event.event === DeviceEvent.kDeviceEvent &&
+         event.options?.flags === TMessageFlags.kMessageAddAnotation
+   );
+}
+
+function popUps(proxySys: RecordingProxyDeviceSys) {
+   return proxySys.deviceEvents.filter(
+      (event) =>
+         event.event === DeviceEvent.kDeviceEvent &&
+         event.options?.flags !== TMessageFlags.kMessageAddAnotation
+   );
+}
+
+describe('NIBP Nano error catalogue', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      setIssueTranslations({});
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('describes every error code', () => {
+      for (
+         let code = 0;
+         code <= NIBPErrorCodes.Driver_erro_SensorFailed;
+         ++code
+      ) {
+         const issue = getErrorIssue(code);
+         expect(issue.id).toBe(NIBPErrorCodes[code]);
+         expect(issue.message).not.toBe('');
+         if (issue.severity === 'error') expect(issue.stopSampling).toBe(true);
+      }
+
+      // HCU zeroing results are shown by the HCU status
+      expect(
+         getErrorIssue(NIBPErrorCodes.HcuContr_erro_NotAllowed)
+      ).toMatchObject({ severity: 'info', stopSampling: false });
+      expect(getErrorIssue(200).id).toBe('GeneralError');
+   });
+
+   test('translates the message and remedy', () => {
+      const issue = getErrorIssue(NIBPErrorCodes.PresMoni_erro_IncorrectPress);
+      expect(describeIssue(issue)).toBe(
+         'Cuff pressure error. Please check the cuff air hose.'
+      );
+
+      setIssueTranslations({
+         PresMoni_erro_IncorrectPress: {
+            message: 'Fehler im Manschettendruck.'
+         }
+      });
+      expect(describeIssue(issue)).toBe(
+         'Fehler im Manschettendruck. Please check the cuff air hose.'
+      );
+   });
+
+   test('reports an error once and stops sampling', async () => {
+      const { proxySys, connection, parser } = startNanoSampling();
+      const packet = statusPacket({
+         timestamp: 10,
+         mode: NanoModes.Measure,
+         error: NIBPErrorCodes.PresMoni_erro_IncorrectPress
+      });
+      connection.receive(packet);
+      await jest.advanceTimersByTimeAsync(0);
+      connection.receive(packet);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(popUps(proxySys)).toEqual([
+         expect.objectContaining({
+            message: 'Cuff pressure error. Please check the cuff air hose.',
+            options: expect.objectContaining({
+               flags: TMessageFlags.kMessageForceStop,
+               onceOnly: 'PresMoni_erro_IncorrectPress'
+            })
+         })
+      ]);
+      expect(annotations(proxySys)[0].options?.metadata?.colorIndex).toBe(
+         MetaDataColors.kColorError
+      );
+      expect(parser.isSampling()).toBe(false);
+   });
+
+   test('annotates a repeated warning at most once per timeout', async () => {
+      const { proxySys, connection, parser } = startNanoSampling();
+      const cuffWarnings = () =>
+         annotations(proxySys).filter(
+            (event) =>
+               event.message === 'Same cuff for 1.5 hours. Please switch cuffs.'
+         );
+
+      // The Nano keeps sending the warning in its status packets, twice a second
+      const warnForSecs = async (secs: number) => {
+         for (let packet = 0; packet < secs * 2; ++packet) {
+            connection.receive(
+               statusPacket({
+                  timestamp: packet,
+                  mode: NanoModes.Measure,
+                  warnings:
+                     WarningFlags.kAppContr_warn_MeasurementLong &
+                     ~kHandleWarningFlag
+               })
+            );
+            await jest.advanceTimersByTimeAsync(500);
+         }
+      };
+
+      await warnForSecs(kWarningAnnotationTimeoutms / 1000 / 2);
+      expect(cuffWarnings()).toHaveLength(1);
+      expect(cuffWarnings()[0].options?.metadata?.colorIndex).toBe(
+         MetaDataColors.kColorWarning
+      );
+
+      await warnForSecs(kWarningAnnotationTimeoutms / 1000 / 2 + 1);
+      expect(cuffWarnings()).toHaveLength(2);
+      expect(popUps(proxySys)).toHaveLength(0);
+      expect(parser.isSampling()).toBe(true);
+      parser.stopSampling();
+   });
+});
@@ -0,0 +1,167 @@
+import {
+   NanoChannels,
+   NanoModes,
+   NanoTxSampCmds
+} from '../../examples/devices/NIBPNano/constants';
+import { NIBPErrorCodes } from '../../examples/devices/NIBPNano/errorMessages';
+
+import { DeviceEvent, TMessageFlags } from '../../public/device-api';
+import { StreamRingBufferImpl } from '../../public/stream-ring-buffer';
+
+import {
+   beatPacket,
+   dataPacket,
+   startNanoSampling,
+   statusPacket
+} from './nibp-nano-packets';
+import { RecordingProxyDeviceSys } from './quark-harness';
+
+function gapAnnotations(proxySys: RecordingProxyDeviceSys) {
+   return proxySys.deviceEvents
+      .filter(
+         (event) =>
+            event.event === DeviceEvent.kDeviceEvent &&
+            event.options?.flags === TMessageFlags.kMessageAddAnotation &&
+            !!event.message?.startsWith('Data gap')
+      )
+      .map((event) => event.message);
+}
+
+function lastSample(buffer: StreamRingBufferImpl) {
+   return buffer.ringBuffer[(buffer.inIndex - 1) & buffer.lenMask];
+}
+
+/**
+ * Starts sampling with continue on error and fails with the error once the Nano is
+ * measuring.
+ */
+async function startErrorGap(error: NIBPErrorCodes) {
+   const sampling = startNanoSampling();
+   sampling.proxy.settings.continueOnError.value = true;
+
+   // The fake clock starts at 0, which the parser reads as no data received yet
+   await jest.advanceTimersByTimeAsync(5);
+   sampling.connection.receive(dataPacket(1, 1000));
+   sampling.connection.receive(
+      statusPacket({ timestamp: 1, mode: NanoModes.Measure, error })
+   );
+   await jest.advanceTimersByTimeAsync(0);
+   sampling.firmware.writes = [];
+   return sampling;
+}
+
+describe('NIBP Nano continue on error', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('fills the gap with out of range samples until the Nano recovers', async () => {
+      const { proxySys, proxy, firmware, connection, parser } =
+         await startErrorGap(NIBPErrorCodes.PresMoni_erro_IncorrectPress);
+      expect(gapAnnotations(proxySys)).toEqual([
+         'Data gap start: Cuff pressure error. Please check the cuff air hose.'
+      ]);
+      expect(parser.isSampling()).toBe(true);
+
+      // The error is cleared once the Nano has stopped measuring
+      for (let packet = 2; packet < 6; ++packet) {
+         connection.receive(
+            statusPacket({ timestamp: packet, mode: NanoModes.Idle })
+         );
+         await jest.advanceTimersByTimeAsync(500);
+      }
+      expect(firmware.wasWritten(NanoTxSampCmds.kStartMeasure)).toBe(true);
+
+      const bp = proxy.outStreamBuffers[
+         NanoChannels.kBP
+      ] as StreamRingBufferImpl;
+      const sys = proxy.outStreamBuffers[
+         NanoChannels.kSYS
+      ] as StreamRingBufferImpl;
+      expect(bp.inIndex).toBeGreaterThan(1.4 * 200);
+      expect(lastSample(bp)).toBe(bp.outOfRangeValue);
+      expect(lastSample(sys)).toBe(sys.outOfRangeValue);
+
+      connection.receive(
+         statusPacket({ timestamp: 6, mode: NanoModes.Measure })
+      );
+      connection.receive(dataPacket(2, 1100));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(gapAnnotations(proxySys)[1]).toBe('Data gap end after 2.0 s');
+      expect(lastSample(bp)).toBe(1100);
+
+      // The beat-to-beat streams are out of range until the first beat after the gap
+      const beat = {
+         sys: 1200,
+         dia: 800,
+         map: 950,
+         hrBper10min: 720,
+         ibims: 800
+      };
+      connection.receive(beatPacket({ ...beat, timestamp: 5 }));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(lastSample(sys)).toBe(sys.outOfRangeValue);
+
+      connection.receive(beatPacket({ ...beat, timestamp: 8 }));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(lastSample(sys)).toBe(1200 * 9);
+      parser.stopSampling();
+   });
+
+   test('does not restart the Nano after an unrecoverable error', async () => {
+      const { proxySys, firmware, connection, parser } = await startErrorGap(
+         NIBPErrorCodes.SysIntgr_erro_VoltageOutLimits
+      );
+
+      for (let packet = 2; packet < 6; ++packet) {
+         connection.receive(
+            statusPacket({ timestamp: packet, mode: NanoModes.Idle })
+         );
+         await jest.advanceTimersByTimeAsync(500);
+      }
+      expect(firmware.wasWritten(NanoTxSampCmds.kStartMeasure)).toBe(false);
+      expect(gapAnnotations(proxySys)).toHaveLength(1);
+      expect(parser.isSampling()).toBe(true);
+      parser.stopSampling();
+   });
+
+   test('fills the gap while the Nano sends nothing until its packets resume', async () => {
+      const { proxySys, proxy, connection, parser } = startNanoSampling();
+      proxy.settings.continueOnError.value = true;
+      await jest.advanceTimersByTimeAsync(5);
+      connection.receive(dataPacket(1, 1000));
+      connection.receive(
+         statusPacket({ timestamp: 1, mode: NanoModes.Measure })
+      );
+
+      // The wrist unit is unplugged
+      await jest.advanceTimersByTimeAsync(4000);
+      expect(gapAnnotations(proxySys)).toEqual([
+         'Data gap start: LabChart Lightning has lost communication with the wrist unit. Please check it is connected.'
+      ]);
+      expect(parser.isSampling()).toBe(true);
+
+      const bp = proxy.outStreamBuffers[
+         NanoChannels.kBP
+      ] as StreamRingBufferImpl;
+      // Padded on each watch dog check, so up to a check period behind
+      expect(bp.inIndex).toBeGreaterThan(2.9 * 200);
+      expect(lastSample(bp)).toBe(bp.outOfRangeValue);
+
+      connection.receive(
+         statusPacket({ timestamp: 2, mode: NanoModes.Measure })
+      );
+      connection.receive(dataPacket(2, 1100));
+      await jest.advanceTimersByTimeAsync(0);
+      expect(gapAnnotations(proxySys)[1]).toBe('Data gap end after 2.0 s');
+      expect(lastSample(bp)).toBe(1100);
+      parser.stopSampling();
+   });
+});
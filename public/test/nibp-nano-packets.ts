@@ -0,0 +1,125 @@
+import {
+   NanoHCUState,
+   NanoModes
+} from '../../examples/devices/NIBPNano/constants';
+import { NanoParser } from '../../examples/devices/NIBPNano/nanoParser';
+import { ProxyDevice } from '../../examples/devices/NIBPNano/proxy';
+import { calcCRC } from '../../examples/devices/NIBPNano/utils';
+
+import { DuplexStream } from '../../public/device-streams';
+import { StreamRingBufferImpl } from '../../public/stream-ring-buffer';
+
+import {
+   IMockDeviceFirmware,
+   MockDuplexDeviceConnection
+} from './mock-device-connection';
+import { RecordingProxyDeviceSys } from './quark-harness';
+
+const kSTX = 0xd4;
+
+/**
+ * Records the commands written to an NIBP Nano without responding.
+ */
+export class SilentNanoFirmware implements IMockDeviceFirmware {
+   writes: Buffer[] = [];
+
+   onConnectionStart() {}
+   onConnectionStop() {}
+   onWrite(bytes: Buffer) {
+      this.writes.push(Buffer.from(bytes));
+   }
+
+   wasWritten(command: Uint8Array) {
+      return this.writes.some((bytes) => bytes.equals(Buffer.from(command)));
+   }
+}
+
+function uint16LE(value: number) {
+   return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function packet(header: number[], payload: number[]) {
+   return [kSTX, ...header, kSTX, ...payload, calcCRC(payload)];
+}
+
+export function beatPacket(beat: {
+   timestamp: number;
+   sys: number;
+   dia: number;
+   map: number;
+   hrBper10min: number;
+   ibims: number;
+}) {
+   return packet(
+      [0x0f, 0x0f],
+      [
+         0x62,
+         ...uint16LE(beat.timestamp),
+         0,
+         ...uint16LE(beat.sys),
+         ...uint16LE(beat.dia),
+         ...uint16LE(beat.map),
+         ...uint16LE(beat.hrBper10min),
+         ...uint16LE(beat.ibims),
+         0
+      ]
+   );
+}
+
+export function dataPacket(timestamp: number, bpDecimmHg: number) {
+   return packet(
+      [0x0a, 0x0a],
+      [0x64, ...uint16LE(timestamp), ...uint16LE(bpDecimmHg), 0, 0, 0, 0, 0]
+   );
+}
+
+export function statusPacket(status: {
+   timestamp: number;
+   mode: NanoModes;
+   error?: number;
+   warnings?: number;
+}) {
+   const warnings = status.warnings ?? 0;
+   return packet(
+      [0x10, 0x10],
+      [
+         0x73,
+         ...uint16LE(status.timestamp),
+         status.mode << 4,
+         status.error ?? 0,
+         warnings & 0xff,
+         (warnings >> 8) & 0xff,
+         (warnings >> 16) & 0xff,
+         (warnings >> 24) & 0xff,
+         NanoHCUState.kHCUZeroed << 5,
+         0x01, // on cuff 1, no cuff switching
+         0,
+         0,
+         0,
+         0,
+         0
+      ]
+   );
+}
+
+/**
+ * Starts a NanoParser sampling into a ProxyDevice without a physical device, with a
+ * ring buffer for each stream.
+ */
+export function startNanoSampling() {
+   const proxySys = new RecordingProxyDeviceSys();
+   const proxy = new ProxyDevice(proxySys, null);
+   const firmware = new SilentNanoFirmware();
+   const connection = new MockDuplexDeviceConnection(firmware);
+   const parser = new NanoParser(
+      new DuplexStream(connection),
+      proxy,
+      'Human NIBP Nano'
+   );
+   proxy.parser = parser;
+   proxy.outStreamBuffers = proxy.settings.dataInStreams.map(
+      (stream, index) => new StreamRingBufferImpl(index, 4096)
+   );
+   parser.startSampling(proxy.settings);
+   return { proxySys, proxy, firmware, connection, parser };
+}
@@ -0,0 +1,79 @@
+import {
+   DeviceClass,
+   LegacyFloatingPointDeviceClass
+} from '../../examples/devices/NIBPNano/deviceClass';
+import { NanoChannels } from '../../examples/devices/NIBPNano/constants';
+import { ProxyDevice } from '../../examples/devices/NIBPNano/proxy';
+
+import { BlockDataFormat, IDeviceClass } from '../../public/device-api';
+
+import { QuarkHarness } from './quark-harness';
+
+// Settings as saved in a recording made before the output format was selectable
+function savedSettingsWithoutOutputFormat(deviceClass: IDeviceClass) {
+   const proxy = deviceClass.createProxyDevice(null, null) as ProxyDevice;
+   const saved = JSON.parse(JSON.stringify(proxy.settings));
+   delete saved.outputFormat;
+   return saved;
+}
+
+function streamConfiguration(harness: QuarkHarness, channel: NanoChannels) {
+   return harness.proxySys.streamSetups[channel].configuration;
+}
+
+describe('NIBP Nano output format', () => {
+   beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.restoreAllMocks();
+   });
+
+   test.each([
+      [
+         'Human NIBP Nano',
+         new DeviceClass(),
+         BlockDataFormat.k16BitBlockDataFormat
+      ],
+      [
+         'Human NIBP Nano Floating Point',
+         new LegacyFloatingPointDeviceClass(),
+         BlockDataFormat.kFloatBlockDataFormat
+      ]
+   ])(
+      'old %s recordings load with their original format',
+      (name, deviceClass, dataFormat) => {
+         const harness = new QuarkHarness(deviceClass);
+         harness.createProxy(null);
+         expect(
+            harness.setSettings(savedSettingsWithoutOutputFormat(deviceClass))
+         ).toBe(true);
+
+         const proxy = harness.proxy as ProxyDevice;
+         expect(proxy.settings.outputFormat.value).toBe(dataFormat);
+         expect(harness.proxySys.streamDataFormats(15)).toEqual(
+            new Array(15).fill(dataFormat)
+         );
+         harness.assertNoViolations();
+      }
+   );
+
+   test('scales the 16-bit units and leaves float units unscaled', () => {
+      const harness = new QuarkHarness(new DeviceClass());
+      const proxy = harness.createProxy(null) as ProxyDevice;
+      harness.setSettings(proxy.settings);
+      expect(
+         streamConfiguration(harness, NanoChannels.kSYS)?.unitsInfo
+      ).toMatchObject({ maxInPrefixedUnits: 330, maxInADCValues: 29700 });
+
+      proxy.settings.outputFormat.value = BlockDataFormat.kFloatBlockDataFormat;
+      expect(streamConfiguration(harness, NanoChannels.kSYS)).toMatchObject({
+         dataFormat: BlockDataFormat.kFloatBlockDataFormat,
+         unitsInfo: { maxInPrefixedUnits: 330, maxInADCValues: 3300 }
+      });
+      expect(
+         streamConfiguration(harness, NanoChannels.kBP)?.unitsInfo
+      ).toMatchObject({ maxInADCValues: 3300 });
+   });
+});
@@ -0,0 +1,33 @@
+import {
+   ChecksumAlgorithm,
+   calcChecksum,
+   checksumSizeBytes
+} from '../../public/packet-checksums';
+
+describe('Packet checksums', () => {
+   const kCheckInput = Buffer.from('123456789');
+
+   test.each<[ChecksumAlgorithm, string, number]>([
+      ['crc8', '123456789', 0xf4],
+      ['crc8-maxim', '123456789', 0xa1],
+      ['crc16-ccitt', '123456789', 0x29b1],
+      ['crc32', '123456789', 0xcbf43926],
+      ['fletcher16', 'abcde', 0xc8f0],
+      ['fletcher32', 'abcde', 0xf04fc729],
+      ['xor', '123456789', 0x31]
+   ])('%s of %s', (algorithm, input, expected) => {
+      expect(calcChecksum(algorithm, Buffer.from(input))).toBe(expected);
+      expect(expected).toBeLessThan(2 ** (8 * checksumSizeBytes(algorithm)));
+   });
+
+   test('checks a range of the buffer', () => {
+      const buffer = Buffer.concat([
+         Buffer.from([0xff, 0xfe]),
+         kCheckInput,
+         Buffer.from([0x01])
+      ]);
+      expect(
+         calcChecksum('crc16-ccitt', buffer, 2, 2 + kCheckInput.length)
+      ).toBe(0x29b1);
+   });
+});
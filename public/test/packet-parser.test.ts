@@ -1,6 +1,15 @@
-import { Parser, ParserState } from '../../public/packet-parser';
+import {
+   Parser,
+   ParserState,
+   IPacketFormat,
+   dataPacketType,
+   kArduinoPacketFormat
+} from '../../public/packet-parser';
+import { IPacketChecksum, calcChecksum } from '../../public/packet-checksums';
+import { StreamRingBufferImpl } from '../../public/stream-ring-buffer';
 
 import {
+   BlockDataFormat,
    DuplexDeviceConnection,
    IDataSink,
    IStreamBuffer,
@@ -9,7 +18,10 @@ import {
    TInt64,
    TimePoint,
    USBTimePoint,
-   FirstSampleRemoteTime
+   FirstSampleRemoteTime,
+   DeviceEvent,
+   ProxyDeviceSys,
+   TMessageSeverity
 } from '../../public/device-api';
 
 type ErrorListener = (err: Error) => {};
@@ -23,6 +35,7 @@ class MockDeviceConnection {
    productId: string;
    manufacturer: string;
    serialNumber: string;
+   deviceInstanceId: string;
 
    start(): boolean {
       return true;
@@ -1033,3 +1046,597 @@ describe('For time packets, parser ', () => {
       expect(dataSink.onRemoteTimeEvent).toBeCalledWith(null, timePoint);
    });
 });
+
+describe('Parser with a custom packet format', () => {
+   const kStatusPacketType = 0x53;
+
+   function createPacketFormat(onStatus: jest.Mock): IPacketFormat {
+      return {
+         headerBytes: [0xaa, 0x55, 0xa5],
+         counterBytes: 0,
+         packetTypes: [
+            dataPacketType(0x01, 2),
+            {
+               typeByte: kStatusPacketType,
+               payloadSizeBytes: 1,
+               handler: (parser, payload) => {
+                  onStatus(payload[0]);
+                  return true;
+               }
+            }
+         ]
+      };
+   }
+
+   it('handles data packets with a 3 byte header and no packet counter', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, createPacketFormat(jest.fn()));
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+
+      parser.startSampling();
+
+      stream.receive([
+         0xaa, //packet start
+         0x55,
+         0xa5,
+         0x01, //packet type: 2 point data
+         0x01,
+         0x02,
+         0x03,
+         0x04,
+         0x05,
+         0x06,
+         0x07,
+         0x08
+      ]);
+
+      expect(dataSink.outStreamBuffers[0].writeInt).toBeCalledTimes(2);
+      expect(dataSink.outStreamBuffers[0].writeInt).toBeCalledWith(0x0201);
+      expect(dataSink.outStreamBuffers[1].writeInt).toBeCalledWith(0x0403);
+      expect(dataSink.outStreamBuffers[0].writeInt).toBeCalledWith(0x0605);
+      expect(dataSink.outStreamBuffers[1].writeInt).toBeCalledWith(0x0807);
+      expect(parser.parserState).toEqual(ParserState.kNoHeaderBytes);
+   });
+
+   it('calls the packet type handler for packets split across chunks after junk', () => {
+      const onStatus = jest.fn();
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, createPacketFormat(onStatus));
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+
+      stream.receive([
+         0xaa, //junk (partial header)
+         0x55,
+         0xaa, //packet start
+         0x55
+      ]);
+
+      expect(parser.parserState).toEqual(ParserState.k1HeaderByte);
+
+      stream.receive([0xa5, kStatusPacketType]);
+      stream.receive([0x7f]);
+
+      expect(onStatus).toBeCalledTimes(1);
+      expect(onStatus).toBeCalledWith(0x7f);
+      expect(dataSink.outStreamBuffers[0].writeInt).toBeCalledTimes(0);
+   });
+
+   it('skips packets with unknown packet types', () => {
+      const onStatus = jest.fn();
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, createPacketFormat(onStatus));
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+
+      stream.receive([
+         0xaa, //packet start
+         0x55,
+         0xa5,
+         0x44, //unknown packet type
+         0xaa, //packet start
+         0x55,
+         0xa5,
+         kStatusPacketType,
+         0x01
+      ]);
+
+      expect(onStatus).toBeCalledTimes(1);
+      expect(onStatus).toBeCalledWith(0x01);
+   });
+
+   it('finds a header that starts inside a partial header match', () => {
+      const onStatus = jest.fn();
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, {
+         headerBytes: [0x50, 0x50, 0xa0],
+         counterBytes: 0,
+         packetTypes: [
+            {
+               typeByte: kStatusPacketType,
+               payloadSizeBytes: 1,
+               handler: (parser, payload) => {
+                  onStatus(payload[0]);
+                  return true;
+               }
+            }
+         ]
+      });
+      parser.setProxyDevice(new MockDataSink());
+
+      stream.receive([
+         0x50, //junk
+         0x50, //packet start
+         0x50,
+         0xa0,
+         kStatusPacketType,
+         0x01,
+         0x50, //junk
+         0x50,
+         0x50
+      ]);
+      stream.receive([0xa0, kStatusPacketType, 0x02]);
+
+      expect(onStatus.mock.calls).toEqual([[0x01], [0x02]]);
+      expect(parser.stats.junkBytes).toEqual(2);
+   });
+});
+
+describe('Parser sample encodings', () => {
+   it('decodes signed big endian 24 bit samples', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, undefined, {
+         type: 'int24',
+         signed: true,
+         bigEndian: true
+      });
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+
+      parser.startSampling();
+
+      stream.receive([
+         0x50, //start
+         0xa0,
+         0x44,
+         0x00, //packet number
+         0x01,
+         0x02,
+         0x03,
+         0xff,
+         0xff,
+         0xfe
+      ]);
+
+      expect(dataSink.outStreamBuffers[0].writeInt).toBeCalledWith(0x010203);
+      expect(dataSink.outStreamBuffers[1].writeInt).toBeCalledWith(-2);
+   });
+
+   it('decodes a different encoding for each channel', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 3);
+      const dataSink = new MockDataSink(3);
+
+      parser.setSampleEncodings([
+         { type: 'int16', signed: true },
+         { type: 'int32', signed: false },
+         { type: 'int24', signed: true }
+      ]);
+      parser.setProxyDevice(dataSink);
+
+      parser.startSampling();
+
+      stream.receive([
+         0x50, //start
+         0xa0,
+         0x44,
+         0x00, //packet number
+         0xfe, //int16
+         0xff,
+         0x01, //uint32
+         0x02,
+         0x03,
+         0x84,
+         0x00, //int24
+         0x00,
+         0x80
+      ]);
+
+      expect(dataSink.outStreamBuffers[0].writeInt).toBeCalledWith(-2);
+      expect(dataSink.outStreamBuffers[1].writeInt).toBeCalledWith(0x84030201);
+      expect(dataSink.outStreamBuffers[2].writeInt).toBeCalledWith(-0x800000);
+   });
+
+   it('writes scaled samples into Float32Array and Int16Array backed buffers', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, undefined, [
+         { type: 'int24', signed: true, scale: 0.5 },
+         { type: 'int24', signed: true, scale: 1 / 256 }
+      ]);
+      const dataSink = new MockDataSink();
+      const floatBuffer = new StreamRingBufferImpl(
+         0,
+         16,
+         BlockDataFormat.kFloatBlockDataFormat
+      );
+      const int16Buffer = new StreamRingBufferImpl(1, 16);
+      dataSink.outStreamBuffers = [floatBuffer, int16Buffer];
+
+      parser.setProxyDevice(dataSink);
+
+      parser.startSampling();
+
+      stream.receive([
+         0x50, //start
+         0xa0,
+         0x4d, //medium data packet (10 points)
+         0x00 //packet number
+      ]);
+      for (let pt = 0; pt < 10; ++pt) {
+         stream.receive([0x03, 0x00, 0x00, 0x00, 0x00, 0x80]);
+      }
+
+      expect(floatBuffer.count()).toEqual(10);
+      expect(floatBuffer.ringBuffer[0]).toEqual(1.5);
+      expect(int16Buffer.count()).toEqual(10);
+      expect(int16Buffer.ringBuffer[9]).toEqual(-0x8000);
+   });
+});
+
+describe('Parser packet counters', () => {
+   function createPacketFormat(
+      counterBytes: 2 | 4,
+      counterBigEndian = false
+   ): IPacketFormat {
+      return {
+         headerBytes: [0x50, 0xa0],
+         counterBytes,
+         counterBigEndian,
+         packetTypes: [dataPacketType(0x44, 1)]
+      };
+   }
+
+   function lostSampleCount(dataSink: MockDataSink, streamIndex = 0) {
+      const writeInt = dataSink.outStreamBuffers[streamIndex]
+         .writeInt as jest.Mock;
+      return writeInt.mock.calls.filter(([value]) => value === 0x8000).length;
+   }
+
+   it('fills lost packets using a 16 bit packet counter', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, createPacketFormat(2));
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      stream.receive([0x50, 0xa0, 0x44, 0x00, 0x00, 0x01, 0x02, 0x03, 0x04]);
+      //300 packets later. The counter is split across chunks.
+      stream.receive([0x50, 0xa0, 0x44, 0x2d]);
+      stream.receive([0x01, 0x05, 0x06, 0x07, 0x08]);
+
+      expect(lostSampleCount(dataSink)).toEqual(300);
+      expect(dataSink.outStreamBuffers[1].writeInt).toBeCalledTimes(302);
+      expect(dataSink.outStreamBuffers[0].writeInt).toHaveBeenLastCalledWith(
+         0x0605
+      );
+      expect(parser.expectedPacketCount).toEqual(302);
+   });
+
+   it('fills lost packets with the out of range value of each buffer format', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, createPacketFormat(2), [
+         { type: 'int24', signed: true, scale: 0.5 },
+         { type: 'int32', signed: true }
+      ]);
+      const dataSink = new MockDataSink();
+      const floatBuffer = new StreamRingBufferImpl(
+         0,
+         16,
+         BlockDataFormat.kFloatBlockDataFormat
+      );
+      const int32Buffer = new StreamRingBufferImpl(
+         1,
+         16,
+         BlockDataFormat.k32BitBlockDataFormat
+      );
+      dataSink.outStreamBuffers = [floatBuffer, int32Buffer];
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      const payload = [0x02, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00];
+      stream.receive([0x50, 0xa0, 0x44, 0x00, 0x00, ...payload]);
+      //2 packets lost
+      stream.receive([0x50, 0xa0, 0x44, 0x03, 0x00, ...payload]);
+
+      expect(Array.from(floatBuffer.ringBuffer.subarray(0, 4))).toEqual([
+         1,
+         floatBuffer.outOfRangeValue,
+         floatBuffer.outOfRangeValue,
+         1
+      ]);
+      expect(floatBuffer.outOfRangeValue).toBeLessThan(-3e38);
+      expect(Array.from(int32Buffer.ringBuffer.subarray(0, 4))).toEqual([
+         1, -0x80000000, -0x80000000, 1
+      ]);
+   });
+
+   it('wraps a big endian 32 bit packet counter', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, createPacketFormat(4, true));
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+      parser.expectedPacketCount = 0xffffffff;
+
+      stream.receive([0x50, 0xa0, 0x44, 0xff, 0xff, 0xff, 0xff, 1, 2, 3, 4]);
+      stream.receive([0x50, 0xa0, 0x44, 0x00, 0x00, 0x00, 0x00, 1, 2, 3, 4]);
+      expect(lostSampleCount(dataSink)).toEqual(0);
+      expect(parser.expectedPacketCount).toEqual(1);
+
+      stream.receive([0x50, 0xa0, 0x44, 0x00, 0x00, 0x00, 0x03, 1, 2, 3, 4]);
+      expect(lostSampleCount(dataSink)).toEqual(2);
+   });
+
+   it('uses the elapsed device time to count lost 8 bit counter cycles', () => {
+      const stream = new MockStream();
+      let localNowus = 0;
+      stream.source.getLocalSteadyClockTickNow = (tick: TInt64) => {
+         tick[0] = localNowus;
+         tick[1] = 0;
+      };
+      const parser = new Parser(stream, 2, kArduinoPacketFormat);
+      parser.elapsedTimeCheck = {
+         remoteTicksPerSec: 1e6,
+         samplesPerSec: () => 100
+      };
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      //First sample time packet, then the first data packet
+      stream.receive([0x50, 0xa0, 0x46, 0x00, 0xe8, 0x03, 0x00, 0x00]);
+      stream.receive([0x50, 0xa0, 0x44, 0x01, 0x01, 0x02, 0x03, 0x04]);
+
+      //3 s later, 299 points have been lost but the counter only shows 43
+      localNowus = 3e6;
+      stream.receive([0x50, 0xa0, 0x44, 0x2d, 0x01, 0x02, 0x03, 0x04]);
+
+      expect(lostSampleCount(dataSink)).toEqual(299);
+      expect(lostSampleCount(dataSink, 1)).toEqual(299);
+      expect(parser.pointsSinceSamplingStart).toEqual(301);
+   });
+
+   it('only adds lost counter cycles the device clock is sure of when chunks arrive late', () => {
+      const stream = new MockStream();
+      let localNowus = 0;
+      stream.source.getLocalSteadyClockTickNow = (tick: TInt64) => {
+         tick[0] = localNowus;
+         tick[1] = 0;
+      };
+      const parser = new Parser(stream, 2, kArduinoPacketFormat);
+      parser.elapsedTimeCheck = {
+         remoteTicksPerSec: 1e6,
+         samplesPerSec: () => 1000
+      };
+      const dataSink = new MockDataSink();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      stream.receive([0x50, 0xa0, 0x46, 0x00, 0xe8, 0x03, 0x00, 0x00]);
+      stream.receive([0x50, 0xa0, 0x44, 0x01, 0x01, 0x02, 0x03, 0x04]);
+
+      //10 packets lost. Point 12, sampled at 11 ms, arrives 150 ms late, which is more
+      //than half a 256 ms counter cycle.
+      localNowus = 161e3;
+      stream.receive([0x50, 0xa0, 0x44, 0x0c, 0x01, 0x02, 0x03, 0x04]);
+      expect(lostSampleCount(dataSink)).toEqual(10);
+      expect(warn).toBeCalledWith(
+         expect.stringContaining('too far from a whole number')
+      );
+
+      //A whole cycle and 10 packets lost. Point 279 arrives 20 ms late.
+      localNowus = 298e3;
+      stream.receive([0x50, 0xa0, 0x44, 0x17, 0x01, 0x02, 0x03, 0x04]);
+      expect(lostSampleCount(dataSink)).toEqual(10 + 266);
+      expect(parser.pointsSinceSamplingStart).toEqual(279);
+      warn.mockRestore();
+   });
+
+   it('counts more than one wrap of the device clock between time packets', () => {
+      const stream = new MockStream();
+      let localNowus = 0;
+      stream.source.getLocalSteadyClockTickNow = (tick: TInt64) => {
+         tick[0] = localNowus % 0x100000000;
+         tick[1] = Math.floor(localNowus / 0x100000000);
+      };
+      const parser = new Parser(stream, 2, kArduinoPacketFormat);
+      parser.elapsedTimeCheck = {
+         remoteTicksPerSec: 1e6,
+         samplesPerSec: () => 1
+      };
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      stream.receive([0x50, 0xa0, 0x46, 0x00, 0xe8, 0x03, 0x00, 0x00]);
+      stream.receive([0x50, 0xa0, 0x44, 0x01, 0x01, 0x02, 0x03, 0x04]);
+
+      //Time packets after 5000 s and 10000 s, by when the 32 bit device clock has wrapped
+      //around once and twice
+      localNowus = 5e9;
+      parser.getRemoteTime();
+      stream.receive([0x50, 0xa0, 0x4e, 0x02, 0x00, 0xe8, 0xf5, 0x05, 0x2a]);
+      localNowus = 1e10;
+      parser.getRemoteTime();
+      stream.receive([0x50, 0xa0, 0x4e, 0x03, 0x01, 0xe8, 0xe7, 0x0b, 0x54]);
+
+      //The counter shows 15 lost packets, the device clock 9999 lost points
+      stream.receive([0x50, 0xa0, 0x44, 0x13, 0x01, 0x02, 0x03, 0x04]);
+
+      expect(lostSampleCount(dataSink)).toEqual(9999);
+      expect(parser.pointsSinceSamplingStart).toEqual(10001);
+   });
+
+   it('trusts the packet counter without an elapsed time check', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2, kArduinoPacketFormat);
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      stream.receive([0x50, 0xa0, 0x46, 0x00, 0xe8, 0x03, 0x00, 0x00]);
+      stream.receive([0x50, 0xa0, 0x44, 0x01, 0x01, 0x02, 0x03, 0x04]);
+      stream.receive([0x50, 0xa0, 0x44, 0x2d, 0x01, 0x02, 0x03, 0x04]);
+
+      expect(lostSampleCount(dataSink)).toEqual(43);
+   });
+});
+
+describe('Parser checksums', () => {
+   function createPacketFormat(checksum: IPacketChecksum): IPacketFormat {
+      return {
+         headerBytes: [0x50, 0xa0],
+         counterBytes: 1,
+         packetTypes: [dataPacketType(0x44, 1)],
+         checksum
+      };
+   }
+
+   function packet(count: number, payload: number[], checksum: number[]) {
+      return [0x50, 0xa0, 0x44, count, ...payload, ...checksum];
+   }
+
+   it('treats packets that fail the checksum as lost', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const stream = new MockStream();
+      const parser = new Parser(
+         stream,
+         2,
+         createPacketFormat({ algorithm: 'xor' })
+      );
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      stream.receive(packet(0, [0x01, 0x02, 0x03, 0x04], [0x04]));
+      stream.receive(packet(1, [0x01, 0x02, 0x03, 0x05], [0x04]));
+      stream.receive(packet(2, [0x05, 0x06, 0x07, 0x08], [0x0c]));
+
+      expect(parser.stats.checksumFailures).toEqual(1);
+      const writeInt = dataSink.outStreamBuffers[0].writeInt as jest.Mock;
+      expect(writeInt.mock.calls.map(([value]) => value)).toEqual([
+         0x0201, 0x8000, 0x0605
+      ]);
+      expect(parser.expectedPacketCount).toEqual(3);
+      jest.restoreAllMocks();
+   });
+
+   it('checks big endian checksums that include the header', () => {
+      const stream = new MockStream();
+      const format = createPacketFormat({
+         algorithm: 'crc16-ccitt',
+         includeHeader: true,
+         bigEndian: true
+      });
+      const parser = new Parser(stream, 2, format);
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      const data = packet(0, [0x01, 0x02, 0x03, 0x04], []);
+      const crc = calcChecksum('crc16-ccitt', Buffer.from(data));
+      //Split the checksum across chunks
+      stream.receive([...data, crc >> 8]);
+      stream.receive([crc & 0xff]);
+
+      expect(parser.stats.checksumFailures).toEqual(0);
+      expect(dataSink.outStreamBuffers[0].writeInt).toHaveBeenCalledWith(
+         0x0201
+      );
+      expect(parser.expectedPacketCount).toEqual(1);
+   });
+});
+
+describe('Parser statistics', () => {
+   beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.restoreAllMocks();
+   });
+
+   it('counts packets, junk bytes, resyncs and lost packets', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2);
+      const dataSink = new MockDataSink();
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+
+      stream.receive([0x50, 0xa0, 0x44, 0x00, 0x01, 0x02, 0x03, 0x04]);
+      //A partial header and a byte of junk
+      stream.receive([0x50, 0x11, 0x50, 0xa0, 0x44, 0x01, 0x01, 0x02]);
+      stream.receive([0x03, 0x04, 0x50, 0xa0, 0x44, 0x05, 0x01, 0x02]);
+      stream.receive([0x03, 0x04]);
+
+      expect(parser.stats.snapshot()).toMatchObject({
+         bytesReceived: 26,
+         chunksReceived: 4,
+         meanChunkSize: 6.5,
+         packetsReceived: 3,
+         packetsByType: { [0x44]: 3 },
+         resyncs: 1,
+         junkBytes: 2,
+         lostPackets: 3,
+         checksumFailures: 0
+      });
+
+      parser.startSampling();
+      expect(parser.stats.packetsReceived).toEqual(0);
+   });
+
+   it('reports thresholds being exceeded once', () => {
+      const stream = new MockStream();
+      const parser = new Parser(stream, 2);
+      const dataSink = new MockDataSink();
+      const proxyDeviceSys = { onDeviceEvent: jest.fn() };
+
+      parser.setProxyDevice(dataSink);
+      parser.startSampling();
+      parser.stats.reportThresholdsTo(
+         proxyDeviceSys as unknown as ProxyDeviceSys,
+         'Arduino',
+         { lostPackets: 10 }
+      );
+
+      stream.receive([0x50, 0xa0, 0x44, 0x00, 0x01, 0x02, 0x03, 0x04]);
+      stream.receive([0x50, 0xa0, 0x44, 0x0a, 0x01, 0x02, 0x03, 0x04]);
+      expect(proxyDeviceSys.onDeviceEvent).not.toHaveBeenCalled();
+      stream.receive([0x50, 0xa0, 0x44, 0x0d, 0x01, 0x02, 0x03, 0x04]);
+      stream.receive([0x50, 0xa0, 0x44, 0x20, 0x01, 0x02, 0x03, 0x04]);
+
+      expect(proxyDeviceSys.onDeviceEvent).toHaveBeenCalledTimes(1);
+      expect(proxyDeviceSys.onDeviceEvent).toHaveBeenCalledWith(
+         DeviceEvent.kDeviceEvent,
+         'Arduino',
+         'Arduino lost 11 packets since sampling started.',
+         { severity: TMessageSeverity.kMessageInfo }
+      );
+   });
+});
@@ -0,0 +1,171 @@
+import {
+   DeviceClass,
+   PhysicalDevice
+} from '../../examples/devices/ArduinoExample/ArduinoExample';
+
+import {
+   BlockDataFormat,
+   DeviceEvent,
+   IProxyDevice
+} from '../../public/device-api';
+
+import { StreamRingBufferImpl } from '../../public/stream-ring-buffer';
+
+import { ArduinoFirmwareSimulator } from './arduino-firmware-simulator';
+import { MockDuplexDeviceConnection } from './mock-device-connection';
+import { QuarkHarness } from './quark-harness';
+
+const kSparkfunSAMD51 = { vendorId: '1B4F', productId: 'F016' };
+
+async function findArduinoDevice(harness: QuarkHarness) {
+   const connection = new MockDuplexDeviceConnection(
+      new ArduinoFirmwareSimulator(),
+      kSparkfunSAMD51
+   );
+   const result = harness.checkDeviceIsPresent(connection);
+   await jest.advanceTimersByTimeAsync(2100);
+   return result.device as PhysicalDevice;
+}
+
+describe('QuarkHarness with the ArduinoExample device', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('runs the full proxy lifecycle', async () => {
+      const harness = new QuarkHarness(new DeviceClass());
+      const physicalDevice = await findArduinoDevice(harness);
+      expect(physicalDevice).toBeInstanceOf(PhysicalDevice);
+
+      const proxy = harness.createProxy(null);
+      expect(harness.setPhysicalDevice(physicalDevice)).toBe(true);
+      expect(
+         harness.runSamplingSession(() => jest.advanceTimersByTime(500))
+      ).toBe(true);
+      expect(harness.disconnectFromPhysicalDevice()).toBe(true);
+
+      const clone = harness.clone() as QuarkHarness;
+      expect(clone).not.toBeNull();
+      expect(clone.proxy?.getNumberOfAnalogStreams()).toBe(
+         proxy.getNumberOfAnalogStreams()
+      );
+
+      expect(harness.release()).toBe(true);
+      expect(harness.proxySys.isReleased).toBe(true);
+      harness.assertNoViolations();
+
+      expect(harness.calls.filter((call) => !call.startsWith('sys.'))).toEqual([
+         'createProxyDevice',
+         'setPhysicalDevice',
+         'connectToPhysicalDevice',
+         'prepareForSampling',
+         'startSampling',
+         'stopSampling',
+         'cleanupAfterSampling',
+         'disconnectFromPhysicalDevice',
+         'clone',
+         'release'
+      ]);
+   });
+
+   test('records stream configurations and drains sampled data', async () => {
+      const harness = new QuarkHarness(new DeviceClass());
+      harness.createProxy(await findArduinoDevice(harness));
+
+      const { proxySys } = harness;
+      expect(proxySys.streamSetups).toHaveLength(2);
+      expect(proxySys.streamDataFormats(2)).toEqual([
+         BlockDataFormat.k16BitBlockDataFormat,
+         BlockDataFormat.k16BitBlockDataFormat
+      ]);
+
+      harness.runSamplingSession(() => jest.advanceTimersByTime(1000));
+
+      expect(proxySys.samplingUpdateCount).toBeGreaterThan(10);
+      expect(proxySys.samples[0].length).toBeGreaterThan(90);
+      expect(proxySys.deviceEvents.map((e) => DeviceEvent[e.event])).toEqual([
+         'kDeviceStarted',
+         'kDeviceStopped'
+      ]);
+      expect(
+         proxySys.remoteTimeEvents.filter((e) => e.error === null)
+      ).toHaveLength(1); //The first sample time
+      harness.assertNoViolations();
+   });
+});
+
+describe('QuarkHarness lifecycle checks', () => {
+   //A proxy that sends a samplingUpdate() when it connects and when it stops sampling.
+   function createEagerProxy(harness: QuarkHarness): IProxyDevice {
+      const proxySys = harness.proxySys;
+      const outStreamBuffers = [new StreamRingBufferImpl(0, 16)];
+      const sendUpdate = () => {
+         outStreamBuffers[0].writeInt(1);
+         proxySys.samplingUpdate(new Int32Array([outStreamBuffers[0].inIndex]));
+         return true;
+      };
+      return {
+         isSampling: false,
+         outStreamBuffers,
+         getOutBufferInputIndices: () => new Int32Array(1),
+         getDeviceName: () => 'Eager',
+         getNumberOfAnalogStreams: () => 1,
+         getLastError: () => '',
+         setPhysicalDevice: () => true,
+         connectToPhysicalDevice: sendUpdate,
+         disconnectFromPhysicalDevice: () => {},
+         prepareForSampling: () => true,
+         startSampling: () => {
+            proxySys.onDeviceEvent(DeviceEvent.kDeviceStarted, 'Eager');
+            return true;
+         },
+         onSamplingStarted: () => {},
+         onSamplingUpdate: () => {},
+         onSamplingStopped: () => {},
+         stopSampling: sendUpdate,
+         cleanupAfterSampling: () => true
+      };
+   }
+
+   test('reports calls made in the wrong state', () => {
+      const harness = new QuarkHarness(new DeviceClass());
+      harness.proxy = createEagerProxy(harness);
+
+      harness.connectToPhysicalDevice();
+      harness.startSampling();
+      harness.stopSampling();
+
+      expect(harness.violations).toEqual([
+         "samplingUpdate() called in state 'connected'",
+         "startSampling() called in state 'connected'",
+         'isSampling is false after startSampling()'
+      ]);
+      expect(() => harness.assertNoViolations()).toThrow(
+         /Proxy lifecycle violations/
+      );
+   });
+
+   test('reports checkDeviceIsPresent() calling back more than once', () => {
+      const deviceClass = new DeviceClass();
+      deviceClass.checkDeviceIsPresent = (connection, callback) => {
+         callback(null, null);
+         callback(null, null);
+      };
+      const harness = new QuarkHarness(deviceClass);
+      const result = harness.checkDeviceIsPresent(
+         new MockDuplexDeviceConnection(new ArduinoFirmwareSimulator())
+      );
+
+      expect(result.callbackCount).toBe(2);
+      expect(harness.violations).toEqual([
+         'checkDeviceIsPresent() called back 2 times'
+      ]);
+   });
+});
@@ -0,0 +1,462 @@
+import {
+   BlockDataFormat,
+   DeviceConnection,
+   DeviceEvent,
+   FirstSampleRemoteTime,
+   IDeviceClass,
+   IDeviceProxySettingsSys,
+   IDeviceStreamApi,
+   IDeviceStreamConfiguration,
+   IProxyDevice,
+   ISysEventOptions,
+   OpenPhysicalDevice,
+   ProxyDeviceSys,
+   StreamRingBuffer,
+   SysStreamEventType,
+   TimePoint,
+   USBTimePoint
+} from '../../public/device-api';
+
+import { StreamRingBufferImpl } from '../../public/stream-ring-buffer';
+
+/**
+ * The states of an IProxyDevice, as seen by Quark.
+ */
+export type ProxyLifecycleState =
+   | 'created'
+   | 'connected'
+   | 'prepared'
+   | 'sampling'
+   | 'stopped'
+   | 'released';
+
+export interface IStreamSetupRecord {
+   streamIndex: number;
+   settings?: IDeviceStreamApi;
+   configuration?: Partial<IDeviceStreamConfiguration>;
+   callback?: (error: Error | null, type: SysStreamEventType) => void;
+   restartAnySampling?: boolean;
+}
+
+export interface IDeviceEventRecord {
+   event: DeviceEvent;
+   deviceName: string;
+   message?: string;
+   options?: ISysEventOptions;
+}
+
+export interface IRemoteTimeEventRecord {
+   error: Error | null;
+   timePoint: TimePoint | FirstSampleRemoteTime | USBTimePoint | null;
+}
+
+/**
+ * Result of QuarkHarness.checkDeviceIsPresent(). Filled in when the device class calls back.
+ */
+export interface IDeviceSearchResult {
+   callbackCount: number;
+   error: Error | null;
+   device: OpenPhysicalDevice | null;
+}
+
+//Proxy methods Quark may call in each state and the state after the call succeeds.
+//undefined means the state is unchanged.
+const kLifecycleTransitions: {
+   [method: string]: {
+      from: ProxyLifecycleState[];
+      to?: ProxyLifecycleState;
+   };
+} = {
+   setPhysicalDevice: { from: ['created', 'connected'] },
+   setSettings: { from: ['created', 'connected'] },
+   connectToPhysicalDevice: { from: ['created'], to: 'connected' },
+   disconnectFromPhysicalDevice: { from: ['connected'], to: 'created' },
+   prepareForSampling: { from: ['connected'], to: 'prepared' },
+   startSampling: { from: ['prepared'], to: 'sampling' },
+   stopSampling: { from: ['sampling'], to: 'stopped' },
+   cleanupAfterSampling: { from: ['prepared', 'stopped'], to: 'connected' },
+   clone: {
+      from: ['created', 'connected', 'prepared', 'sampling', 'stopped']
+   },
+   release: { from: ['created', 'connected'], to: 'released' }
+};
+
+/**
+ * TypeScript implementation of the Quark side of a ProxyDevice. Records everything the
+ * proxy tells Quark and drains the proxy's StreamRingBuffers in samplingUpdate() by
+ * advancing outIndex, as Quark does.
+ */
+export class RecordingProxyDeviceSys implements ProxyDeviceSys {
+   //Latest setupDataInStream() call for each stream
+   streamSetups: IStreamSetupRecord[] = [];
+   setupDataInStreamCount = 0;
+   //Samples drained from each stream, indexed by StreamRingBuffer.indexInDevice
+   samples: number[][] = [];
+   samplingUpdateCount = 0;
+   deviceEvents: IDeviceEventRecord[] = [];
+   remoteTimeEvents: IRemoteTimeEventRecord[] = [];
+   isReleased = false;
+
+   //Set by the QuarkHarness so it can check calls against the proxy's lifecycle.
+   onCall: (method: string, detail?: string) => void = () => {};
+
+   constructor(
+      public getOutStreamBuffers: () => StreamRingBuffer[] = () => []
+   ) {}
+
+   release(): void {
+      this.onCall('release');
+      this.isReleased = true;
+   }
+
+   setupDataInStream(
+      streamIndex: number,
+      settings?: IDeviceStreamApi,
+      configuration?: Partial<IDeviceStreamConfiguration>,
+      callback?: (error: Error | null, type: SysStreamEventType) => void,
+      restartAnySampling?: boolean
+   ): void {
+      this.onCall('setupDataInStream', String(streamIndex));
+      ++this.setupDataInStreamCount;
+      this.streamSetups[streamIndex] = {
+         streamIndex,
+         settings,
+         configuration,
+         callback,
+         restartAnySampling
+      };
+   }
+
+   samplingUpdate(bufferInputIndices: Int32Array): void {
+      this.onCall('samplingUpdate');
+      ++this.samplingUpdateCount;
+      const outStreamBuffers = this.getOutStreamBuffers();
+      outStreamBuffers.forEach((buffer, i) => {
+         const inIndex = bufferInputIndices[i];
+         const samples =
+            this.samples[buffer.indexInDevice] ||
+            (this.samples[buffer.indexInDevice] = []);
+         if (buffer instanceof StreamRingBufferImpl) {
+            for (
+               let j = buffer.outIndex;
+               j !== inIndex;
+               j = (j + 1) & buffer.lenMask
+            ) {
+               samples.push(buffer.ringBuffer[j]);
+            }
+         }
+         buffer.outIndex = inIndex;
+      });
+   }
+
+   onDeviceEvent(
+      event: DeviceEvent,
+      deviceName: string,
+      message?: string,
+      options?: ISysEventOptions
+   ): void {
+      this.onCall('onDeviceEvent', DeviceEvent[event]);
+      this.deviceEvents.push({ event, deviceName, message, options });
+   }
+
+   onRemoteTimeEvent(
+      error: Error | null,
+      timePoint: TimePoint | FirstSampleRemoteTime | USBTimePoint | null
+   ): void {
+      this.onCall('onRemoteTimeEvent');
+      this.remoteTimeEvents.push({ error, timePoint });
+   }
+
+   /**
+    * @returns the data format each stream was configured with, as Quark passes to
+    * IProxyDevice.prepareForSampling().
+    */
+   streamDataFormats(nStreams: number): BlockDataFormat[] {
+      const formats: BlockDataFormat[] = [];
+      for (let i = 0; i < nStreams; ++i) {
+         const setup = this.streamSetups[i];
+         formats.push(
+            (setup && setup.configuration && setup.configuration.dataFormat) ||
+               BlockDataFormat.k16BitBlockDataFormat
+         );
+      }
+      return formats;
+   }
+}
+
+//Proxy methods that are optional in IProxyDevice but implemented by the example scripts.
+interface IProxyDeviceWithOptionals extends IProxyDevice {
+   clone?(quarkProxy: ProxyDeviceSys | null): IProxyDevice;
+   release?(): void;
+   setSettings?(settings: IDeviceProxySettingsSys): boolean;
+}
+
+/**
+ * Plays Quark's role for a device script: finds the physical device, creates a proxy with a
+ * RecordingProxyDeviceSys and drives it through its lifecycle.
+ *
+ * Calls that Quark would not make in the proxy's current state, and calls from the
+ * proxy that are not valid in its current state (e.g. samplingUpdate() before
+ * startSampling()), are recorded in violations. Call assertNoViolations() at the end of a test.
+ */
+export class QuarkHarness {
+   proxySys: RecordingProxyDeviceSys;
+   proxy: IProxyDeviceWithOptionals | null = null;
+   state: ProxyLifecycleState = 'created';
+   //Every proxy method called by the harness and every call back into the ProxyDeviceSys, in order
+   calls: string[] = [];
+   violations: string[] = [];
+
+   constructor(public deviceClass: IDeviceClass) {
+      this.proxySys = this.createProxyDeviceSys();
+   }
+
+   private createProxyDeviceSys() {
+      const proxySys = new RecordingProxyDeviceSys(() =>
+         this.proxy ? this.proxy.outStreamBuffers : []
+      );
+      proxySys.onCall = (method, detail) =>
+         this.onProxyDeviceSysCall(proxySys, method, detail);
+      return proxySys;
+   }
+
+   /**
+    * Calls deviceClass.checkDeviceIsPresent(). The device class must call back exactly once.
+    */
+   checkDeviceIsPresent(connection: DeviceConnection): IDeviceSearchResult {
+      const result: IDeviceSearchResult = {
+         callbackCount: 0,
+         error: null,
+         device: null
+      };
+      this.deviceClass.checkDeviceIsPresent(connection, (error, device) => {
+         if (++result.callbackCount > 1) {
+            this.violations.push(
+               `checkDeviceIsPresent() called back ${result.callbackCount} times`
+            );
+         }
+         result.error = error;
+         result.device = device;
+      });
+      return result;
+   }
+
+   createProxy(physicalDevice: OpenPhysicalDevice | null): IProxyDevice {
+      this.calls.push('createProxyDevice');
+      this.proxy = this.deviceClass.createProxyDevice(
+         this.proxySys,
+         physicalDevice
+      );
+      this.state = 'created';
+      return this.proxy;
+   }
+
+   setPhysicalDevice(physicalDevice: OpenPhysicalDevice) {
+      return this.callProxy('setPhysicalDevice', (proxy) =>
+         proxy.setPhysicalDevice(physicalDevice)
+      );
+   }
+
+   setSettings(settings: IDeviceProxySettingsSys) {
+      return this.callProxy('setSettings', (proxy) =>
+         proxy.setSettings ? proxy.setSettings(settings) : false
+      );
+   }
+
+   connectToPhysicalDevice() {
+      return this.callProxy('connectToPhysicalDevice', (proxy) =>
+         proxy.connectToPhysicalDevice()
+      );
+   }
+
+   disconnectFromPhysicalDevice() {
+      return this.callProxy('disconnectFromPhysicalDevice', (proxy) => {
+         proxy.disconnectFromPhysicalDevice();
+         return true;
+      });
+   }
+
+   prepareForSampling(bufferSizeInSecs = 10) {
+      const ok = this.callProxy('prepareForSampling', (proxy) =>
+         proxy.prepareForSampling(
+            bufferSizeInSecs,
+            this.proxySys.streamDataFormats(proxy.getNumberOfAnalogStreams())
+         )
+      );
+      if (ok && this.proxy) {
+         this.checkOutStreamBuffers(this.proxy);
+      }
+      return ok;
+   }
+
+   startSampling(startOnUSBFrame?: number) {
+      const ok = this.callProxy('startSampling', (proxy) =>
+         proxy.startSampling(startOnUSBFrame)
+      );
+      if (ok && this.proxy && !this.proxy.isSampling) {
+         this.violations.push('isSampling is false after startSampling()');
+      }
+      return ok;
+   }
+
+   stopSampling() {
+      const ok = this.callProxy('stopSampling', (proxy) =>
+         proxy.stopSampling()
+      );
+      if (ok && this.proxy && this.proxy.isSampling) {
+         this.violations.push('isSampling is true after stopSampling()');
+      }
+      return ok;
+   }
+
+   cleanupAfterSampling() {
+      return this.callProxy('cleanupAfterSampling', (proxy) =>
+         proxy.cleanupAfterSampling()
+      );
+   }
+
+   /**
+    * Clones the proxy, as Quark does when the user copies a recording's settings.
+    * @returns a new harness driving the clone with its own RecordingProxyDeviceSys.
+    */
+   clone(): QuarkHarness | null {
+      const harness = new QuarkHarness(this.deviceClass);
+      const ok = this.callProxy('clone', (proxy) => {
+         if (!proxy.clone) {
+            return false;
+         }
+         harness.proxy = proxy.clone(harness.proxySys);
+         return true;
+      });
+      return ok ? harness : null;
+   }
+
+   release() {
+      return this.callProxy('release', (proxy) => {
+         if (proxy.release) {
+            proxy.release();
+         }
+         return true;
+      });
+   }
+
+   /**
+    * Runs a complete sampling session: connect (if needed), prepare, start, call run()
+    * (e.g. to advance jest fake timers), stop and clean up.
+    */
+   runSamplingSession(run: () => void, bufferSizeInSecs = 10) {
+      if (this.state === 'created' && !this.connectToPhysicalDevice()) {
+         return false;
+      }
+      if (!this.prepareForSampling(bufferSizeInSecs) || !this.startSampling()) {
+         return false;
+      }
+      run();
+      const ok = this.stopSampling();
+      this.cleanupAfterSampling();
+      return ok;
+   }
+
+   assertNoViolations() {
+      if (this.violations.length) {
+         throw new Error(
+            'Proxy lifecycle violations:\n' +
+               this.violations.join('\n') +
+               '\nCalls:\n' +
+               this.calls.join('\n')
+         );
+      }
+   }
+
+   private callProxy(
+      method: string,
+      call: (proxy: IProxyDeviceWithOptionals) => boolean
+   ): boolean {
+      this.calls.push(method);
+      const proxy = this.proxy;
+      if (!proxy) {
+         this.violations.push(`${method}() called before createProxy()`);
+         return false;
+      }
+      const transition = kLifecycleTransitions[method];
+      if (!transition.from.includes(this.state)) {
+         this.violations.push(`${method}() called in state '${this.state}'`);
+      }
+      //Enter the new state before calling the proxy since it may call back synchronously,
+      //e.g. onDeviceEvent(kDeviceStarted) from within startSampling().
+      const prevState = this.state;
+      if (transition.to) {
+         this.state = transition.to;
+      }
+      const ok = call(proxy);
+      if (!ok) {
+         this.state = prevState;
+      }
+      return ok;
+   }
+
+   private checkOutStreamBuffers(proxy: IProxyDevice) {
+      const nStreams = proxy.getNumberOfAnalogStreams();
+      const indices = new Set<number>();
+      for (const buffer of proxy.outStreamBuffers) {
+         if (buffer.indexInDevice < 0 || buffer.indexInDevice >= nStreams) {
+            this.violations.push(
+               `outStreamBuffer has indexInDevice ${buffer.indexInDevice} but there are ${nStreams} streams`
+            );
+         }
+         if (indices.has(buffer.indexInDevice)) {
+            this.violations.push(
+               `more than one outStreamBuffer has indexInDevice ${buffer.indexInDevice}`
+            );
+         }
+         indices.add(buffer.indexInDevice);
+      }
+   }
+
+   private onProxyDeviceSysCall(
+      proxySys: RecordingProxyDeviceSys,
+      method: string,
+      detail?: string
+   ) {
+      const call = detail ? `${method}(${detail})` : method;
+      this.calls.push('sys.' + call);
+      if (proxySys.isReleased) {
+         this.violations.push(
+            `sys.${call} called after ProxyDeviceSys.release()`
+         );
+         return;
+      }
+      switch (call) {
+         case 'samplingUpdate':
+            if (this.state !== 'sampling' && this.state !== 'stopped') {
+               this.violations.push(
+                  `samplingUpdate() called in state '${this.state}'`
+               );
+            }
+            break;
+         case 'onDeviceEvent(kDeviceStarted)':
+            if (this.state !== 'sampling') {
+               this.violations.push(
+                  `kDeviceStarted event sent in state '${this.state}'`
+               );
+            }
+            break;
+         case 'onDeviceEvent(kDeviceStopped)':
+            if (this.state !== 'sampling' && this.state !== 'stopped') {
+               this.violations.push(
+                  `kDeviceStopped event sent in state '${this.state}'`
+               );
+            }
+            break;
+         case 'release':
+            if (this.state !== 'released') {
+               this.violations.push(
+                  `ProxyDeviceSys.release() called in state '${this.state}'`
+               );
+            }
+            break;
+         default:
+            break;
+      }
+   }
+}
@@ -0,0 +1,226 @@
+import {
+   DeviceClass,
+   PhysicalDevice
+} from '../../examples/devices/ArduinoExample/ArduinoExample';
+
+import { DeviceEvent, TMessageFlags } from '../../public/device-api';
+import { DuplexStream } from '../../public/device-streams';
+import {
+   IReconnectable,
+   ReconnectionSupervisor
+} from '../../public/reconnection-supervisor';
+
+import { ArduinoFirmwareSimulator } from './arduino-firmware-simulator';
+import { MockDuplexDeviceConnection } from './mock-device-connection';
+import { QuarkHarness } from './quark-harness';
+
+const kSparkfunSAMD51 = { vendorId: '1B4F', productId: 'F016' };
+const kOutOfRange = -0x8000;
+
+function createTarget(verify: () => Promise<void> = () => Promise.resolve()) {
+   return {
+      verifyDevice: jest.fn(verify),
+      resumeSampling: jest.fn((gapms: number) => true),
+      onConnectionLost: jest.fn((error: Error) => {}),
+      onReconnectFailed: jest.fn((error: Error) => {})
+   };
+}
+
+function superviseConnection(target: IReconnectable) {
+   const simulator = new ArduinoFirmwareSimulator();
+   const connection = new MockDuplexDeviceConnection(simulator);
+   const stream = new DuplexStream(connection);
+   stream.on('error', () => {});
+   stream.on('data', () => {});
+   const supervisor = new ReconnectionSupervisor(stream, target, {
+      checkPeriodms: 100,
+      dataTimeoutms: 500,
+      initialRetryDelayms: 200,
+      maxRetryDelayms: 1000,
+      maxAttempts: 4
+   });
+   //Keep data flowing
+   simulator.onWrite(Buffer.from('b\n'));
+   supervisor.start();
+   return { simulator, connection, supervisor };
+}
+
+describe('ReconnectionSupervisor', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   test('reconnects after the connection errors', async () => {
+      const target = createTarget();
+      const { connection, supervisor } = superviseConnection(target);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(supervisor.state).toBe('monitoring');
+
+      connection.disconnect('USB device removed');
+      expect(supervisor.state).toBe('reconnecting');
+      expect(target.onConnectionLost.mock.calls[0][0].message).toBe(
+         'USB device removed'
+      );
+
+      //Retries at 200, 200 + 400 and 600 + 800 ms
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(supervisor.attempts).toBe(2);
+      connection.reconnect();
+      await jest.advanceTimersByTimeAsync(400);
+
+      expect(supervisor.state).toBe('monitoring');
+      expect(supervisor.reconnectCount).toBe(1);
+      expect(target.verifyDevice).toHaveBeenCalledTimes(1);
+      const [gapms] = target.resumeSampling.mock.calls[0];
+      expect(gapms).toBeGreaterThanOrEqual(1400);
+      expect(gapms).toBeLessThan(1420);
+   });
+
+   test('reconnects if data stops arriving', async () => {
+      const target = createTarget();
+      const { simulator, supervisor } = superviseConnection(target);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      simulator.onWrite(Buffer.from('s\n'));
+      await jest.advanceTimersByTimeAsync(500);
+      expect(supervisor.state).toBe('monitoring');
+      await jest.advanceTimersByTimeAsync(100);
+      expect(supervisor.state).toBe('reconnecting');
+      expect(supervisor.lastError?.name).toBe('Timeout');
+
+      await jest.advanceTimersByTimeAsync(200);
+      expect(target.resumeSampling).toHaveBeenCalledTimes(1);
+      expect(supervisor.state).toBe('monitoring');
+   });
+
+   test('gives up after maxAttempts', async () => {
+      const target = createTarget(() =>
+         Promise.reject(new Error('No response'))
+      );
+      const { connection, supervisor } = superviseConnection(target);
+      connection.disconnect();
+      connection.reconnect();
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(supervisor.state).toBe('failed');
+      expect(target.verifyDevice).toHaveBeenCalledTimes(4);
+      expect(target.onReconnectFailed).toHaveBeenCalledTimes(1);
+      expect(target.onReconnectFailed.mock.calls[0][0].message).toBe(
+         'No response'
+      );
+      expect(target.resumeSampling).not.toHaveBeenCalled();
+   });
+
+   test('abandons reconnection when stopped', async () => {
+      const target = createTarget();
+      const { connection, supervisor } = superviseConnection(target);
+      connection.disconnect();
+      supervisor.stop();
+      connection.reconnect();
+      await jest.advanceTimersByTimeAsync(10000);
+
+      expect(supervisor.state).toBe('idle');
+      expect(target.verifyDevice).not.toHaveBeenCalled();
+   });
+});
+
+describe('ArduinoExample reconnection', () => {
+   beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+   });
+
+   afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+   });
+
+   async function startSampling(simulator: ArduinoFirmwareSimulator) {
+      const connection = new MockDuplexDeviceConnection(
+         simulator,
+         kSparkfunSAMD51
+      );
+      const harness = new QuarkHarness(new DeviceClass());
+      const result = harness.checkDeviceIsPresent(connection);
+      await jest.advanceTimersByTimeAsync(2100);
+      harness.createProxy(result.device as PhysicalDevice);
+      harness.connectToPhysicalDevice();
+      harness.prepareForSampling();
+      harness.startSampling();
+      await jest.advanceTimersByTimeAsync(1000);
+      return { harness, connection };
+   }
+
+   test('fills the gap and resumes sampling after the device is reconnected', async () => {
+      const simulator = new ArduinoFirmwareSimulator();
+      const { harness, connection } = await startSampling(simulator);
+      const { proxySys } = harness;
+      const samplesBefore = proxySys.samples[0].length;
+      expect(samplesBefore).toBeGreaterThan(90);
+
+      connection.disconnect('USB device removed');
+      await jest.advanceTimersByTimeAsync(1400);
+      connection.reconnect();
+      await jest.advanceTimersByTimeAsync(2000);
+
+      //The rate setting was re-sent before sampling resumed
+      expect(simulator.commands.slice(-4)).toEqual([
+         's\n',
+         'v\n',
+         '~6\n',
+         'b\n'
+      ]);
+      const samples = proxySys.samples[0];
+      const gap = samples.slice(samplesBefore).filter((v) => v === kOutOfRange);
+      //Retries at 500 and 1500 ms
+      expect(gap.length).toBeGreaterThanOrEqual(150);
+      expect(gap.length).toBeLessThanOrEqual(152);
+      expect(samples.length - samplesBefore - gap.length).toBeGreaterThan(40);
+      expect(samples[samples.length - 1]).not.toBe(kOutOfRange);
+
+      const dataLoss = proxySys.deviceEvents.filter(
+         (e) => e.event === DeviceEvent.kDeviceDataLoss
+      );
+      expect(dataLoss).toHaveLength(1);
+      expect(dataLoss[0].message).toMatch(
+         /^No data for 1\.5 s because the connection to the device was lost\.$/
+      );
+      expect(dataLoss[0].options?.flags).toBe(
+         TMessageFlags.kMessageAddAnotation
+      );
+
+      expect(harness.stopSampling()).toBe(true);
+      harness.cleanupAfterSampling();
+      expect(proxySys.deviceEvents.map((e) => DeviceEvent[e.event])).toEqual([
+         'kDeviceStarted',
+         'kDeviceDataLoss',
+         'kDeviceStopped'
+      ]);
+      harness.assertNoViolations();
+   });
+
+   test('stops sampling if a different device is plugged in', async () => {
+      const simulator = new ArduinoFirmwareSimulator();
+      const { harness, connection } = await startSampling(simulator);
+
+      connection.disconnect();
+      simulator.versionInfo.serialNumber = '0002';
+      connection.reconnect();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      const stopped = harness.proxySys.deviceEvents.filter(
+         (e) => e.event === DeviceEvent.kDeviceStopped
+      );
+      expect(stopped).toHaveLength(1);
+      expect(stopped[0].message).toBe(
+         'Could not reconnect to the device: SparkFun SAMD51 Thing Plus has been replaced by a different device'
+      );
+   });
+});
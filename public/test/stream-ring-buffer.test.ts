@@ -0,0 +1,284 @@
+import {
+   StreamRingBufferImpl,
+   InterleavedStreamWriter,
+   reportStreamOverflows
+} from '../../public/stream-ring-buffer';
+import { UnitsInfo32Bit } from '../../public/device-units';
+import {
+   BlockDataFormat,
+   DeviceEvent,
+   ProxyDeviceSys,
+   TMessageSeverity,
+   UnitPrefix
+} from '../../public/device-api';
+
+describe('StreamRingBufferImpl', () => {
+   it('creates a typed array view for each block data format', () => {
+      const formats = [
+         {
+            format: BlockDataFormat.k16BitBlockDataFormat,
+            type: Int16Array
+         },
+         {
+            format: BlockDataFormat.k32BitBlockDataFormat,
+            type: Int32Array
+         },
+         {
+            format: BlockDataFormat.kFloatBlockDataFormat,
+            type: Float32Array
+         },
+         {
+            format: BlockDataFormat.kDoubleBlockDataFormat,
+            type: Float64Array
+         }
+      ];
+
+      for (const { format, type } of formats) {
+         const buffer = new StreamRingBufferImpl(0, 100, format);
+         expect(buffer.ringBuffer).toBeInstanceOf(type);
+         expect(buffer.ringBuffer.length).toEqual(128);
+         expect(buffer.ringBufferBuffer.byteLength).toEqual(
+            128 * type.BYTES_PER_ELEMENT
+         );
+      }
+   });
+
+   it('keeps full 32 bit integer precision', () => {
+      const buffer = new StreamRingBufferImpl(
+         0,
+         8,
+         BlockDataFormat.k32BitBlockDataFormat
+      );
+
+      buffer.writeInt(0x7fffff);
+      buffer.writeInt(-0x12345678);
+
+      expect(buffer.count()).toEqual(2);
+      expect(buffer.ringBuffer[0]).toEqual(0x7fffff);
+      expect(buffer.ringBuffer[1]).toEqual(-0x12345678);
+   });
+
+   it('keeps double precision values', () => {
+      const buffer = new StreamRingBufferImpl(
+         0,
+         8,
+         BlockDataFormat.kDoubleBlockDataFormat
+      );
+      const value = 2 ** 24 + 1.25;
+
+      buffer.writeValue(value);
+
+      expect(buffer.ringBuffer[0]).toEqual(value);
+   });
+
+   it('writes matching typed array chunks that wrap around the end of the buffer', () => {
+      const buffer = new StreamRingBufferImpl(
+         0,
+         8,
+         BlockDataFormat.kDoubleBlockDataFormat
+      );
+      buffer.inIndex = buffer.outIndex = 6;
+
+      expect(buffer.writeAll(new Float64Array([0.5, 1.5, 2.5, 3.5]))).toBe(
+         true
+      );
+
+      expect(buffer.count()).toEqual(4);
+      expect(buffer.inIndex).toEqual(2);
+      expect(Array.from(buffer.ringBuffer.subarray(6))).toEqual([0.5, 1.5]);
+      expect(Array.from(buffer.ringBuffer.subarray(0, 2))).toEqual([2.5, 3.5]);
+   });
+
+   it('does not write a chunk larger than the free space', () => {
+      const buffer = new StreamRingBufferImpl(
+         0,
+         4,
+         BlockDataFormat.k32BitBlockDataFormat
+      );
+
+      expect(buffer.writeAll(new Int32Array([1, 2, 3, 4]))).toBe(false);
+      expect(buffer.count()).toEqual(0);
+   });
+});
+
+describe('StreamRingBufferImpl overflow', () => {
+   function fill(buffer: StreamRingBufferImpl, values: number[]) {
+      for (const value of values) buffer.writeInt(value);
+   }
+
+   it('drops the newest samples by default and counts them', () => {
+      const buffer = new StreamRingBufferImpl(0, 4);
+      fill(buffer, [1, 2, 3]);
+
+      expect(buffer.writeInt(4)).toBe(false);
+      expect(buffer.writeAll(new Int16Array([5, 6]))).toBe(false);
+
+      expect(buffer.overflowCount).toEqual(3);
+      expect(Array.from(buffer.ringBuffer.subarray(0, 3))).toEqual([1, 2, 3]);
+   });
+
+   it('marks the gap with an out of range value when the policy is out-of-range-marker', () => {
+      const buffer = new StreamRingBufferImpl(0, 4);
+      buffer.overflowPolicy = 'out-of-range-marker';
+      fill(buffer, [1, 2, 3]);
+
+      expect(buffer.writeInt(4)).toBe(false);
+
+      //Samples Quark may be reading are not changed
+      expect(buffer.overflowCount).toEqual(1);
+      expect(Array.from(buffer.ringBuffer.subarray(0, 3))).toEqual([1, 2, 3]);
+
+      //Quark reads the buffer, then the marker replaces the next sample
+      buffer.outIndex = buffer.inIndex;
+      expect(buffer.writeSome(new Int16Array([5, 6]))).toEqual(2);
+      buffer.writeInt(7);
+
+      expect(buffer.overflowCount).toEqual(2);
+      expect(buffer.count()).toEqual(3);
+      expect(Array.from(buffer.ringBuffer)).toEqual([6, 7, 3, -0x8000]);
+   });
+
+   it('counts the part of a chunk that did not fit', () => {
+      const buffer = new StreamRingBufferImpl(
+         0,
+         4,
+         BlockDataFormat.kFloatBlockDataFormat
+      );
+
+      expect(buffer.writeSome(new Float32Array([1, 2, 3, 4, 5]))).toEqual(3);
+      expect(buffer.overflowCount).toEqual(2);
+   });
+
+   it('reports newly lost samples for each stream as data loss events', () => {
+      const onDeviceEvent = jest.fn();
+      const proxyDeviceSys = { onDeviceEvent } as unknown as ProxyDeviceSys;
+      const buffers = [
+         new StreamRingBufferImpl(0, 4),
+         new StreamRingBufferImpl(2, 4)
+      ];
+      fill(buffers[1], [1, 2, 3, 4, 5]);
+
+      expect(reportStreamOverflows(proxyDeviceSys, 'Device', buffers)).toEqual(
+         2
+      );
+      expect(onDeviceEvent).toBeCalledTimes(1);
+      expect(onDeviceEvent).toBeCalledWith(
+         DeviceEvent.kDeviceDataLoss,
+         'Device',
+         expect.stringContaining('2 samples lost from stream 3'),
+         { severity: TMessageSeverity.kMessageWarn, streamIndex: 2 }
+      );
+
+      //Already reported
+      expect(reportStreamOverflows(proxyDeviceSys, 'Device', buffers)).toEqual(
+         0
+      );
+      expect(onDeviceEvent).toBeCalledTimes(1);
+   });
+});
+
+describe('InterleavedStreamWriter', () => {
+   function createBuffers(nStreams: number, minSizeInSamples = 16) {
+      const buffers: StreamRingBufferImpl[] = [];
+      for (let i = 0; i < nStreams; ++i) {
+         buffers.push(new StreamRingBufferImpl(i, minSizeInSamples));
+      }
+      return buffers;
+   }
+
+   function contents(buffer: StreamRingBufferImpl) {
+      const result: number[] = [];
+      for (let i = 0; i < buffer.count(); ++i) {
+         result.push(buffer.ringBuffer[(buffer.outIndex + i) & buffer.lenMask]);
+      }
+      return result;
+   }
+
+   it('de-interleaves points into one stream per channel', () => {
+      const buffers = createBuffers(3);
+      const writer = new InterleavedStreamWriter(buffers, 3);
+
+      writer.write(new Int32Array([1, 2, 3, 4, 5, 6, 7, 8, 9]));
+
+      expect(contents(buffers[0])).toEqual([1, 4, 7]);
+      expect(contents(buffers[1])).toEqual([2, 5, 8]);
+      expect(contents(buffers[2])).toEqual([3, 6, 9]);
+   });
+
+   it('uses the channel to stream map and skips masked streams', () => {
+      const buffers = createBuffers(3);
+      const writer = new InterleavedStreamWriter(
+         buffers,
+         4,
+         [2, -1, 0, 1],
+         [false, true, false]
+      );
+
+      writer.write([10, 11, 12, 13, 20, 21, 22, 23]);
+
+      expect(contents(buffers[0])).toEqual([12, 22]);
+      expect(contents(buffers[1])).toEqual([]);
+      expect(contents(buffers[2])).toEqual([10, 20]);
+   });
+
+   it('writes with at most two set() calls per stream when wrapping', () => {
+      const buffers = createBuffers(2, 8);
+      buffers[0].inIndex = buffers[0].outIndex = 6;
+      const setSpy = jest.spyOn(buffers[0].ringBuffer, 'set');
+      const writer = new InterleavedStreamWriter(buffers, 2);
+
+      writer.write([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+      expect(setSpy).toBeCalledTimes(2);
+      expect(contents(buffers[0])).toEqual([1, 3, 5, 7, 9]);
+      expect(contents(buffers[1])).toEqual([2, 4, 6, 8, 10]);
+   });
+
+   it('reports samples that did not fit into each stream', () => {
+      const buffers = createBuffers(2, 4);
+      buffers[1].writeInt(-1);
+      const writer = new InterleavedStreamWriter(buffers, 2);
+
+      const dropped = writer.write([1, 2, 3, 4, 5, 6, 7, 8]);
+
+      expect(Array.from(dropped)).toEqual([1, 2]);
+      expect(contents(buffers[0])).toEqual([1, 3, 5]);
+      expect(contents(buffers[1])).toEqual([-1, 2, 4]);
+   });
+
+   it('writes into float buffers without converting to integers', () => {
+      const buffers = [
+         new StreamRingBufferImpl(0, 4, BlockDataFormat.kFloatBlockDataFormat)
+      ];
+      const writer = new InterleavedStreamWriter(buffers, 1);
+
+      writer.write(new Float64Array([0.5, -1.25]));
+
+      expect(contents(buffers[0])).toEqual([0.5, -1.25]);
+   });
+});
+
+describe('UnitsInfo32Bit', () => {
+   it('defaults to the full 32 bit range', () => {
+      const units = new UnitsInfo32Bit('V', UnitPrefix.kMilli, 3, 10, -10);
+
+      expect(units.maxInADCValues).toEqual(0x7fffffff);
+      expect(units.minInADCValues).toEqual(-0x7fffffff);
+      expect(units.maxValidADCValue).toEqual(0x7fffffff);
+      expect(units.minValidADCValue).toEqual(-0x7fffffff);
+   });
+
+   it('supports 24 bit ADCs', () => {
+      const units = new UnitsInfo32Bit(
+         'V',
+         UnitPrefix.kMicro,
+         3,
+         187500,
+         -187500,
+         0x7fffff
+      );
+
+      expect(units.maxInADCValues).toEqual(0x7fffff);
+      expect(units.minInADCValues).toEqual(-0x7fffff);
+   });
+});